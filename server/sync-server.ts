@@ -0,0 +1,89 @@
+/**
+ * Self-hostable sync endpoint for Patient Counter.
+ *
+ *   SYNC_TOKEN=secret npm run sync-server
+ *
+ * Env: PORT (default 8787), SYNC_DATA (JSON file, default sync-data.json),
+ * SYNC_TOKEN (optional Bearer token). Needs Node 22.6+ (type stripping).
+ */
+import { existsSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import { createServer, type ServerResponse } from "node:http";
+import {
+  createSyncStore,
+  isPushRequest,
+  type SyncSnapshot,
+} from "../src/sync.ts";
+
+const PORT = Number(process.env.PORT ?? 8787);
+const DATA_FILE = process.env.SYNC_DATA ?? "sync-data.json";
+const TOKEN = process.env.SYNC_TOKEN ?? "";
+const MAX_BODY = 20 * 1024 * 1024;
+
+const store = createSyncStore(
+  existsSync(DATA_FILE)
+    ? (JSON.parse(readFileSync(DATA_FILE, "utf8")) as SyncSnapshot)
+    : undefined
+);
+
+// Write-then-rename so a crash mid-write never leaves a torn file.
+function persist() {
+  writeFileSync(`${DATA_FILE}.tmp`, JSON.stringify(store.snapshot()));
+  renameSync(`${DATA_FILE}.tmp`, DATA_FILE);
+}
+
+function send(res: ServerResponse, status: number, body?: unknown) {
+  res.writeHead(status, {
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Headers": "Authorization, Content-Type",
+    "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+    "Content-Type": "application/json",
+  });
+  res.end(body === undefined ? undefined : JSON.stringify(body));
+}
+
+createServer((req, res) => {
+  const url = new URL(req.url ?? "/", "http://localhost");
+  if (req.method === "OPTIONS") return send(res, 204);
+  if (TOKEN && req.headers.authorization !== `Bearer ${TOKEN}`)
+    return send(res, 401, { error: "unauthorized" });
+
+  if (req.method === "GET" && url.pathname === "/pull") {
+    const since = Number(url.searchParams.get("since") ?? 0);
+    if (!Number.isInteger(since) || since < 0)
+      return send(res, 400, { error: "bad cursor" });
+    return send(res, 200, store.pull(since));
+  }
+
+  if (req.method === "POST" && url.pathname === "/push") {
+    let body = "";
+    req.setEncoding("utf8");
+    req.on("data", (chunk: string) => {
+      body += chunk;
+      if (body.length > MAX_BODY) req.destroy();
+    });
+    req.on("end", () => {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(body);
+      } catch {
+        return send(res, 400, { error: "invalid JSON" });
+      }
+      if (!isPushRequest(parsed))
+        return send(res, 400, { error: "malformed sessions or locations" });
+      // A failed write is this request's problem; keep serving the rest.
+      try {
+        const result = store.push(parsed);
+        persist();
+        send(res, 200, result);
+      } catch (e) {
+        console.error(e);
+        send(res, 500, { error: "could not store the changes" });
+      }
+    });
+    return;
+  }
+
+  send(res, 404, { error: "not found" });
+}).listen(PORT, () => {
+  console.log(`Patient Counter sync server on http://localhost:${PORT}`);
+});
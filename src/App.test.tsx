@@ -0,0 +1,87 @@
+import { fireEvent, render, screen, within } from "@testing-library/react";
+import { IDBFactory } from "fake-indexeddb";
+import { beforeEach, expect, it, vi } from "vitest";
+
+// A fresh database and module state each time; see storage.test.ts.
+beforeEach(() => {
+  globalThis.indexedDB = new IDBFactory();
+  localStorage.clear();
+  vi.resetModules();
+});
+
+const renderApp = async () => {
+  const { default: App } = await import("./App.tsx");
+  render(<App />);
+  // Boots once the saved data is loaded.
+  return screen.findByRole("combobox", { name: /Location/ });
+};
+
+it("counts patients and saves the finished session to History", async () => {
+  const location = await renderApp();
+  const addNew = screen.getByRole<HTMLButtonElement>("button", {
+    name: "Add one to NEW",
+  });
+  expect(addNew.disabled).toBe(true); // no location yet
+
+  const dhaka = within(location).getByRole("option", { name: "Dhaka" });
+  fireEvent.change(location, {
+    target: { value: (dhaka as HTMLOptionElement).value },
+  });
+  fireEvent.click(addNew);
+  fireEvent.click(addNew);
+  fireEvent.click(screen.getByRole("button", { name: "Add one to OLD" }));
+  fireEvent.click(screen.getByRole("button", { name: "Take one off NEW" }));
+  expect(screen.getByText("Total:").parentElement?.textContent).toContain("02");
+
+  fireEvent.click(screen.getByRole("button", { name: /Finish/ }));
+  fireEvent.click(await screen.findByRole("button", { name: "Yes" }));
+  // The counter starts over for the next session.
+  await vi.waitFor(() =>
+    expect(screen.getByText("Total:").parentElement?.textContent).toContain(
+      "00"
+    )
+  );
+
+  fireEvent.click(screen.getByRole("button", { name: /History/ }));
+  const history = await screen.findByRole("dialog");
+  const rows = within(history)
+    .getAllByRole("listitem")
+    .filter((li) => li.textContent?.includes("Dhaka"));
+  expect(rows).toHaveLength(1);
+  // NEW 1, OLD 1, total 2.
+  expect(within(rows[0]).getAllByText("1")).toHaveLength(2);
+  expect(within(rows[0]).getByText("2")).toBeTruthy();
+});
+
+it("counts from the keyboard once a location is picked", async () => {
+  const location = await renderApp();
+  const dhaka = within(location).getByRole("option", { name: "Dhaka" });
+  fireEvent.change(location, {
+    target: { value: (dhaka as HTMLOptionElement).value },
+  });
+  fireEvent.keyDown(window, { key: "n", code: "KeyN" });
+  fireEvent.keyDown(window, { key: "o", code: "KeyO" });
+  fireEvent.keyDown(window, { key: "o", code: "KeyO" });
+  fireEvent.keyDown(window, { key: "O", code: "KeyO", shiftKey: true });
+  expect(screen.getByText("Total:").parentElement?.textContent).toContain("02");
+  fireEvent.keyDown(window, { key: "z", code: "KeyZ", ctrlKey: true });
+  expect(screen.getByText("Total:").parentElement?.textContent).toContain("03");
+});
+
+it("closes the Undo offer once the counts change again", async () => {
+  const location = await renderApp();
+  const dhaka = within(location).getByRole("option", { name: "Dhaka" });
+  fireEvent.change(location, {
+    target: { value: (dhaka as HTMLOptionElement).value },
+  });
+  const addNew = screen.getByRole("button", { name: "Add one to NEW" });
+  fireEvent.click(addNew);
+  fireEvent.click(addNew);
+  fireEvent.click(screen.getByRole("button", { name: "Take one off NEW" }));
+  expect(screen.getByText("NEW −1")).toBeTruthy();
+
+  // Undoing now would take back this increment, not the decrement.
+  fireEvent.click(addNew);
+  expect(screen.queryByText("NEW −1")).toBeNull();
+  expect(screen.getByText("Total:").parentElement?.textContent).toContain("02");
+});
@@ -1,4 +1,4 @@
-import React, { useEffect, useMemo, useState } from "react";
+import React, { useEffect, useMemo, useRef, useState } from "react";
 import {
   Share2,
   Calendar,
@@ -11,265 +11,1102 @@ import {
   X,
   Pencil,
   Download,
+  Plus,
+  Archive,
+  ArchiveRestore,
+  Trash2,
+  Split,
+  Settings as SettingsIcon,
+  TriangleAlert,
+  UserRound,
+  Lock,
+  Target,
+  Undo2,
+  Redo2,
+  Maximize2,
 } from "lucide-react";
-import { v4 as uuidv4 } from "uuid";
-import jsPDF from "jspdf";
-
-/* -------------------- Types -------------------- */
-type Session = {
-  sessionId: string;
-  date: string; // YYYY-MM-DD
-  location: string;
-  total: number;
-  finishedAt: string; // ISO8601 with local offset
+import CounterManager from "./CounterManager.tsx";
+import Dashboard from "./Dashboard.tsx";
+import HistoryCalendar from "./HistoryCalendar.tsx";
+import ImportDialog from "./ImportDialog.tsx";
+import ProfileDialog, { PinPrompt } from "./ProfileDialog.tsx";
+import RestoreDialog from "./RestoreDialog.tsx";
+import ScheduleManager from "./ScheduleManager.tsx";
+import TapMode from "./TapMode.tsx";
+import {
+  createBackup,
+  mergeBackup,
+  type Backup,
+  type ConflictPolicy,
+} from "./backup.ts";
+import {
+  COUNTER_COLORS,
+  categoriesIn,
+  countersAt,
+  fmtCounts,
+  normalizeCounts,
+  sumCounts,
+} from "./counters.ts";
+import {
+  blankCurrent,
+  cleared,
+  countOf,
+  currentTotal,
+  decrement,
+  increment,
+  isStale,
+  preselect,
+  redoStep,
+  resetCount,
+  undoStep,
+  withDate,
+  withLocation,
+} from "./current.ts";
+import { dateOfTimestamp, localDate, localTimestamp } from "./dates.ts";
+import {
+  billingFor,
+  fmtBilling,
+  fmtMoney,
+  hasRevenue,
+  revenueOf,
+  sumRevenue,
+} from "./fees.ts";
+import {
+  exportSelection,
+  filterSessions,
+  overTargetDays,
+  sumSessions,
+  type ExportScope,
+} from "./filters.ts";
+import {
+  LANGUAGES,
+  digits,
+  getLanguage,
+  locale,
+  setLanguage,
+  t,
+  type Lang,
+  type MessageKey,
+} from "./i18n.ts";
+import { DOUBLE_TAP_OPTIONS, keyAction } from "./input.ts";
+import { createLock } from "./lock.ts";
+import { exportFilename } from "./periods.ts";
+import { isLocked, patchProfile } from "./profiles.ts";
+import {
+  FontError,
+  buildReport,
+  reportFilename,
+  type ReportTemplate,
+} from "./report.ts";
+import {
+  REMINDER_DELAY_MS,
+  fmtSlot,
+  nextTimeOfDay,
+  showReminder,
+  slotAt,
+} from "./schedule.ts";
+import {
+  addImported,
+  applyEdit,
+  byArrival,
+  bySessionOrder,
+  canSplit,
+  finishSession,
+  markDeleted,
+  markRestored,
+  mergeTargetOf,
+  unmerge,
+} from "./sessions.ts";
+import { toCSV, toXLSX, type ImportDraft } from "./spreadsheet.ts";
+import { mergeRemote, mergeRemoteLocations } from "./sync.ts";
+import {
+  SyncError,
+  httpTransport,
+  requestBackgroundSync,
+  resetSync,
+  syncWithServer,
+} from "./syncClient.ts";
+import {
+  MAIN_PROFILE_ID,
+  StorageError,
+  deleteProfileData,
+  loadLanguage,
+  loadProfiles,
+  loadState,
+  rekeyProfile,
+  saveCurrent,
+  saveLanguage,
+  saveLocationChanges,
+  saveSessionChanges,
+  saveSettings,
+  saveProfiles,
+  saveState,
+  selectProfile,
+  type ProfileRegistry,
+  type StoredState,
+} from "./storage.ts";
+import type {
+  AuditChange,
+  Billing,
+  ClickerMapping,
+  CounterCategory,
+  CurrentState,
+  HistoryFilters,
+  Location,
+  MergePolicy,
+  Profile,
+  ProfileLock,
+  Settings,
+  Session,
+  Shift,
+  VisitKind,
+} from "./types.ts";
+import {
+  SHIFT_LABELS,
+  downloadBlob,
+  fmtSplit,
+  formatDateDMY,
+  newLocation,
+  pad2,
+  shiftLabel,
+  withRevisions,
+} from "./utils.ts";
+
+/* -------------------- Settings -------------------- */
+const DEFAULT_SETTINGS: Settings = {
+  mergePolicy: "merge",
+  doctorName: "",
+  syncUrl: "",
+  syncToken: "",
+  autoLockMinutes: 5,
+  counters: [],
+  currency: "Tk",
+  schedule: [],
+  finishReminders: false,
+  autoFinishAt: "",
+  keyboardShortcuts: true,
+  clicker: "off",
+  doubleTapMs: 0,
+  keepAwake: true,
 };
 
-/* -------------------- Storage Keys -------------------- */
-const SESSIONS_KEY = "pc_sessions_v1";
-const CURRENT_KEY = "pc_current_v1";
-const LOCATIONS_KEY = "pc_locations_v1";
-
-/* -------------------- Defaults -------------------- */
-const DEFAULT_LOCATIONS = [
-  "Dhaka",
-  "Barisal",
-  "Gazipur",
-  "Sirajganj (KYAMCH)",
-  "Clinic A",
-];
+/* -------------------- Haptics -------------------- */
+const TARGET_REACHED = [200, 100, 200];
+const PAST_TARGET = [30, 60, 30];
+const haptic = (pattern: number | number[] = 10) => {
+  if (navigator.vibrate) navigator.vibrate(pattern);
+};
 
-/* -------------------- Helpers -------------------- */
-const pad2 = (n: number) => String(n).padStart(2, "0");
-const clamp = (v: number, min: number, max: number) =>
-  Math.max(min, Math.min(max, v));
-const todayISO = () => new Date().toISOString().slice(0, 10);
-const localISO = () => new Date().toISOString();
-
-function loadSessions(): Session[] {
-  try {
-    const raw = localStorage.getItem(SESSIONS_KEY);
-    return raw ? (JSON.parse(raw) as Session[]) : [];
-  } catch {
-    return [];
-  }
-}
-function saveSessions(list: Session[]) {
-  localStorage.setItem(SESSIONS_KEY, JSON.stringify(list));
-}
-function loadLocations(): (string | null)[] {
-  try {
-    const raw = localStorage.getItem(LOCATIONS_KEY);
-    const arr = raw ? (JSON.parse(raw) as (string | null)[]) : DEFAULT_LOCATIONS;
-    const fixed = [...arr];
-    for (let i = fixed.length; i < 5; i++) {
-      fixed.push(`Clinic ${String.fromCharCode(65 + i)}`);
-    }
-    return fixed.slice(0, 5);
-  } catch {
-    return DEFAULT_LOCATIONS;
-  }
-}
-function saveLocations(names: (string | null)[]) {
-  localStorage.setItem(LOCATIONS_KEY, JSON.stringify(names.slice(0, 5)));
+const fmtTime = (iso: string) =>
+  new Date(iso).toLocaleTimeString(locale(), {
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+/* -------------------- Boot -------------------- */
+// Resolves the language, the profile registry and, unless the active
+// profile has a PIN, that profile's data.
+async function bootActiveProfile() {
+  setLanguage(await loadLanguage());
+  const registry = await loadProfiles();
+  const profile = registry.profiles.find((p) => p.id === registry.activeId)!;
+  if (isLocked(profile)) return { registry, locked: profile, boot: null };
+  selectProfile(profile.id, null);
+  return { registry, locked: null, boot: await loadState() };
 }
 
-/* -------------------- Current state -------------------- */
-type CurrentState = {
-  date: string | null;
-  location: string | null;
-  newCount: number;
-  oldCount: number;
-  locked: boolean;
-};
-const loadCurrent = (): CurrentState => {
-  try {
-    const raw = localStorage.getItem(CURRENT_KEY);
-    return raw
-      ? (JSON.parse(raw) as CurrentState)
-      : {
-          date: todayISO(),
-          location: null,
-          newCount: 0,
-          oldCount: 0,
-          locked: false,
-        };
-  } catch {
-    return {
-      date: todayISO(),
-      location: null,
-      newCount: 0,
-      oldCount: 0,
-      locked: false,
+// Storage is async, so the counter mounts only once data is in hand.
+// A failed load is shown instead of starting over with empty history.
+export default function App() {
+  const [registry, setRegistry] = useState<ProfileRegistry | null>(null);
+  const [pinFor, setPinFor] = useState<Profile | null>(null);
+  const [boot, setBoot] = useState<StoredState | null>(null);
+  const [error, setError] = useState<StorageError | null>(null);
+  // Mirrors the i18n module so a change re-renders everything.
+  const [language, setLanguageState] = useState<Lang>(getLanguage);
+  const changeLanguage = (next: Lang) => {
+    setLanguage(next);
+    setLanguageState(next);
+  };
+
+  useEffect(() => {
+    bootActiveProfile().then((r) => {
+      setLanguageState(getLanguage());
+      setRegistry(r.registry);
+      setPinFor(r.locked);
+      setBoot(r.boot);
+    }, setError);
+  }, []);
+
+  const retry = (opts?: { skipUnreadable: boolean }) => {
+    setError(null);
+    if (registry) loadState(opts).then(setBoot, setError);
+    else
+      bootActiveProfile().then((r) => {
+        setLanguageState(getLanguage());
+        setRegistry(r.registry);
+        setPinFor(r.locked);
+        setBoot(r.boot);
+      }, setError);
+  };
+
+  // Switches to a profile, asking for its PIN first unless its data key
+  // is given. `seal` encrypts data still stored in the clear.
+  const open = (
+    reg: ProfileRegistry,
+    id: string,
+    key?: CryptoKey,
+    seal = false
+  ) => {
+    const profile = reg.profiles.find((p) => p.id === id) ?? reg.profiles[0];
+    if (isLocked(profile) && !key) return setPinFor(profile);
+    const next = { ...reg, activeId: profile.id };
+    setPinFor(null);
+    setBoot(null);
+    setError(null);
+    setRegistry(next);
+    selectProfile(profile.id, seal ? null : (key ?? null));
+    saveProfiles(next)
+      .then(() => (seal ? rekeyProfile(key!) : undefined))
+      .then(() => loadState())
+      .then(setBoot, setError);
+  };
+  // A PIN from before encryption only had a hash; give the profile a data
+  // key wrapped under that PIN and encrypt its data with it.
+  const unlock = (profile: Profile, key: CryptoKey | null, pin: string) => {
+    if (!registry) return;
+    if (key) return open(registry, profile.id, key);
+    createLock(pin).then(
+      (created) =>
+        open(
+          patchProfile(registry, profile.id, {
+            lock: created.lock,
+            pinHash: undefined,
+          }),
+          profile.id,
+          created.key,
+          true
+        ),
+      setError
+    );
+  };
+  const lock = () => {
+    if (!registry) return;
+    setBoot(null);
+    selectProfile(registry.activeId, null);
+    setPinFor(registry.profiles.find((p) => p.id === registry.activeId)!);
+  };
+  // Ordered so that an interruption never leaves data encrypted under a
+  // key the saved lock can't unwrap: the lock is saved before encrypting
+  // and dropped only after decrypting.
+  const changeLock = async (
+    profileLock: ProfileLock | undefined,
+    key?: CryptoKey
+  ) => {
+    if (!registry) return;
+    const next = patchProfile(registry, registry.activeId, {
+      lock: profileLock,
+      pinHash: undefined,
+    });
+    if (profileLock) {
+      await saveProfiles(next);
+      if (key) await rekeyProfile(key);
+    } else {
+      await rekeyProfile(null);
+      await saveProfiles(next);
+    }
+    setRegistry(next);
+  };
+  const changeProfiles = (next: ProfileRegistry) => {
+    setRegistry(next);
+    saveProfiles(next).catch(setError);
+  };
+  // Unmounts the counter before its database goes away.
+  const deleteProfile = (id: string) => {
+    if (!registry) return;
+    const rest = {
+      profiles: registry.profiles.filter((p) => p.id !== id),
+      activeId: MAIN_PROFILE_ID,
     };
-  }
-};
-const saveCurrent = (s: CurrentState) =>
-  localStorage.setItem(CURRENT_KEY, JSON.stringify(s));
+    setBoot(null);
+    setRegistry(rest);
+    saveProfiles(rest)
+      .then(() => deleteProfileData(id))
+      .then(() => open(rest, MAIN_PROFILE_ID), setError);
+  };
 
-/* -------------------- Haptics -------------------- */
-const haptic = () => {
-  if (navigator.vibrate) navigator.vibrate(10);
-};
+  const pinPrompt = pinFor && registry && (
+    <PinPrompt
+      profile={pinFor}
+      others={registry.profiles.filter((p) => p.id !== pinFor.id)}
+      onUnlock={(key, pin) => unlock(pinFor, key, pin)}
+      onPick={(id) => open(registry, id)}
+      onCancel={boot ? () => setPinFor(null) : undefined}
+    />
+  );
+
+  if (boot && registry)
+    return (
+      <>
+        <PatientCounter
+          key={registry.activeId}
+          boot={boot}
+          registry={registry}
+          onSwitchProfile={(id) => open(registry, id)}
+          onProfilesChange={changeProfiles}
+          onDeleteProfile={deleteProfile}
+          onLockChange={changeLock}
+          onLock={lock}
+          language={language}
+          onLanguageChange={changeLanguage}
+        />
+        {pinPrompt}
+      </>
+    );
+  return (
+    <div className="min-h-[100svh] w-full bg-gray-50 flex items-center justify-center p-4">
+      {error ? (
+        <div className="w-full max-w-md bg-white rounded-3xl shadow-xl p-6">
+          <div className="flex items-center gap-2 text-red-700 font-semibold">
+            <TriangleAlert className="h-5 w-5" />
+            {t("app.openFailed")}
+          </div>
+          <p className="mt-2 text-sm text-gray-700">{error.message}</p>
+          <p className="mt-1 text-sm text-gray-500">
+            {t("app.nothingDeleted")}
+          </p>
+          <div className="mt-4 flex gap-3">
+            {error.legacyKey && (
+              <button
+                className="flex-1 py-2 rounded-lg border"
+                onClick={() => retry({ skipUnreadable: true })}
+              >
+                {t("app.continueWithout")}
+              </button>
+            )}
+            <button
+              className="flex-1 py-2 rounded-lg bg-blue-600 text-white"
+              onClick={() => retry()}
+            >
+              {t("common.retry")}
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="text-gray-500">{t("app.loading")}</div>
+      )}
+      {pinPrompt}
+    </div>
+  );
+}
 
 /* -------------------- App -------------------- */
-export default function App() {
-  const [sessions, setSessions] = useState<Session[]>(loadSessions());
-  const [locations, setLocations] = useState<(string | null)[]>(loadLocations());
-  const [current, setCurrent] = useState<CurrentState>(loadCurrent());
+function PatientCounter({
+  boot,
+  registry,
+  onSwitchProfile,
+  onProfilesChange,
+  onDeleteProfile,
+  onLockChange,
+  onLock,
+  language,
+  onLanguageChange,
+}: {
+  boot: StoredState;
+  registry: ProfileRegistry;
+  onSwitchProfile: (id: string) => void;
+  onProfilesChange: (next: ProfileRegistry) => void;
+  onDeleteProfile: (id: string) => void;
+  onLockChange: (
+    lock: ProfileLock | undefined,
+    key?: CryptoKey
+  ) => Promise<void>;
+  onLock: () => void;
+  language: Lang;
+  onLanguageChange: (next: Lang) => void;
+}) {
+  const profile = registry.profiles.find((p) => p.id === registry.activeId)!;
+  // Includes deleted tombstones; the UI works on `sessions` below.
+  const [allSessions, setAllSessions] = useState<Session[]>(() =>
+    boot.sessions.slice().sort(bySessionOrder)
+  );
+  const [locations, setLocations] = useState<Location[]>(boot.locations);
+  const [current, setCurrent] = useState<CurrentState>(() =>
+    preselect(
+      boot.current ?? blankCurrent(),
+      boot.settings.schedule ?? [],
+      boot.locations
+    )
+  );
+  // Spread over defaults so settings added later get a value.
+  const [settings, setSettings] = useState<Settings>({
+    ...DEFAULT_SETTINGS,
+    ...boot.settings,
+  });
 
   const [showHistory, setShowHistory] = useState(false);
   const [showFinish, setShowFinish] = useState(false);
   const [showEditLocations, setShowEditLocations] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  const [detailId, setDetailId] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [undoDelete, setUndoDelete] = useState<string | null>(null);
+  const [showRestore, setShowRestore] = useState(false);
+  const [showProfiles, setShowProfiles] = useState(false);
+  const [showCounters, setShowCounters] = useState(false);
+  const [showSchedule, setShowSchedule] = useState(false);
+  const [tapMode, setTapMode] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  /* -------------------- Persistence -------------------- */
+  // Sessions are written incrementally against what was last persisted.
+  const [saveError, setSaveError] = useState<StorageError | null>(null);
+  // Records that came from the sync server are saved but not queued back.
+  const persistedSessions = useRef(boot.sessions);
+  const persistedLocations = useRef(boot.locations);
+  const fromServer = useRef(new WeakSet<Session | Location>());
+  const syncOn = Boolean(settings.syncUrl);
+  useEffect(() => {
+    const prev = persistedSessions.current;
+    persistedSessions.current = allSessions;
+    saveSessionChanges(
+      prev,
+      allSessions,
+      syncOn ? (s) => !fromServer.current.has(s) : undefined
+    ).catch(setSaveError);
+  }, [allSessions, syncOn]);
+  useEffect(() => {
+    const prev = persistedLocations.current;
+    persistedLocations.current = locations;
+    saveLocationChanges(
+      prev,
+      locations,
+      syncOn ? (l) => !fromServer.current.has(l) : undefined
+    ).catch(setSaveError);
+  }, [locations, syncOn]);
+  useEffect(() => {
+    saveCurrent(current).catch(setSaveError);
+  }, [current]);
+  useEffect(() => {
+    saveSettings(settings).catch(setSaveError);
+  }, [settings]);
+  // After a failure the stores may lag behind; rewrite everything at once.
+  const retrySave = () => {
+    setSaveError(null);
+    saveState({ sessions: allSessions, locations, current, settings }).catch(
+      setSaveError
+    );
+  };
 
-  useEffect(() => saveSessions(sessions), [sessions]);
-  useEffect(() => saveLocations(locations), [locations]);
-  useEffect(() => saveCurrent(current), [current]);
+  /* -------------------- Auto-lock -------------------- */
+  // Locks after the chosen minutes without a touch or key press. Timers
+  // are throttled in the background, so returning to the page checks too.
+  const lockAfterMs = profile.lock ? settings.autoLockMinutes * 60_000 : 0;
+  const onLockRef = useRef(onLock);
+  useEffect(() => {
+    onLockRef.current = onLock;
+  });
+  useEffect(() => {
+    if (!lockAfterMs) return;
+    let last = Date.now();
+    let timer = setTimeout(() => onLockRef.current(), lockAfterMs);
+    const touch = () => {
+      last = Date.now();
+      clearTimeout(timer);
+      timer = setTimeout(() => onLockRef.current(), lockAfterMs);
+    };
+    const onVisible = () => {
+      if (
+        document.visibilityState === "visible" &&
+        Date.now() - last >= lockAfterMs
+      )
+        onLockRef.current();
+    };
+    window.addEventListener("pointerdown", touch);
+    window.addEventListener("keydown", touch);
+    document.addEventListener("visibilitychange", onVisible);
+    return () => {
+      clearTimeout(timer);
+      window.removeEventListener("pointerdown", touch);
+      window.removeEventListener("keydown", touch);
+      document.removeEventListener("visibilitychange", onVisible);
+    };
+  }, [lockAfterMs]);
+
+  const sessions = useMemo(
+    () => allSessions.filter((s) => !s.deletedAt),
+    [allSessions]
+  );
 
-  const total = current.newCount + current.oldCount;
-  const canStart = Boolean(current.date) && Boolean(current.location);
+  const total = currentTotal(current);
+  const canStart = Boolean(current.date) && Boolean(current.locationId);
   const counterEnabled = canStart;
 
-  const onInc = (key: "newCount" | "oldCount") => {
+  /* -------------------- Daily target and cap -------------------- */
+  // Both count the whole day at the location, finished sessions included.
+  const { target, cap } =
+    locations.find((l) => l.id === current.locationId) ?? {};
+  const finishedToday = sessions
+    .filter(
+      (s) => s.date === current.date && s.locationId === current.locationId
+    )
+    .reduce((n, s) => n + s.total, 0);
+  const dayTotal = finishedToday + total;
+  const atCap = cap !== undefined && dayTotal >= cap;
+  const targetReached = target !== undefined && dayTotal >= target;
+  const dayStatus = atCap
+    ? t("day.capReached", { cap })
+    : target !== undefined && dayTotal > target
+      ? t("day.overTarget", { over: dayTotal - target, target })
+      : targetReached
+        ? t("day.targetReached", { target })
+        : target !== undefined
+          ? t("day.toTarget", { left: target - dayTotal, target })
+          : cap !== undefined
+            ? t("day.toCap", { left: cap - dayTotal, cap })
+            : null;
+
+  /* -------------------- Schedule -------------------- */
+  // Back on the page on a later day: the idle counter follows the schedule.
+  useEffect(() => {
+    const onVisible = () => {
+      if (document.visibilityState !== "visible") return;
+      setCurrent((s) =>
+        s.date === localDate() ? s : preselect(s, settings.schedule, locations)
+      );
+    };
+    document.addEventListener("visibilitychange", onVisible);
+    return () => document.removeEventListener("visibilitychange", onVisible);
+  }, [settings.schedule, locations]);
+
+  // The slot the open session was started in, judged by its first arrival.
+  // Back-dated sessions are not checked.
+  const startedAt = current.visits[0]?.at;
+  const live =
+    current.locked &&
+    startedAt !== undefined &&
+    current.date === dateOfTimestamp(startedAt);
+  const slot =
+    live && current.locationId
+      ? slotAt(settings.schedule, new Date(startedAt), current.locationId)
+      : null;
+  const offSchedule = live && settings.schedule.length > 0 && !slot;
+  const slotEnd = slot?.end.getTime();
+
+  const reminderBody = slot
+    ? t("reminder.body", { slot: fmtSlot(slot.slot) })
+    : "";
+  useEffect(() => {
+    if (!settings.finishReminders || slotEnd === undefined) return;
+    const timer = setTimeout(
+      () => void showReminder(t("reminder.title"), reminderBody),
+      Math.max(0, slotEnd + REMINDER_DELAY_MS - Date.now())
+    );
+    return () => clearTimeout(timer);
+  }, [settings.finishReminders, slotEnd, reminderBody]);
+
+  const onInc = (kind: VisitKind) => {
     if (!counterEnabled) return;
+    setUndoOffer(null);
     setCurrent((s) => {
-      const val = clamp(s[key] + 1, 0, 99);
-      const next = {
-        ...s,
-        [key]: val,
-        locked: s.locked || val > 0 || s.newCount + s.oldCount > 0,
-      } as CurrentState;
-      haptic();
-      return next;
+      const day = finishedToday + currentTotal(s) + 1;
+      if (cap !== undefined && day > cap) return s;
+      haptic(
+        target === undefined || day < target
+          ? undefined
+          : day === target
+            ? TARGET_REACHED
+            : PAST_TARGET
+      );
+      return increment(s, kind);
     });
   };
-  const onDec = (key: "newCount" | "oldCount") => {
+  const onDec = (kind: VisitKind) => {
     if (!counterEnabled) return;
+    const from = countOf(current, kind);
+    if (from === 0) return;
     setCurrent((s) => {
-      const val = clamp(s[key] - 1, 0, 99);
-      const next = {
-        ...s,
-        [key]: val,
-        locked: s.locked || s.newCount + s.oldCount > 0,
-      } as CurrentState;
-      haptic();
+      const next = decrement(s, kind);
+      if (next !== s) haptic();
       return next;
     });
+    offerUndo(t("counter.decremented", { label: kindLabel(kind), n: 1 }));
   };
-  const onReset = (key: "newCount" | "oldCount") => {
-    if (!counterEnabled) return;
-    setCurrent((s) => ({ ...s, [key]: 0 }));
+  const onReset = (kind: VisitKind) => {
+    if (!counterEnabled || countOf(current, kind) === 0) return;
+    setCurrent((s) => resetCount(s, kind));
+    offerUndo(t("counter.wasReset", { label: kindLabel(kind) }));
   };
 
+  // A brief Undo offer after a decrement or reset. Any later change to the
+  // counts closes it, so it only ever undoes the change it names.
+  const [undoOffer, setUndoOffer] = useState<{
+    id: number;
+    message: string;
+  } | null>(null);
+  const offerUndo = (message: string) =>
+    setUndoOffer((o) => ({ id: (o?.id ?? 0) + 1, message }));
+  const undo = () => {
+    setCurrent(undoStep);
+    setUndoOffer(null);
+  };
+  const redo = () => {
+    setCurrent(redoStep);
+    setUndoOffer(null);
+  };
+  const kindLabel = (kind: VisitKind) =>
+    kind === "new"
+      ? t("common.new")
+      : kind === "old"
+        ? t("common.old")
+        : (settings.counters.find((c) => c.id === kind)?.name ??
+          t("counter.fallback"));
+  // Custom tiles for this location, plus any hidden since it was counted.
+  const extraCounters = settings.counters.filter(
+    (c) =>
+      countersAt(settings.counters, current.locationId).includes(c) ||
+      countOf(current, c.id) > 0
+  );
+
   const changeDate = (val: string) => {
     if (current.locked) return;
-    setCurrent((s) => ({ ...s, date: val }));
+    setCurrent((s) => withDate(s, val));
   };
   const changeLocation = (val: string) => {
     if (current.locked) return;
-    setCurrent((s) => ({ ...s, location: val }));
+    setCurrent((s) => withLocation(s, val));
   };
 
-  const doFinish = () => {
-    if (total === 0 || !current.date || !current.location) {
+  const locationName = useMemo(() => {
+    const map = new Map(locations.map((l) => [l.id, l.name]));
+    return (id: string) => map.get(id) ?? t("common.unknownLocation");
+  }, [locations]);
+  const activeLocations = locations.filter((l) => !l.archived);
+
+  const updateLocations = (next: Location[]) => {
+    setLocations(withRevisions(locations, next));
+    // An archived location can no longer be picked for a new session.
+    if (
+      !current.locked &&
+      current.locationId &&
+      next.find((l) => l.id === current.locationId)?.archived
+    )
+      setCurrent((s) => ({ ...s, locationId: null }));
+  };
+
+  // The record a finish would merge into under the "merge" policy.
+  const mergeTarget = mergeTargetOf(sessions, current.date, current.locationId);
+
+  const doFinish = (mode: "merge" | "separate") => {
+    const { date, locationId, newCount, oldCount, counts, visits } = current;
+    if (total === 0 || !date || !locationId) {
       setShowFinish(false);
       return;
     }
-    setSessions((prev) => {
-      const idx = prev.findIndex(
-        (r) => r.date === current.date && r.location === current.location
-      );
-      const ts = localISO();
-      if (idx >= 0) {
-        const merged = [...prev];
-        merged[idx] = {
-          ...merged[idx],
-          total: merged[idx].total + total,
-          finishedAt: ts,
-        };
-        return merged.sort((a, b) =>
-          a.date === b.date
-            ? b.finishedAt.localeCompare(a.finishedAt)
-            : b.date.localeCompare(a.date)
-        );
-      }
-      const next: Session = {
-        sessionId: uuidv4(),
-        date: current.date,
-        location: current.location,
-        total,
-        finishedAt: ts,
-      };
-      return [next, ...prev].sort((a, b) =>
-        a.date === b.date
-          ? b.finishedAt.localeCompare(a.finishedAt)
-          : b.date.localeCompare(a.date)
-      );
-    });
-    setCurrent((s) => ({ ...s, newCount: 0, oldCount: 0, locked: false }));
+    const location = locations.find((l) => l.id === locationId);
+    setAllSessions((prev) =>
+      finishSession(
+        prev,
+        { date, locationId, newCount, oldCount, counts, visits },
+        mode,
+        location
+      )
+    );
+    // Ready for the next session: today, where the schedule says.
+    setCurrent((s) => preselect(cleared(s), settings.schedule, locations));
     setShowFinish(false);
   };
 
+  /* -------------------- Abandoned sessions -------------------- */
+  // A session left open from an earlier day is offered for finishing under
+  // its own date, carrying over to today, or discarding.
+  const [staleLater, setStaleLater] = useState(false);
+  const stale = isStale(current) && !staleLater;
+  const finishMode = settings.mergePolicy === "separate" ? "separate" : "merge";
+  const finishStale = () => {
+    if (settings.mergePolicy === "ask" && mergeTarget) setShowFinish(true);
+    else doFinish(finishMode);
+  };
+  const carryOver = () => setCurrent((s) => ({ ...s, date: localDate() }));
+  const discardCurrent = () =>
+    setCurrent((s) => preselect(cleared(s), settings.schedule, locations));
+
+  // Optional auto-finish: at the set time after the last count.
+  const lastCountAt = current.visits[current.visits.length - 1]?.at;
+  const autoFinishDue =
+    settings.autoFinishAt && current.locked && lastCountAt
+      ? nextTimeOfDay(new Date(lastCountAt), settings.autoFinishAt).getTime()
+      : undefined;
+  const autoFinishRef = useRef(() => {});
+  useEffect(() => {
+    autoFinishRef.current = () => {
+      doFinish(finishMode);
+      setNotice(
+        t("stale.autoFinished", { time: digits(settings.autoFinishAt) })
+      );
+    };
+  });
+  useEffect(() => {
+    if (autoFinishDue === undefined) return;
+    const timer = setTimeout(
+      () => autoFinishRef.current(),
+      Math.max(0, autoFinishDue - Date.now())
+    );
+    return () => clearTimeout(timer);
+  }, [autoFinishDue]);
+
+  /* -------------------- History editing -------------------- */
+  const saveEdit = (
+    id: string,
+    fields: Pick<Session, AuditChange["field"]>
+  ) => {
+    setAllSessions((prev) => applyEdit(prev, id, fields));
+    setEditingId(null);
+  };
+
+  const deleteSession = (id: string) => {
+    setAllSessions((prev) => markDeleted(prev, id));
+    if (detailId === id) setDetailId(null);
+    setUndoDelete(id);
+  };
+  const restoreSession = (id: string) => {
+    setAllSessions((prev) => markRestored(prev, id));
+    setUndoDelete(null);
+  };
+  // Turns a merged record back into one session per original finish.
+  const splitSession = (id: string) =>
+    setAllSessions((prev) => unmerge(prev, id));
+
+  const detail = sessions.find((s) => s.sessionId === detailId) ?? null;
+  const editing = sessions.find((s) => s.sessionId === editingId) ?? null;
+
   /* -------------------- History + Filters -------------------- */
-  const [locFilter, setLocFilter] = useState<string | "ALL">("ALL");
+  const [locFilter, setLocFilter] = useState<string>("ALL");
+  const [yearFilter, setYearFilter] = useState<string>("ALL");
+  // The calendar can page to a year without sessions; keep it selectable.
   const years = useMemo(() => {
     const set = new Set<string>();
     sessions.forEach((s) => set.add(s.date.slice(0, 4)));
+    if (yearFilter !== "ALL") set.add(yearFilter);
     return Array.from(set).sort().reverse();
-  }, [sessions]);
-  const [yearFilter, setYearFilter] = useState<string | "ALL">("ALL");
+  }, [sessions, yearFilter]);
   const [monthFilter, setMonthFilter] = useState<number | 0>(0);
   const [from, setFrom] = useState<string>("");
   const [to, setTo] = useState<string>("");
+  const [counterFilter, setCounterFilter] = useState<string>("ALL");
+  const [historyView, setHistoryView] = useState<
+    "list" | "calendar" | "dashboard"
+  >("list");
+  const filters: HistoryFilters = useMemo(
+    () => ({ locFilter, yearFilter, monthFilter, counterFilter, from, to }),
+    [locFilter, yearFilter, monthFilter, counterFilter, from, to]
+  );
 
-  const filtered = useMemo(() => {
-    return sessions.filter((s) => {
-      if (locFilter !== "ALL" && s.location !== locFilter) return false;
-      if (yearFilter !== "ALL" && s.date.slice(0, 4) !== yearFilter) return false;
-      if (monthFilter !== 0 && Number(s.date.slice(5, 7)) !== monthFilter)
-        return false;
-      if (from && s.date < from) return false;
-      if (to && s.date > to) return false;
-      return true;
-    });
-  }, [sessions, locFilter, yearFilter, monthFilter, from, to]);
+  const filtered = useMemo(
+    () => filterSessions(sessions, filters),
+    [sessions, filters]
+  );
+
+  // Sums for the filtered rows; a split is shown only if every row knows it.
+  const filteredTotals = useMemo(() => sumSessions(filtered), [filtered]);
+  // Income of the filtered rows that track it; null if none do.
+  const filteredRevenue = useMemo(
+    () => (hasRevenue(filtered) ? sumRevenue(filtered) : null),
+    [filtered]
+  );
+  // Days over the location's target, for the History markers.
+  const overTarget = useMemo(
+    () => overTargetDays(sessions, locations),
+    [sessions, locations]
+  );
+  const filteredOverTarget = useMemo(
+    () =>
+      new Set(
+        filtered
+          .map((s) => `${s.date}|${s.locationId}`)
+          .filter((key) => overTarget.has(key))
+      ).size,
+    [filtered, overTarget]
+  );
+  // Every category with history, for the filter and per-row breakdowns.
+  const historyCategories = useMemo(
+    () => categoriesIn(sessions, settings.counters),
+    [sessions, settings.counters]
+  );
+
+  /* -------------------- Calendar -------------------- */
+  // The calendar shows the month the filters pick; without one, the
+  // current month (or January of the chosen year).
+  const today = localDate();
+  const calendarYear =
+    yearFilter === "ALL" ? Number(today.slice(0, 4)) : Number(yearFilter);
+  const calendarMonth =
+    monthFilter ||
+    (calendarYear === Number(today.slice(0, 4))
+      ? Number(today.slice(5, 7))
+      : 1);
+  const showMonth = (year: number, month: number) => {
+    setYearFilter(String(year));
+    setMonthFilter(month);
+  };
+  const changeHistoryView = (v: typeof historyView) => {
+    if (v === "calendar") showMonth(calendarYear, calendarMonth);
+    setHistoryView(v);
+  };
+  // Tapping an empty past day: count for it as a back-dated session.
+  const startBackdated = (date: string) => {
+    if (current.locked) return;
+    changeDate(date);
+    setShowHistory(false);
+  };
 
   /* -------------------- Export -------------------- */
-  function exportPDF(scope: "ALL" | "FILTERED" | "TODAY") {
-    let list: Session[] = [];
-    if (scope === "ALL") list = sessions;
-    if (scope === "FILTERED") list = filtered;
-    if (scope === "TODAY") list = sessions.filter((s) => s.date === todayISO());
-
-    const doc = new jsPDF({ unit: "pt", format: "a4" });
-    const left = 40;
-    let top = 50;
-    doc.setFontSize(16);
-    doc.text("Patient Counter", left, top);
-    top += 24;
-    doc.setFontSize(12);
-    if (list.length === 0) {
-      doc.text("No entries.", left, top);
-    } else {
-      list
-        .slice()
-        .sort((a, b) =>
-          a.date === b.date
-            ? b.finishedAt.localeCompare(a.finishedAt)
-            : b.date.localeCompare(a.date)
-        )
-        .forEach((s, i) => {
-          const line = `${i + 1}. ${s.date} — ${s.location} — Total: ${s.total}`;
-          doc.text(line, left, top);
-          top += 18;
-          if (top > 780) {
-            doc.addPage();
-            top = 50;
-          }
-        });
+  const [reportTemplate, setReportTemplate] =
+    useState<ReportTemplate>("detailed");
+  const [exportFormat, setExportFormat] = useState<"pdf" | "csv" | "xlsx">(
+    "pdf"
+  );
+
+  async function exportPDF(scope: ExportScope) {
+    const { list, scopeLabel, period } = exportSelection(
+      scope,
+      sessions,
+      filters,
+      locationName
+    );
+    const options = {
+      sessions: list,
+      template: scope === "TODAY" ? "detailed" : reportTemplate,
+      doctorName: settings.doctorName.trim(),
+      categories: settings.counters,
+      currency: settings.currency,
+      profileName: profile.name,
+      scopeLabel,
+      period,
+      locationName,
+    } as const;
+    try {
+      (await buildReport(options)).save(reportFilename(options));
+    } catch (e) {
+      console.error(e);
+      setNotice(e instanceof FontError ? e.message : t("report.exportFailed"));
     }
-    doc.save("Patient Counter.pdf");
   }
 
+  async function exportSheet(scope: ExportScope, format: "csv" | "xlsx") {
+    const { list, scopeLabel, period } = exportSelection(
+      scope,
+      sessions,
+      filters,
+      locationName
+    );
+    const rows = list.slice().sort(bySessionOrder);
+    const blob =
+      format === "csv"
+        ? new Blob([toCSV(rows, locationName, settings.counters)], {
+            type: "text/csv;charset=utf-8",
+          })
+        : await toXLSX(rows, locationName, settings.counters);
+    downloadBlob(
+      blob,
+      exportFilename(profile.name, scopeLabel, period, format)
+    );
+  }
+
+  const exportAs = (scope: ExportScope) =>
+    void (exportFormat === "pdf"
+      ? exportPDF(scope)
+      : exportSheet(scope, exportFormat));
+
+  /* -------------------- Import -------------------- */
+  const [showImport, setShowImport] = useState(false);
+  const existingKeys = useMemo(
+    () =>
+      new Set(
+        sessions.map(
+          (s) => `${s.date}|${locationName(s.locationId).toLowerCase()}`
+        )
+      ),
+    [sessions, locationName]
+  );
+
+  const importSessions = (drafts: ImportDraft[]) => {
+    const added = addImported(allSessions, locations, drafts);
+    setLocations(withRevisions(locations, added.locations));
+    setAllSessions(added.sessions);
+    setShowImport(false);
+  };
+
+  /* -------------------- Sync -------------------- */
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>({ state: "idle" });
+  const syncing = useRef(false);
+  const runSync = async () => {
+    if (!settings.syncUrl || syncing.current) return;
+    syncing.current = true;
+    setSyncStatus((s) => ({ ...s, state: "syncing" }));
+    try {
+      const result = await syncWithServer(
+        httpTransport(settings.syncUrl, settings.syncToken),
+        { sessions: allSessions, locations }
+      );
+      result.sessions.forEach((s) => fromServer.current.add(s));
+      result.locations.forEach((l) => fromServer.current.add(l));
+      // Merge against the latest state; edits may have landed meanwhile.
+      setAllSessions((prev) => {
+        const merged = mergeRemote(prev, result.sessions);
+        return merged.applied.length
+          ? merged.sessions.sort(bySessionOrder)
+          : prev;
+      });
+      setLocations((prev) => {
+        const merged = mergeRemoteLocations(prev, result.locations);
+        return merged.applied.length ? merged.locations : prev;
+      });
+      setSyncStatus({ state: "idle", at: localTimestamp() });
+    } catch (e) {
+      setSyncStatus((s) => ({
+        ...s,
+        state: "error",
+        message:
+          e instanceof SyncError || e instanceof StorageError
+            ? e.message
+            : t("settings.syncFailed"),
+      }));
+      // Let the service worker push the outbox once back online.
+      void requestBackgroundSync();
+    } finally {
+      syncing.current = false;
+    }
+  };
+  const runSyncRef = useRef(runSync);
+  useEffect(() => {
+    runSyncRef.current = runSync;
+  });
+  // Sync shortly after changes settle, and whenever connectivity returns
+  // (the page's `online` event, or the service worker's Background Sync).
+  useEffect(() => {
+    if (!syncOn) return;
+    const timer = setTimeout(() => runSyncRef.current(), 2000);
+    return () => clearTimeout(timer);
+  }, [allSessions, locations, syncOn, settings.syncToken]);
+  useEffect(() => {
+    const run = () => runSyncRef.current();
+    const onMessage = (e: MessageEvent) => {
+      if (e.data?.type === "sync") run();
+    };
+    window.addEventListener("online", run);
+    navigator.serviceWorker?.addEventListener("message", onMessage);
+    return () => {
+      window.removeEventListener("online", run);
+      navigator.serviceWorker?.removeEventListener("message", onMessage);
+    };
+  }, []);
+  const changeSettings = (next: Settings) => {
+    // A different server has none of our data; start with a full upload.
+    if (next.syncUrl !== settings.syncUrl) resetSync().catch(setSaveError);
+    setSettings(next);
+  };
+
+  /* -------------------- Backup -------------------- */
+  const downloadBackup = () => {
+    const backup = createBackup({
+      sessions: allSessions,
+      locations,
+      current,
+      settings,
+    });
+    downloadBlob(
+      new Blob([JSON.stringify(backup, null, 2)], {
+        type: "application/json",
+      }),
+      exportFilename(profile.name, "Backup", null, "json", localDate())
+    );
+  };
+
+  const restoreReplace = (b: Backup) => {
+    setAllSessions(b.sessions.slice().sort(bySessionOrder));
+    setLocations(b.locations);
+    setCurrent(b.current);
+    setSettings({ ...DEFAULT_SETTINGS, ...b.settings });
+    setShowRestore(false);
+    setNotice(t("settings.restored", { n: b.sessions.length }));
+  };
+  const restoreMerge = (b: Backup, policy: ConflictPolicy) => {
+    const merged = mergeBackup({ sessions: allSessions, locations }, b, policy);
+    setAllSessions(merged.sessions.sort(bySessionOrder));
+    setLocations(merged.locations);
+    setShowRestore(false);
+    setNotice(
+      t("settings.merged", { added: merged.added, updated: merged.replaced })
+    );
+  };
+
+  /* -------------------- Keys and clickers -------------------- */
+  // Counting keys work on the counter screen only, never under a dialog.
+  const dialogOpen =
+    stale ||
+    showFinish ||
+    showSettings ||
+    showCounters ||
+    showSchedule ||
+    showEditLocations ||
+    showHistory ||
+    detail !== null ||
+    editing !== null ||
+    showImport ||
+    showProfiles ||
+    showRestore;
+  const onKeyRef = useRef<(e: KeyboardEvent) => void>(() => {});
+  useEffect(() => {
+    onKeyRef.current = (e) => {
+      if (dialogOpen) return;
+      const action = keyAction(e, {
+        keyboard: settings.keyboardShortcuts,
+        clicker: settings.clicker,
+        counters: extraCounters.map((c) => c.id),
+      });
+      if (!action) return;
+      e.preventDefault();
+      if (action.type === "undo") undo();
+      else if (action.type === "redo") redo();
+      else if (action.type === "inc") onInc(action.kind);
+      else onDec(action.kind);
+    };
+  });
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => onKeyRef.current(e);
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, []);
+
+  /* -------------------- Wake lock -------------------- */
+  // Keeps the screen on while a session is open or tap mode is up. The
+  // browser drops the lock whenever the page is hidden, so coming back
+  // takes it again.
+  const keepAwake = settings.keepAwake && (current.locked || tapMode);
+  useEffect(() => {
+    if (!keepAwake || !("wakeLock" in navigator)) return;
+    let sentinel: WakeLockSentinel | null = null;
+    let released = false;
+    const acquire = () => {
+      if (document.visibilityState !== "visible") return;
+      navigator.wakeLock
+        .request("screen")
+        .then((s) => {
+          if (released) void s.release();
+          else sentinel = s;
+        })
+        .catch(() => {}); // battery saver, or no permission
+    };
+    acquire();
+    document.addEventListener("visibilitychange", acquire);
+    return () => {
+      released = true;
+      document.removeEventListener("visibilitychange", acquire);
+      void sentinel?.release();
+    };
+  }, [keepAwake]);
+
   /* -------------------- UI -------------------- */
   return (
     <div className="min-h-[100svh] w-full bg-gray-50 flex justify-center p-4 sm:p-6">
@@ -277,34 +1114,75 @@ export default function App() {
         className="w-full max-w-md bg-white rounded-3xl shadow-xl p-5 sm:p-6 flex flex-col"
         style={{ minHeight: "calc(100svh - 2rem)" }}
       >
+        {saveError && (
+          <div className="mb-4 rounded-xl bg-red-50 border border-red-200 px-3 py-2 text-sm text-red-700 flex items-center gap-2">
+            <TriangleAlert className="h-4 w-4 shrink-0" />
+            <span className="flex-1">{saveError.message}</span>
+            <button className="font-semibold" onClick={retrySave}>
+              {t("common.retry")}
+            </button>
+          </div>
+        )}
+
         {/* Header */}
         <div className="flex items-center justify-between mb-4">
-          <div className="w-6" />
-          <h1 className="text-2xl sm:text-3xl font-extrabold text-gray-900">
-            Patient Counter
-          </h1>
           <button
             className="p-2 rounded-xl hover:bg-gray-100 active:bg-gray-200"
-            onClick={() => exportPDF("ALL")}
-            title="Export PDF"
+            onClick={() => setShowSettings(true)}
+            title={t("settings.title")}
           >
-            <Share2 className="h-6 w-6" />
+            <SettingsIcon className="h-6 w-6" />
           </button>
+          <h1 className="text-2xl sm:text-3xl font-extrabold text-gray-900">
+            {t("app.title")}
+          </h1>
+          <div className="flex items-center">
+            {profile.lock && (
+              <button
+                className="p-2 rounded-xl hover:bg-gray-100 active:bg-gray-200"
+                onClick={onLock}
+                title={t("app.lock")}
+              >
+                <Lock className="h-6 w-6" />
+              </button>
+            )}
+            <button
+              className="p-2 rounded-xl hover:bg-gray-100 active:bg-gray-200 flex items-center gap-1"
+              onClick={() => setShowProfiles(true)}
+              title={t("app.profile", { name: profile.name })}
+            >
+              <UserRound className="h-6 w-6" />
+              {registry.profiles.length > 1 && (
+                <span className="max-w-[4.5rem] truncate text-xs font-semibold">
+                  {profile.name}
+                </span>
+              )}
+            </button>
+            <button
+              className="p-2 rounded-xl hover:bg-gray-100 active:bg-gray-200"
+              onClick={() => void exportPDF("ALL")}
+              title={t("app.exportPdf")}
+            >
+              <Share2 className="h-6 w-6" />
+            </button>
+          </div>
         </div>
 
         {/* Filters Card */}
         <div className="rounded-2xl border border-gray-200 p-3 sm:p-4 mb-4">
-          <h2 className="text-gray-500 font-semibold mb-2">Filters</h2>
+          <h2 className="text-gray-500 font-semibold mb-2">
+            {t("main.filters")}
+          </h2>
           <div className="divide-y divide-gray-200">
             <label className="flex items-center gap-3 py-2">
               <Calendar className="h-5 w-5 text-gray-700" />
               <div className="flex-1">
-                <div className="text-sm text-gray-600">Date</div>
+                <div className="text-sm text-gray-600">{t("common.date")}</div>
               </div>
               <input
                 type="date"
                 className="border rounded-xl px-3 py-2 text-sm"
-                value={current.date ?? todayISO()}
+                value={current.date ?? localDate()}
                 onChange={(e) => changeDate(e.target.value)}
                 disabled={current.locked}
               />
@@ -313,26 +1191,35 @@ export default function App() {
             <label className="flex items-center gap-3 py-2">
               <MapPin className="h-5 w-5 text-gray-700" />
               <div className="flex-1">
-                <div className="text-sm text-gray-600">Location</div>
+                <div className="text-sm text-gray-600">
+                  {t("common.location")}
+                </div>
               </div>
               <select
                 className="border rounded-xl px-3 py-2 text-sm"
-                value={current.location ?? ""}
+                value={current.locationId ?? ""}
                 onChange={(e) => changeLocation(e.target.value)}
                 disabled={current.locked}
               >
                 <option value="" disabled>
-                  Select
+                  {t("main.select")}
                 </option>
-                {locations.slice(0, 5).map((name, i) => (
-                  <option key={i} value={name ?? ""}>
-                    {name}
+                {activeLocations.map((l) => (
+                  <option key={l.id} value={l.id}>
+                    {l.name}
                   </option>
                 ))}
+                {/* Keep a locked session's location visible even if archived. */}
+                {current.locationId &&
+                  !activeLocations.some((l) => l.id === current.locationId) && (
+                    <option value={current.locationId} disabled>
+                      {locationName(current.locationId)}
+                    </option>
+                  )}
               </select>
               <button
                 className="ml-2 p-2 rounded-lg hover:bg-gray-100"
-                title="Rename locations"
+                title={t("main.manageLocations")}
                 onClick={() => setShowEditLocations(true)}
                 disabled={current.locked}
               >
@@ -344,69 +1231,104 @@ export default function App() {
 
         {/* Counters Card */}
         <div className="rounded-2xl border border-gray-200 p-3 sm:p-4 mb-4">
+          {offSchedule && (
+            <div className="mb-3 rounded-xl bg-amber-50 border border-amber-200 px-3 py-2 text-sm text-amber-800 flex items-center gap-2">
+              <TriangleAlert className="h-4 w-4 shrink-0" />
+              <span className="flex-1">
+                {t("main.offSchedule", {
+                  location: locationName(current.locationId!),
+                })}
+              </span>
+            </div>
+          )}
           <div className="grid grid-cols-2 gap-3">
-            <div className="relative rounded-2xl border border-gray-200 p-3 text-center">
-              <button
-                className="mx-auto mb-1 p-2 rounded-lg hover:bg-blue-50 disabled:opacity-50"
-                onClick={() => onInc("newCount")}
-                disabled={!counterEnabled}
-              >
-                <ChevronUp className="h-6 w-6" />
-              </button>
-              <div className="text-5xl font-extrabold text-blue-600 tabular-nums select-none">
-                {pad2(current.newCount)}
-              </div>
-              <button
-                className="mx-auto mt-1 p-2 rounded-lg hover:bg-blue-50 disabled:opacity-50"
-                onClick={() => onDec("newCount")}
-                disabled={!counterEnabled}
-              >
-                <ChevronDown className="h-6 w-6" />
-              </button>
-              <div className="mt-1 text-sm font-semibold text-blue-700">NEW</div>
-              <button
-                className="absolute top-2 right-2 p-2 rounded-lg hover:bg-gray-100"
-                onClick={() => onReset("newCount")}
-                disabled={!counterEnabled}
-                title="Reset"
-              >
-                <RotateCcw className="h-4 w-4" />
-              </button>
+            <CounterTile
+              label={t("common.new")}
+              value={current.newCount}
+              color="text-blue-600"
+              hover="hover:bg-blue-50"
+              disabled={!counterEnabled}
+              full={atCap}
+              onInc={() => onInc("new")}
+              onDec={() => onDec("new")}
+              onReset={() => onReset("new")}
+            />
+            <CounterTile
+              label={t("common.old")}
+              value={current.oldCount}
+              color="text-gray-700"
+              hover="hover:bg-gray-50"
+              disabled={!counterEnabled}
+              full={atCap}
+              onInc={() => onInc("old")}
+              onDec={() => onDec("old")}
+              onReset={() => onReset("old")}
+            />
+          </div>
+          {extraCounters.length > 0 && (
+            <div className="mt-3 grid grid-cols-3 gap-2">
+              {extraCounters.map((c) => (
+                <CounterTile
+                  key={c.id}
+                  small
+                  label={c.name}
+                  value={countOf(current, c.id)}
+                  color={COUNTER_COLORS[c.color].text}
+                  hover="hover:bg-gray-50"
+                  disabled={!counterEnabled}
+                  full={atCap}
+                  onInc={() => onInc(c.id)}
+                  onDec={() => onDec(c.id)}
+                  onReset={() => onReset(c.id)}
+                />
+              ))}
             </div>
+          )}
 
-            <div className="relative rounded-2xl border border-gray-200 p-3 text-center">
-              <button
-                className="mx-auto mb-1 p-2 rounded-lg hover:bg-gray-50 disabled:opacity-50"
-                onClick={() => onInc("oldCount")}
-                disabled={!counterEnabled}
-              >
-                <ChevronUp className="h-6 w-6" />
-              </button>
-              <div className="text-5xl font-extrabold text-gray-700 tabular-nums select-none">
-                {pad2(current.oldCount)}
-              </div>
-              <button
-                className="mx-auto mt-1 p-2 rounded-lg hover:bg-gray-50 disabled:opacity-50"
-                onClick={() => onDec("oldCount")}
-                disabled={!counterEnabled}
-              >
-                <ChevronDown className="h-6 w-6" />
-              </button>
-              <div className="mt-1 text-sm font-semibold text-gray-700">OLD</div>
-              <button
-                className="absolute top-2 right-2 p-2 rounded-lg hover:bg-gray-100"
-                onClick={() => onReset("oldCount")}
-                disabled={!counterEnabled}
-                title="Reset"
-              >
-                <RotateCcw className="h-4 w-4" />
-              </button>
+          <div className="mt-4 pt-3 border-t flex items-center text-lg font-semibold text-gray-800">
+            <button
+              className="p-2 rounded-lg hover:bg-gray-100 disabled:opacity-30"
+              title={t("common.undo")}
+              onClick={undo}
+              disabled={!current.undo?.length}
+            >
+              <Undo2 className="h-5 w-5" />
+            </button>
+            <div className="flex-1 text-center">
+              {t("main.total")}{" "}
+              <span className="tabular-nums">{digits(pad2(total))}</span>
             </div>
+            <button
+              className="p-2 rounded-lg hover:bg-gray-100 disabled:opacity-30"
+              title={t("common.redo")}
+              onClick={redo}
+              disabled={!current.redo?.length}
+            >
+              <Redo2 className="h-5 w-5" />
+            </button>
+            <button
+              className="p-2 rounded-lg hover:bg-gray-100 disabled:opacity-30"
+              title={t("tap.open")}
+              onClick={() => setTapMode(true)}
+              disabled={!counterEnabled}
+            >
+              <Maximize2 className="h-5 w-5" />
+            </button>
           </div>
-
-          <div className="mt-4 pt-3 border-t text-center text-lg font-semibold text-gray-800">
-            Total: <span className="tabular-nums">{pad2(total)}</span>
-          </div>
+          {dayStatus && (
+            <div
+              className={`mt-2 rounded-lg px-3 py-1.5 text-center text-sm ${
+                atCap
+                  ? "bg-red-50 text-red-700 font-semibold"
+                  : targetReached
+                    ? "bg-green-50 text-green-700 font-semibold"
+                    : "text-gray-500"
+              }`}
+            >
+              {finishedToday > 0 && t("day.hereToday", { n: dayTotal })}
+              {dayStatus}
+            </div>
+          )}
         </div>
 
         {/* Actions */}
@@ -415,96 +1337,244 @@ export default function App() {
             className="flex-1 inline-flex items-center justify-center gap-2 border border-gray-300 text-gray-900 rounded-xl py-3 hover:bg-gray-50"
             onClick={() => setShowHistory(true)}
           >
-            <Clock className="h-5 w-5" /> History
+            <Clock className="h-5 w-5" /> {t("main.history")}
           </button>
           <button
             className="flex-1 inline-flex items-center justify-center gap-2 bg-blue-600 text-white rounded-xl py-3 hover:bg-blue-700 disabled:opacity-50"
             onClick={() => setShowFinish(true)}
             disabled={total === 0}
           >
-            <CheckCircle2 className="h-5 w-5" /> Finish
+            <CheckCircle2 className="h-5 w-5" /> {t("main.finish")}
           </button>
         </div>
 
         <p className="text-center text-sm text-gray-500 mt-3">
-          Finish closes today’s session and saves to History.
+          {t("main.finishHint")}
         </p>
 
-        {/* Finish Modal */}
-        {showFinish && (
-          <Modal onClose={() => setShowFinish(false)}>
-            <div className="p-5">
-              <h3 className="text-lg font-semibold mb-2">Close session?</h3>
+        {tapMode && counterEnabled && !stale && (
+          <TapMode
+            tiles={[
+              {
+                kind: "new",
+                label: t("common.new"),
+                value: current.newCount,
+                color: "bg-blue-600",
+              },
+              {
+                kind: "old",
+                label: t("common.old"),
+                value: current.oldCount,
+                color: "bg-gray-700",
+              },
+              ...extraCounters.map((c) => ({
+                kind: c.id,
+                label: c.name,
+                value: countOf(current, c.id),
+                color: COUNTER_COLORS[c.color].bar,
+              })),
+            ]}
+            total={total}
+            status={dayStatus}
+            full={atCap}
+            doubleTapMs={settings.doubleTapMs}
+            canUndo={Boolean(current.undo?.length)}
+            onInc={onInc}
+            onDec={onDec}
+            onUndo={undo}
+            onExit={() => setTapMode(false)}
+          />
+        )}
+
+        {/* Abandoned Session Modal */}
+        {stale && !showFinish && (
+          <Modal onClose={() => setStaleLater(true)}>
+            <div className="p-5 w-[92vw] max-w-sm">
+              <h3 className="text-lg font-semibold mb-2">{t("stale.title")}</h3>
               <p className="text-sm text-gray-600 mb-4">
-                Are you sure you want to close today’s session?
+                {t("stale.body", {
+                  n: total,
+                  location: current.locationId
+                    ? locationName(current.locationId)
+                    : t("stale.noLocation"),
+                  date: formatDateDMY(current.date!),
+                })}
               </p>
-              <div className="flex gap-3">
+              <div className="space-y-2">
+                <button
+                  className="w-full py-2 rounded-lg bg-blue-600 text-white disabled:opacity-50"
+                  onClick={finishStale}
+                  disabled={total === 0 || !current.locationId}
+                >
+                  {t("stale.finishOn", { date: formatDateDMY(current.date!) })}
+                </button>
                 <button
-                  className="flex-1 py-2 rounded-lg border"
-                  onClick={() => setShowFinish(false)}
+                  className="w-full py-2 rounded-lg border"
+                  onClick={carryOver}
                 >
-                  No
+                  {t("stale.carryOver")}
                 </button>
                 <button
-                  className="flex-1 py-2 rounded-lg bg-blue-600 text-white"
-                  onClick={doFinish}
+                  className="w-full py-2 rounded-lg border border-red-200 text-red-600"
+                  onClick={discardCurrent}
                 >
-                  Yes
+                  {t("stale.discard")}
                 </button>
               </div>
             </div>
           </Modal>
         )}
 
-        {/* Edit Locations Modal */}
-        {showEditLocations && (
-          <Modal onClose={() => setShowEditLocations(false)}>
+        {/* Finish Modal */}
+        {showFinish && (
+          <Modal onClose={() => setShowFinish(false)}>
             <div className="p-5">
-              <h3 className="text-lg font-semibold mb-3">
-                Rename locations (5 slots)
+              <h3 className="text-lg font-semibold mb-2">
+                {t("finish.title")}
               </h3>
-              <div className="space-y-2">
-                {locations.map((n, i) => (
-                  <div key={i} className="flex items-center gap-2">
-                    <span className="w-8 text-sm text-gray-500">{i + 1}.</span>
-                    <input
-                      className="flex-1 border rounded-lg px-3 py-2 text-sm"
-                      value={n ?? ""}
-                      onChange={(e) => {
-                        const copy = [...locations];
-                        copy[i] =
-                          e.target.value ||
-                          DEFAULT_LOCATIONS[i] ||
-                          `Clinic ${String.fromCharCode(65 + i)}`;
-                        setLocations(copy);
-                      }}
-                    />
+              {settings.mergePolicy === "ask" && mergeTarget ? (
+                <>
+                  <p className="text-sm text-gray-600 mb-4">
+                    {t("finish.mergeQuestion", {
+                      location: locationName(mergeTarget.locationId),
+                      date: formatDateDMY(mergeTarget.date),
+                      existing: mergeTarget.total,
+                      total,
+                    })}
+                  </p>
+                  <div className="flex flex-col gap-2">
+                    <button
+                      className="py-2 rounded-lg bg-blue-600 text-white"
+                      onClick={() => doFinish("merge")}
+                    >
+                      {t("finish.merge")}
+                    </button>
+                    <button
+                      className="py-2 rounded-lg border border-blue-600 text-blue-700"
+                      onClick={() => doFinish("separate")}
+                    >
+                      {t("finish.separate")}
+                    </button>
+                    <button
+                      className="py-2 rounded-lg border"
+                      onClick={() => setShowFinish(false)}
+                    >
+                      {t("common.cancel")}
+                    </button>
                   </div>
-                ))}
-              </div>
-              <div className="mt-4 flex justify-end">
-                <button
-                  className="px-4 py-2 rounded-lg bg-blue-600 text-white"
-                  onClick={() => setShowEditLocations(false)}
-                >
-                  Done
-                </button>
-              </div>
+                </>
+              ) : (
+                <>
+                  <p className="text-sm text-gray-600 mb-4">
+                    {t("finish.confirm")}
+                  </p>
+                  <div className="flex gap-3">
+                    <button
+                      className="flex-1 py-2 rounded-lg border"
+                      onClick={() => setShowFinish(false)}
+                    >
+                      {t("common.no")}
+                    </button>
+                    <button
+                      className="flex-1 py-2 rounded-lg bg-blue-600 text-white"
+                      onClick={() =>
+                        doFinish(
+                          settings.mergePolicy === "separate"
+                            ? "separate"
+                            : "merge"
+                        )
+                      }
+                    >
+                      {t("common.yes")}
+                    </button>
+                  </div>
+                </>
+              )}
             </div>
           </Modal>
         )}
 
+        {/* Settings Modal */}
+        {showSettings && (
+          <Modal onClose={() => setShowSettings(false)}>
+            <SettingsPanel
+              settings={settings}
+              onChange={changeSettings}
+              language={language}
+              onLanguageChange={(next) => {
+                onLanguageChange(next);
+                saveLanguage(next).catch(setSaveError);
+              }}
+              syncStatus={syncStatus}
+              onSyncNow={() => void runSync()}
+              onBackup={downloadBackup}
+              onRestore={() => {
+                setShowSettings(false);
+                setShowRestore(true);
+              }}
+              onManageCounters={() => {
+                setShowSettings(false);
+                setShowCounters(true);
+              }}
+              onManageSchedule={() => {
+                setShowSettings(false);
+                setShowSchedule(true);
+              }}
+              locationName={locationName}
+              onDone={() => setShowSettings(false)}
+            />
+          </Modal>
+        )}
+
+        {/* Counter Categories Modal */}
+        {showCounters && (
+          <Modal onClose={() => setShowCounters(false)}>
+            <CounterManager
+              counters={settings.counters}
+              locations={locations}
+              onChange={(counters) => setSettings((s) => ({ ...s, counters }))}
+              onDone={() => setShowCounters(false)}
+            />
+          </Modal>
+        )}
+
+        {showSchedule && (
+          <Modal onClose={() => setShowSchedule(false)}>
+            <ScheduleManager
+              schedule={settings.schedule}
+              locations={locations}
+              onChange={(schedule) => setSettings((s) => ({ ...s, schedule }))}
+              onDone={() => setShowSchedule(false)}
+            />
+          </Modal>
+        )}
+
+        {/* Manage Locations Modal */}
+        {showEditLocations && (
+          <Modal onClose={() => setShowEditLocations(false)}>
+            <LocationManager
+              locations={locations}
+              sessions={sessions}
+              currency={settings.currency}
+              onChange={updateLocations}
+              onDone={() => setShowEditLocations(false)}
+            />
+          </Modal>
+        )}
+
         {/* History Modal */}
         {showHistory && (
           <Modal onClose={() => setShowHistory(false)}>
             <div className="p-5 w-[92vw] max-w-md">
               <div className="flex items-center justify-between mb-3">
-                <h3 className="text-2xl font-extrabold">History</h3>
+                <h3 className="text-2xl font-extrabold">
+                  {t("history.title")}
+                </h3>
                 <button
                   className="inline-flex items-center gap-1 text-sm px-3 py-2 border rounded-lg hover:bg-gray-50"
-                  onClick={() => exportPDF("FILTERED")}
+                  onClick={() => exportAs("FILTERED")}
                 >
-                  <Download className="h-4 w-4" /> Export
+                  <Download className="h-4 w-4" /> {t("history.export")}
                 </button>
               </div>
 
@@ -512,24 +1582,25 @@ export default function App() {
                 <select
                   className="border rounded-lg px-3 py-2 text-sm"
                   value={locFilter}
-                  onChange={(e) => setLocFilter(e.target.value as any)}
+                  onChange={(e) => setLocFilter(e.target.value)}
                 >
-                  <option value="ALL">All locations</option>
-                  {locations.map((n, i) => (
-                    <option key={i} value={n ?? ""}>
-                      {n}
+                  <option value="ALL">{t("common.allLocations")}</option>
+                  {locations.map((l) => (
+                    <option key={l.id} value={l.id}>
+                      {l.name}
+                      {l.archived ? t("common.archivedSuffix") : ""}
                     </option>
                   ))}
                 </select>
                 <select
                   className="border rounded-lg px-3 py-2 text-sm"
                   value={yearFilter}
-                  onChange={(e) => setYearFilter(e.target.value as any)}
+                  onChange={(e) => setYearFilter(e.target.value)}
                 >
-                  <option value="ALL">All years</option>
+                  <option value="ALL">{t("history.allYears")}</option>
                   {years.map((y) => (
                     <option key={y} value={y}>
-                      {y}
+                      {digits(y)}
                     </option>
                   ))}
                 </select>
@@ -538,16 +1609,29 @@ export default function App() {
                   value={monthFilter}
                   onChange={(e) => setMonthFilter(Number(e.target.value))}
                 >
-                  <option value={0}>All months</option>
+                  <option value={0}>{t("history.allMonths")}</option>
                   {Array.from({ length: 12 }, (_, i) => i + 1).map((m) => (
                     <option key={m} value={m}>
-                      {new Date(2025, m - 1, 1).toLocaleString(undefined, {
+                      {new Date(2025, m - 1, 1).toLocaleString(locale(), {
                         month: "long",
                       })}
                     </option>
                   ))}
                 </select>
-                <div />
+                <select
+                  className="border rounded-lg px-3 py-2 text-sm"
+                  value={counterFilter}
+                  onChange={(e) => setCounterFilter(e.target.value)}
+                >
+                  <option value="ALL">{t("history.allCounters")}</option>
+                  <option value="new">{t("common.new")}</option>
+                  <option value="old">{t("common.old")}</option>
+                  {historyCategories.map((c) => (
+                    <option key={c.id} value={c.id}>
+                      {c.name}
+                    </option>
+                  ))}
+                </select>
                 <input
                   type="date"
                   className="border rounded-lg px-3 py-2 text-sm"
@@ -562,53 +1646,1599 @@ export default function App() {
                 />
               </div>
 
+              <div className="flex gap-2 mb-2">
+                <select
+                  className="flex-1 border rounded-lg px-2 py-2 text-sm"
+                  value={exportFormat}
+                  onChange={(e) =>
+                    setExportFormat(e.target.value as "pdf" | "csv" | "xlsx")
+                  }
+                  title={t("history.exportFormat")}
+                >
+                  <option value="pdf">PDF</option>
+                  <option value="csv">CSV</option>
+                  <option value="xlsx">{t("history.excel")}</option>
+                </select>
+                {exportFormat === "pdf" && (
+                  <select
+                    className="flex-1 border rounded-lg px-2 py-2 text-sm"
+                    value={reportTemplate}
+                    onChange={(e) =>
+                      setReportTemplate(e.target.value as ReportTemplate)
+                    }
+                    title={t("history.template")}
+                  >
+                    <option value="detailed">{t("history.detailed")}</option>
+                    <option value="monthly">{t("report.monthly")}</option>
+                  </select>
+                )}
+              </div>
               <div className="flex gap-2 mb-3">
                 <button
                   className="flex-1 px-3 py-2 border rounded-lg text-sm hover:bg-gray-50"
-                  onClick={() => exportPDF("TODAY")}
+                  onClick={() => exportAs("TODAY")}
+                >
+                  {t("history.exportToday")}
+                </button>
+                <button
+                  className="flex-1 px-3 py-2 border rounded-lg text-sm hover:bg-gray-50"
+                  onClick={() => exportAs("ALL")}
                 >
-                  Export Today
+                  {t("history.exportAll")}
                 </button>
                 <button
                   className="flex-1 px-3 py-2 border rounded-lg text-sm hover:bg-gray-50"
-                  onClick={() => exportPDF("ALL")}
+                  onClick={() => setShowImport(true)}
                 >
-                  Export All
+                  {t("history.importCsv")}
                 </button>
               </div>
 
+              <div className="flex mb-3 text-sm rounded-lg border overflow-hidden">
+                {(["list", "calendar", "dashboard"] as const).map((v) => (
+                  <button
+                    key={v}
+                    className={`flex-1 py-2 ${
+                      historyView === v ? "bg-blue-600 text-white" : ""
+                    }`}
+                    onClick={() => changeHistoryView(v)}
+                  >
+                    {t(`history.view.${v}`)}
+                  </button>
+                ))}
+              </div>
+
               <div className="max-h-[60vh] overflow-y-auto rounded-2xl border border-gray-200">
-                {filtered.length === 0 ? (
-                  <div className="p-4 text-sm text-gray-600">No entries.</div>
+                {historyView === "dashboard" ? (
+                  <div className="p-3">
+                    <Dashboard
+                      sessions={sessions}
+                      filtered={filtered}
+                      filters={filters}
+                      locationName={locationName}
+                      categories={settings.counters}
+                      currency={settings.currency}
+                    />
+                  </div>
+                ) : historyView === "calendar" ? (
+                  <HistoryCalendar
+                    filtered={filtered}
+                    locations={locations}
+                    year={calendarYear}
+                    month={calendarMonth}
+                    today={today}
+                    canStart={!current.locked}
+                    onMonthChange={showMonth}
+                    onOpen={setDetailId}
+                    onStart={startBackdated}
+                  />
+                ) : filtered.length === 0 ? (
+                  <div className="p-4 text-sm text-gray-600">
+                    {t("common.noEntries")}
+                  </div>
                 ) : (
                   <ul className="divide-y">
+                    <li className="px-4 py-2 grid grid-cols-[1fr_1fr_2.5rem_2.5rem_2.5rem_3.5rem] gap-2 text-xs font-semibold text-gray-500 bg-gray-50 sticky top-0">
+                      <div>{t("common.date")}</div>
+                      <div>{t("common.location")}</div>
+                      <div className="text-right">{t("common.new")}</div>
+                      <div className="text-right">{t("common.old")}</div>
+                      <div className="text-right">{t("common.total")}</div>
+                      <div />
+                    </li>
                     {filtered
                       .slice()
-                      .sort((a, b) =>
-                        a.date === b.date
-                          ? b.finishedAt.localeCompare(a.finishedAt)
-                          : b.date.localeCompare(a.date)
-                      )
+                      .sort(bySessionOrder)
                       .map((s) => (
                         <li
                           key={s.sessionId}
-                          className="px-4 py-3 flex items-center justify-between"
+                          className="px-4 py-3 grid grid-cols-[1fr_1fr_2.5rem_2.5rem_2.5rem_3.5rem] gap-2 items-center cursor-pointer hover:bg-gray-50"
+                          onClick={() => setDetailId(s.sessionId)}
                         >
                           <div className="text-gray-900">
                             {formatDateDMY(s.date)}
+                            {overTarget.has(`${s.date}|${s.locationId}`) && (
+                              <Target
+                                className="inline h-3.5 w-3.5 ml-1 text-green-600 align-[-2px]"
+                                aria-label={t("history.overTarget")}
+                              />
+                            )}
+                          </div>
+                          <div className="text-gray-600 truncate">
+                            {locationName(s.locationId)}
+                            {s.shift && (
+                              <div className="text-xs text-gray-400">
+                                {shiftLabel(s.shift)}
+                              </div>
+                            )}
+                          </div>
+                          <div
+                            className="text-right tabular-nums text-blue-700"
+                            title={
+                              s.newCount === null
+                                ? t("common.splitUnknown")
+                                : undefined
+                            }
+                          >
+                            {fmtSplit(s.newCount)}
+                          </div>
+                          <div
+                            className="text-right tabular-nums text-gray-700"
+                            title={
+                              s.oldCount === null
+                                ? t("common.splitUnknown")
+                                : undefined
+                            }
+                          >
+                            {fmtSplit(s.oldCount)}
                           </div>
-                          <div className="text-gray-600">{s.location}</div>
-                          <div className="font-semibold">
-                            Total: {s.total}
+                          <div className="text-right font-semibold tabular-nums">
+                            {digits(s.total)}
                           </div>
+                          <div className="flex justify-end">
+                            <button
+                              className="p-1 rounded-lg hover:bg-gray-100"
+                              title={t("common.edit")}
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                setEditingId(s.sessionId);
+                              }}
+                            >
+                              <Pencil className="h-4 w-4" />
+                            </button>
+                            <button
+                              className="p-1 rounded-lg hover:bg-red-50 text-red-600"
+                              title={t("common.delete")}
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                deleteSession(s.sessionId);
+                              }}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </button>
+                          </div>
+                          {(s.counts || s.revenue !== undefined) && (
+                            <div className="col-span-full -mt-1 text-xs text-gray-500">
+                              {[
+                                fmtCounts(s.counts, historyCategories),
+                                s.revenue !== undefined &&
+                                  fmtMoney(s.revenue, settings.currency),
+                              ]
+                                .filter(Boolean)
+                                .join(" · ")}
+                            </div>
+                          )}
                         </li>
                       ))}
+                    <li className="px-4 py-3 grid grid-cols-[1fr_1fr_2.5rem_2.5rem_2.5rem_3.5rem] gap-2 items-center font-semibold bg-gray-50 sticky bottom-0">
+                      <div className="col-span-2">
+                        {t("history.sessions", { n: filtered.length })}
+                      </div>
+                      <div className="text-right tabular-nums text-blue-700">
+                        {fmtSplit(filteredTotals.newCount)}
+                      </div>
+                      <div className="text-right tabular-nums text-gray-700">
+                        {fmtSplit(filteredTotals.oldCount)}
+                      </div>
+                      <div className="text-right tabular-nums">
+                        {digits(filteredTotals.total)}
+                      </div>
+                      {filteredTotals.counts && (
+                        <div className="col-span-full text-xs font-normal text-gray-600">
+                          {fmtCounts(filteredTotals.counts, historyCategories)}
+                        </div>
+                      )}
+                      {filteredOverTarget > 0 && (
+                        <div className="col-span-full text-xs font-normal text-green-700">
+                          <Target className="inline h-3.5 w-3.5 mr-1 align-[-2px]" />
+                          {t("history.daysOverTarget", {
+                            n: filteredOverTarget,
+                          })}
+                        </div>
+                      )}
+                      {filteredRevenue !== null && (
+                        <div className="col-span-full text-sm">
+                          {t("common.income")}{" "}
+                          {fmtMoney(filteredRevenue, settings.currency)}
+                        </div>
+                      )}
+                    </li>
                   </ul>
                 )}
               </div>
             </div>
           </Modal>
         )}
+
+        {/* Session Detail Modal */}
+        {detail && (
+          <Modal onClose={() => setDetailId(null)}>
+            <SessionDetail
+              session={detail}
+              locationName={locationName}
+              categories={historyCategories}
+              currency={settings.currency}
+              onEdit={() => setEditingId(detail.sessionId)}
+              onDelete={() => deleteSession(detail.sessionId)}
+              onSplit={() => splitSession(detail.sessionId)}
+            />
+          </Modal>
+        )}
+
+        {/* Session Edit Modal */}
+        {editing && (
+          <Modal onClose={() => setEditingId(null)}>
+            <SessionEditor
+              session={editing}
+              locations={locations}
+              categories={settings.counters}
+              currency={settings.currency}
+              onSave={(fields) => saveEdit(editing.sessionId, fields)}
+              onCancel={() => setEditingId(null)}
+            />
+          </Modal>
+        )}
+
+        {/* CSV Import Modal */}
+        {showImport && (
+          <Modal onClose={() => setShowImport(false)}>
+            <ImportDialog
+              existingKeys={existingKeys}
+              categories={settings.counters.filter((c) => !c.archived)}
+              onImport={importSessions}
+              onCancel={() => setShowImport(false)}
+            />
+          </Modal>
+        )}
+
+        {/* Profiles Modal */}
+        {showProfiles && (
+          <Modal onClose={() => setShowProfiles(false)}>
+            <ProfileDialog
+              registry={registry}
+              onSwitch={onSwitchProfile}
+              onChange={onProfilesChange}
+              onDelete={onDeleteProfile}
+              onLockChange={onLockChange}
+              onLockNow={onLock}
+              autoLockMinutes={settings.autoLockMinutes}
+              onAutoLockChange={(m) =>
+                setSettings((s) => ({ ...s, autoLockMinutes: m }))
+              }
+              onDone={() => setShowProfiles(false)}
+            />
+          </Modal>
+        )}
+
+        {/* Restore Modal */}
+        {showRestore && (
+          <Modal onClose={() => setShowRestore(false)}>
+            <RestoreDialog
+              localSessions={allSessions}
+              onReplace={restoreReplace}
+              onMerge={restoreMerge}
+              onCancel={() => setShowRestore(false)}
+            />
+          </Modal>
+        )}
+
+        {undoOffer && (
+          <Snackbar
+            key={undoOffer.id}
+            message={undoOffer.message}
+            actionLabel={t("common.undo")}
+            onAction={undo}
+            onTimeout={() => setUndoOffer(null)}
+            duration={4000}
+          />
+        )}
+
+        {notice && (
+          <Snackbar
+            key={notice}
+            message={notice}
+            actionLabel={t("common.ok")}
+            onAction={() => setNotice(null)}
+            onTimeout={() => setNotice(null)}
+          />
+        )}
+
+        {/* Undo delete */}
+        {undoDelete && (
+          <Snackbar
+            key={undoDelete}
+            message={t("history.deleted")}
+            actionLabel={t("common.undo")}
+            onAction={() => restoreSession(undoDelete)}
+            onTimeout={() => setUndoDelete(null)}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
+
+/* -------------------- Counter tile -------------------- */
+function CounterTile({
+  label,
+  value,
+  color,
+  hover,
+  small = false,
+  disabled,
+  full = false,
+  onInc,
+  onDec,
+  onReset,
+}: {
+  label: string;
+  value: number;
+  color: string; // text colour class
+  hover: string; // button hover class
+  small?: boolean; // custom categories are shown smaller
+  disabled: boolean;
+  full?: boolean; // the daily cap is reached; only counting down works
+  onInc: () => void;
+  onDec: () => void;
+  onReset: () => void;
+}) {
+  return (
+    <div
+      className={`relative rounded-2xl border border-gray-200 text-center ${
+        small ? "p-2" : "p-3"
+      }`}
+    >
+      <button
+        className={`mx-auto mb-1 p-2 rounded-lg ${hover} disabled:opacity-50`}
+        onClick={onInc}
+        disabled={disabled || full}
+        title={full ? t("counter.capReached") : undefined}
+        aria-label={t("counter.add", { label })}
+      >
+        <ChevronUp className={small ? "h-5 w-5" : "h-6 w-6"} />
+      </button>
+      <div
+        className={`${small ? "text-3xl" : "text-5xl"} font-extrabold ${color} tabular-nums select-none`}
+      >
+        {digits(pad2(value))}
+      </div>
+      <button
+        className={`mx-auto mt-1 p-2 rounded-lg ${hover} disabled:opacity-50`}
+        onClick={onDec}
+        disabled={disabled}
+        aria-label={t("counter.remove", { label })}
+      >
+        <ChevronDown className={small ? "h-5 w-5" : "h-6 w-6"} />
+      </button>
+      <div
+        className={`mt-1 font-semibold ${color} truncate ${
+          small ? "text-xs" : "text-sm"
+        }`}
+      >
+        {label}
+      </div>
+      <button
+        className={`absolute rounded-lg hover:bg-gray-100 ${
+          small ? "top-1 right-1 p-1" : "top-2 right-2 p-2"
+        }`}
+        onClick={onReset}
+        disabled={disabled}
+        title={t("counter.reset")}
+      >
+        <RotateCcw className={small ? "h-3 w-3" : "h-4 w-4"} />
+      </button>
+    </div>
+  );
+}
+
+/* -------------------- Session Detail -------------------- */
+function SessionDetail({
+  session,
+  locationName,
+  categories,
+  currency,
+  onEdit,
+  onDelete,
+  onSplit,
+}: {
+  session: Session;
+  locationName: (id: string) => string;
+  categories: CounterCategory[];
+  currency: string;
+  onEdit: () => void;
+  onDelete: () => void;
+  onSplit: () => void;
+}) {
+  const visits = (session.visits ?? []).slice().sort(byArrival);
+  const used = categories.filter((c) => session.counts?.[c.id]);
+  const category = (kind: string) => categories.find((c) => c.id === kind);
+  // Patients per clock hour: NEW, OLD, then custom categories, stacked.
+  const perHour = new Map<
+    number,
+    { new: number; old: number; other: number }
+  >();
+  visits.forEach((v) => {
+    const h = new Date(v.at).getHours();
+    const row = perHour.get(h) ?? { new: 0, old: 0, other: 0 };
+    if (v.kind === "new") row.new += 1;
+    else if (v.kind === "old") row.old += 1;
+    else row.other += 1;
+    perHour.set(h, row);
+  });
+  const hours = Array.from(perHour.entries()).sort((a, b) => a[0] - b[0]);
+  const peak = Math.max(1, ...hours.map(([, r]) => r.new + r.old + r.other));
+
+  return (
+    <div className="p-5 w-[92vw] max-w-md">
+      <h3 className="text-xl font-extrabold">{formatDateDMY(session.date)}</h3>
+      <div className="text-sm text-gray-600 mb-3">
+        {locationName(session.locationId)}
+        {session.shift && ` · ${shiftLabel(session.shift)}`}
+      </div>
+
+      <div className="grid grid-cols-3 gap-2 text-center mb-4">
+        <div className="rounded-xl border p-2">
+          <div className="text-xs text-blue-700">{t("common.new")}</div>
+          <div className="text-xl font-bold tabular-nums">
+            {fmtSplit(session.newCount)}
+          </div>
+        </div>
+        <div className="rounded-xl border p-2">
+          <div className="text-xs text-gray-700">{t("common.old")}</div>
+          <div className="text-xl font-bold tabular-nums">
+            {fmtSplit(session.oldCount)}
+          </div>
+        </div>
+        <div className="rounded-xl border p-2">
+          <div className="text-xs text-gray-700">{t("common.total")}</div>
+          <div className="text-xl font-bold tabular-nums">
+            {digits(session.total)}
+          </div>
+        </div>
+        {used.map((c) => (
+          <div key={c.id} className="rounded-xl border p-2">
+            <div className={`text-xs truncate ${COUNTER_COLORS[c.color].text}`}>
+              {c.name}
+            </div>
+            <div className="text-xl font-bold tabular-nums">
+              {digits(session.counts![c.id])}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {session.billing && (
+        <div className="rounded-xl border p-3 mb-4 text-sm">
+          <div className="flex justify-between">
+            <span className="text-gray-500">{t("common.income")}</span>
+            <span className="font-bold tabular-nums">
+              {session.revenue === undefined
+                ? "—"
+                : fmtMoney(session.revenue, currency)}
+            </span>
+          </div>
+          <div className="text-xs text-gray-500">
+            {fmtBilling(session.billing)}
+            {session.revenue === undefined && t("detail.needsSplit")}
+          </div>
+        </div>
+      )}
+
+      {visits.length === 0 ? (
+        <p className="text-sm text-gray-600">{t("detail.noTimes")}</p>
+      ) : (
+        <>
+          <div className="flex justify-between text-sm mb-3">
+            <div>
+              <span className="text-gray-500">{t("detail.firstPatient")}</span>
+              <span className="font-semibold">{fmtTime(visits[0].at)}</span>
+            </div>
+            <div>
+              <span className="text-gray-500">{t("detail.lastPatient")}</span>
+              <span className="font-semibold">
+                {fmtTime(visits[visits.length - 1].at)}
+              </span>
+            </div>
+          </div>
+
+          <h4 className="text-sm font-semibold text-gray-500 mb-1">
+            {t("detail.perHour")}
+          </h4>
+          <div className="space-y-1 mb-4">
+            {hours.map(([h, r]) => (
+              <div key={h} className="flex items-center gap-2 text-xs">
+                <span className="w-12 tabular-nums text-gray-600">
+                  {digits(`${pad2(h)}:00`)}
+                </span>
+                <div className="flex-1 flex h-3 rounded bg-gray-100 overflow-hidden">
+                  <div
+                    className="bg-blue-500"
+                    style={{ width: `${(r.new / peak) * 100}%` }}
+                  />
+                  <div
+                    className="bg-gray-400"
+                    style={{ width: `${(r.old / peak) * 100}%` }}
+                  />
+                  <div
+                    className="bg-teal-400"
+                    style={{ width: `${(r.other / peak) * 100}%` }}
+                  />
+                </div>
+                <span className="w-6 text-right tabular-nums">
+                  {digits(r.new + r.old + r.other)}
+                </span>
+              </div>
+            ))}
+          </div>
+
+          <h4 className="text-sm font-semibold text-gray-500 mb-1">
+            {t("detail.timeline")}
+          </h4>
+          <ol className="max-h-[30vh] overflow-y-auto rounded-xl border divide-y text-sm">
+            {visits.map((v, i) => (
+              <li key={i} className="px-3 py-1.5 flex justify-between">
+                <span className="tabular-nums text-gray-500">
+                  #{digits(i + 1)}
+                </span>
+                <span
+                  className={
+                    v.kind === "new"
+                      ? "text-blue-700 font-semibold"
+                      : v.kind === "old"
+                        ? "text-gray-700"
+                        : COUNTER_COLORS[category(v.kind)?.color ?? "teal"].text
+                  }
+                >
+                  {v.kind === "new"
+                    ? t("common.new")
+                    : v.kind === "old"
+                      ? t("common.old")
+                      : (category(v.kind)?.name ?? t("common.other"))}
+                </span>
+                <span className="tabular-nums">{fmtTime(v.at)}</span>
+              </li>
+            ))}
+          </ol>
+          {visits.length < session.total && (
+            <p className="mt-2 text-xs text-gray-500">
+              {t("detail.untimed", { n: session.total - visits.length })}
+            </p>
+          )}
+        </>
+      )}
+
+      {(session.parts?.length ?? 0) > 1 && (
+        <>
+          <h4 className="mt-4 text-sm font-semibold text-gray-500 mb-1">
+            {t("detail.mergedFinishes")}
+          </h4>
+          <ul className="rounded-xl border divide-y text-sm">
+            {session.parts!.map((p, i) => (
+              <li key={i} className="px-3 py-1.5 flex justify-between">
+                <span className="tabular-nums">{fmtTime(p.finishedAt)}</span>
+                <span className="tabular-nums text-gray-600">
+                  {fmtSplit(p.newCount)} / {fmtSplit(p.oldCount)}
+                </span>
+                <span className="font-semibold tabular-nums">
+                  {digits(p.total)}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+
+      <div className="mt-4 flex gap-2">
+        <button
+          className="flex-1 inline-flex items-center justify-center gap-1 px-3 py-2 border rounded-lg text-sm hover:bg-gray-50"
+          onClick={onEdit}
+        >
+          <Pencil className="h-4 w-4" /> {t("common.edit")}
+        </button>
+        {(session.parts?.length ?? 0) > 1 && (
+          <button
+            className="flex-1 inline-flex items-center justify-center gap-1 px-3 py-2 border rounded-lg text-sm hover:bg-gray-50 disabled:opacity-50"
+            onClick={onSplit}
+            disabled={!canSplit(session)}
+            title={
+              canSplit(session)
+                ? t("detail.unmergeHint")
+                : t("detail.unmergeBlocked")
+            }
+          >
+            <Split className="h-4 w-4" /> {t("detail.unmerge")}
+          </button>
+        )}
+        <button
+          className="flex-1 inline-flex items-center justify-center gap-1 px-3 py-2 border border-red-200 text-red-600 rounded-lg text-sm hover:bg-red-50"
+          onClick={onDelete}
+        >
+          <Trash2 className="h-4 w-4" /> {t("common.delete")}
+        </button>
+      </div>
+
+      {session.audit && session.audit.length > 0 && (
+        <>
+          <h4 className="mt-4 text-sm font-semibold text-gray-500 mb-1">
+            {t("detail.audit")}
+          </h4>
+          <ol className="max-h-[20vh] overflow-y-auto rounded-xl border divide-y text-xs">
+            {session.audit
+              .slice()
+              .reverse()
+              .map((a, i) => (
+                <li key={i} className="px-3 py-1.5">
+                  <div className="flex justify-between">
+                    <span className="font-semibold">
+                      {t(`audit.${a.action}`)}
+                    </span>
+                    <span className="text-gray-500 tabular-nums">
+                      {formatDateDMY(a.at.slice(0, 10))} {fmtTime(a.at)}
+                    </span>
+                  </div>
+                  {a.changes?.map((c) => (
+                    <div key={c.field} className="text-gray-600">
+                      {auditFieldLabel(c.field)}:{" "}
+                      {fmtAuditValue(c.field, c.from, locationName, categories)}{" "}
+                      → {fmtAuditValue(c.field, c.to, locationName, categories)}
+                    </div>
+                  ))}
+                  {(a.message || a.note) && (
+                    <div className="text-gray-600">
+                      {a.message ? t(a.message.key, a.message.values) : a.note}
+                    </div>
+                  )}
+                </li>
+              ))}
+          </ol>
+        </>
+      )}
+    </div>
+  );
+}
+
+const AUDIT_FIELD_KEYS: Record<AuditChange["field"], MessageKey> = {
+  date: "common.date",
+  locationId: "common.location",
+  shift: "audit.field.shift",
+  newCount: "common.new",
+  oldCount: "common.old",
+  counts: "audit.field.counts",
+  total: "common.total",
+  billing: "audit.field.billing",
+  revenue: "common.income",
+};
+const auditFieldLabel = (field: AuditChange["field"]) =>
+  t(AUDIT_FIELD_KEYS[field]);
+function fmtAuditValue(
+  field: AuditChange["field"],
+  v: string | number | null,
+  locationName: (id: string) => string,
+  categories: CounterCategory[]
+) {
+  if (v === null) return "—";
+  if (field === "counts")
+    return fmtCounts(JSON.parse(String(v)), categories) || "—";
+  if (field === "billing") return fmtBilling(JSON.parse(String(v)));
+  if (field === "date") return formatDateDMY(String(v));
+  if (field === "locationId") return locationName(String(v));
+  if (field === "shift") return shiftLabel(v as Shift);
+  return String(v);
+}
+
+/* -------------------- Session Editor -------------------- */
+// Billing amounts as typed; null = income not tracked for the session.
+type BillingDraft = Record<
+  "newFee" | "oldFee" | "freeNew" | "freeOld" | "discount",
+  string
+>;
+const billingDraft = (b?: Billing): BillingDraft | null =>
+  b
+    ? {
+        newFee: String(b.fees.new),
+        oldFee: String(b.fees.old),
+        freeNew: String(b.freeNew),
+        freeOld: String(b.freeOld),
+        discount: String(b.discount),
+      }
+    : null;
+const parseBilling = (d: BillingDraft): Billing => ({
+  fees: { new: Number(d.newFee || 0), old: Number(d.oldFee || 0) },
+  freeNew: Number(d.freeNew || 0),
+  freeOld: Number(d.freeOld || 0),
+  discount: Number(d.discount || 0),
+});
+const BILLING_FIELDS: { key: keyof BillingDraft; label: MessageKey }[] = [
+  { key: "newFee", label: "billing.newFee" },
+  { key: "oldFee", label: "billing.oldFee" },
+  { key: "discount", label: "billing.discount" },
+  { key: "freeNew", label: "billing.freeNew" },
+  { key: "freeOld", label: "billing.freeOld" },
+];
+
+function SessionEditor({
+  session,
+  locations,
+  categories,
+  currency,
+  onSave,
+  onCancel,
+}: {
+  session: Session;
+  locations: Location[];
+  categories: CounterCategory[];
+  currency: string;
+  onSave: (fields: Pick<Session, AuditChange["field"]>) => void;
+  onCancel: () => void;
+}) {
+  const [date, setDate] = useState(session.date);
+  const [locationId, setLocationId] = useState(session.locationId);
+  const [shift, setShift] = useState<Shift | "">(session.shift ?? "");
+  const [newCount, setNewCount] = useState(
+    session.newCount === null ? "" : String(session.newCount)
+  );
+  const [oldCount, setOldCount] = useState(
+    session.oldCount === null ? "" : String(session.oldCount)
+  );
+  const [manualTotal, setManualTotal] = useState(String(session.total));
+  const [billing, setBilling] = useState(() => billingDraft(session.billing));
+  // Categories already counted here, plus those offered at the location.
+  const shown = [
+    ...categoriesIn([session], categories),
+    ...countersAt(categories, locationId),
+  ].filter((c, i, all) => all.findIndex((o) => o.id === c.id) === i);
+  const [counts, setCounts] = useState<Record<string, string>>(() =>
+    Object.fromEntries(
+      Object.entries(session.counts ?? {}).map(([id, n]) => [id, String(n)])
+    )
+  );
+  const extras = normalizeCounts(
+    Object.fromEntries(
+      shown.map((c) => [c.id, Number(counts[c.id] || 0)] as const)
+    )
+  );
+
+  // With both halves filled in, the total follows them (and any custom
+  // counts); otherwise the split is unknown and the total is entered
+  // directly.
+  const splitKnown = newCount !== "" && oldCount !== "";
+  const total = splitKnown
+    ? Number(newCount) + Number(oldCount) + sumCounts(extras)
+    : Number(manualTotal);
+  const valid =
+    Boolean(date) &&
+    Boolean(locationId) &&
+    [newCount, oldCount, manualTotal, ...Object.values(counts)].every(
+      (v) => v === "" || (Number.isInteger(Number(v)) && Number(v) >= 0)
+    ) &&
+    total > 0 &&
+    total >= sumCounts(extras) &&
+    Object.values(billing ?? {}).every((v) => v === "" || Number(v) >= 0);
+  const charged = billing ? parseBilling(billing) : undefined;
+  const split = {
+    newCount: splitKnown ? Number(newCount) : null,
+    oldCount: splitKnown ? Number(oldCount) : null,
+  };
+  const revenue = revenueOf(split, charged);
+
+  return (
+    <div className="p-5 w-[92vw] max-w-md">
+      <h3 className="text-lg font-semibold mb-3">{t("editor.title")}</h3>
+      <div className="space-y-3">
+        <label className="block">
+          <div className="text-sm text-gray-600 mb-1">{t("common.date")}</div>
+          <input
+            type="date"
+            className="w-full border rounded-lg px-3 py-2 text-sm"
+            value={date}
+            onChange={(e) => setDate(e.target.value)}
+          />
+        </label>
+        <label className="block">
+          <div className="text-sm text-gray-600 mb-1">
+            {t("common.location")}
+          </div>
+          <select
+            className="w-full border rounded-lg px-3 py-2 text-sm"
+            value={locationId}
+            onChange={(e) => setLocationId(e.target.value)}
+          >
+            {locations
+              .filter((l) => !l.archived || l.id === session.locationId)
+              .map((l) => (
+                <option key={l.id} value={l.id}>
+                  {l.name}
+                </option>
+              ))}
+          </select>
+        </label>
+        <label className="block">
+          <div className="text-sm text-gray-600 mb-1">{t("editor.shift")}</div>
+          <select
+            className="w-full border rounded-lg px-3 py-2 text-sm"
+            value={shift}
+            onChange={(e) => setShift(e.target.value as Shift | "")}
+          >
+            <option value="">{t("common.none")}</option>
+            {(Object.keys(SHIFT_LABELS) as Shift[]).map((k) => (
+              <option key={k} value={k}>
+                {shiftLabel(k)}
+              </option>
+            ))}
+          </select>
+        </label>
+        <div className="grid grid-cols-3 gap-2">
+          <label className="block">
+            <div className="text-sm text-blue-700 mb-1">{t("common.new")}</div>
+            <input
+              type="number"
+              min={0}
+              inputMode="numeric"
+              className="w-full border rounded-lg px-3 py-2 text-sm"
+              placeholder="—"
+              value={newCount}
+              onChange={(e) => setNewCount(e.target.value)}
+            />
+          </label>
+          <label className="block">
+            <div className="text-sm text-gray-700 mb-1">{t("common.old")}</div>
+            <input
+              type="number"
+              min={0}
+              inputMode="numeric"
+              className="w-full border rounded-lg px-3 py-2 text-sm"
+              placeholder="—"
+              value={oldCount}
+              onChange={(e) => setOldCount(e.target.value)}
+            />
+          </label>
+          <label className="block">
+            <div className="text-sm text-gray-700 mb-1">
+              {t("common.total")}
+            </div>
+            <input
+              type="number"
+              min={0}
+              inputMode="numeric"
+              className="w-full border rounded-lg px-3 py-2 text-sm disabled:bg-gray-50"
+              value={splitKnown ? String(total) : manualTotal}
+              onChange={(e) => setManualTotal(e.target.value)}
+              disabled={splitKnown}
+            />
+          </label>
+        </div>
+        {!splitKnown && (
+          <p className="text-xs text-gray-500">{t("editor.splitHint")}</p>
+        )}
+        {shown.length > 0 && (
+          <div className="grid grid-cols-3 gap-2">
+            {shown.map((c) => (
+              <label key={c.id} className="block">
+                <div
+                  className={`text-sm mb-1 truncate ${COUNTER_COLORS[c.color].text}`}
+                >
+                  {c.name}
+                </div>
+                <input
+                  type="number"
+                  min={0}
+                  inputMode="numeric"
+                  className="w-full border rounded-lg px-3 py-2 text-sm"
+                  placeholder="0"
+                  value={counts[c.id] ?? ""}
+                  onChange={(e) =>
+                    setCounts({ ...counts, [c.id]: e.target.value })
+                  }
+                />
+              </label>
+            ))}
+          </div>
+        )}
+        {billing ? (
+          <div className="rounded-xl border p-2">
+            <div className="grid grid-cols-3 gap-2">
+              {BILLING_FIELDS.map(({ key, label }) => (
+                <label key={key} className="block">
+                  <div className="text-sm text-gray-700 mb-1">{t(label)}</div>
+                  <input
+                    type="number"
+                    min={0}
+                    inputMode="decimal"
+                    className="w-full border rounded-lg px-3 py-2 text-sm"
+                    placeholder="0"
+                    value={billing[key]}
+                    onChange={(e) =>
+                      setBilling({ ...billing, [key]: e.target.value })
+                    }
+                  />
+                </label>
+              ))}
+              <div>
+                <div className="text-sm text-gray-700 mb-1">
+                  {t("common.income")}
+                </div>
+                <div className="py-2 text-sm font-semibold tabular-nums">
+                  {revenue === undefined ? "—" : fmtMoney(revenue, currency)}
+                </div>
+              </div>
+            </div>
+            <button
+              className="mt-1 text-xs text-gray-500 underline"
+              onClick={() => setBilling(null)}
+            >
+              {t("editor.untrackIncome")}
+            </button>
+          </div>
+        ) : (
+          <button
+            className="w-full px-3 py-2 border rounded-lg text-sm hover:bg-gray-50"
+            onClick={() =>
+              setBilling(
+                billingDraft(
+                  billingFor(locations.find((l) => l.id === locationId)) ?? {
+                    fees: { new: 0, old: 0 },
+                    freeNew: 0,
+                    freeOld: 0,
+                    discount: 0,
+                  }
+                )
+              )
+            }
+          >
+            {t("editor.trackIncome")}
+          </button>
+        )}
+      </div>
+      <div className="mt-4 flex gap-3">
+        <button className="flex-1 py-2 rounded-lg border" onClick={onCancel}>
+          {t("common.cancel")}
+        </button>
+        <button
+          className="flex-1 py-2 rounded-lg bg-blue-600 text-white disabled:opacity-50"
+          disabled={!valid}
+          onClick={() =>
+            onSave({
+              date,
+              locationId,
+              shift: shift || undefined,
+              ...split,
+              counts: extras,
+              total,
+              billing: charged,
+              revenue,
+            })
+          }
+        >
+          {t("common.save")}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+/* -------------------- Location Manager -------------------- */
+function LocationManager({
+  locations,
+  sessions,
+  currency,
+  onChange,
+  onDone,
+}: {
+  locations: Location[];
+  sessions: Session[];
+  currency: string;
+  onChange: (next: Location[]) => void;
+  onDone: () => void;
+}) {
+  const [draft, setDraft] = useState("");
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const usage = useMemo(() => {
+    const map = new Map<string, number>();
+    sessions.forEach((s) =>
+      map.set(s.locationId, (map.get(s.locationId) ?? 0) + 1)
+    );
+    return map;
+  }, [sessions]);
+
+  const patch = (id: string, fields: Partial<Location>) =>
+    onChange(locations.map((l) => (l.id === id ? { ...l, ...fields } : l)));
+  // Clearing both fees stops tracking income for new sessions here.
+  const patchFee = (l: Location, k: "new" | "old", value: string) => {
+    const fees = { new: 0, old: 0, ...l.fees, [k]: Math.max(0, Number(value)) };
+    patch(l.id, { fees: fees.new || fees.old ? fees : undefined });
+  };
+  // Swaps with the nearest neighbour in the same (active/archived) group.
+  const move = (id: string, dir: -1 | 1) => {
+    const i = locations.findIndex((l) => l.id === id);
+    let j = i + dir;
+    while (
+      j >= 0 &&
+      j < locations.length &&
+      locations[j].archived !== locations[i].archived
+    )
+      j += dir;
+    if (j < 0 || j >= locations.length) return;
+    const copy = [...locations];
+    [copy[i], copy[j]] = [copy[j], copy[i]];
+    onChange(copy);
+  };
+  const add = () => {
+    const name = draft.trim();
+    if (!name) return;
+    onChange([...locations, newLocation(name)]);
+    setDraft("");
+  };
+
+  const active = locations.filter((l) => !l.archived);
+  const archived = locations.filter((l) => l.archived);
+
+  return (
+    <div className="p-5 w-[92vw] max-w-md">
+      <h3 className="text-lg font-semibold mb-3">{t("locations.title")}</h3>
+      <div className="max-h-[55vh] overflow-y-auto space-y-2 pr-1">
+        {active.map((l, i) => (
+          <div key={l.id} className="rounded-xl border p-2">
+            <div className="flex items-center gap-1">
+              <input
+                className="flex-1 min-w-0 border rounded-lg px-3 py-2 text-sm"
+                value={l.name}
+                onChange={(e) => patch(l.id, { name: e.target.value })}
+                onBlur={(e) => {
+                  if (!e.target.value.trim())
+                    patch(l.id, {
+                      name: t("locations.defaultName", { n: i + 1 }),
+                    });
+                }}
+              />
+              <button
+                className="p-1.5 rounded-lg hover:bg-gray-100 disabled:opacity-30"
+                title={t("locations.moveUp")}
+                onClick={() => move(l.id, -1)}
+                disabled={i === 0}
+              >
+                <ChevronUp className="h-4 w-4" />
+              </button>
+              <button
+                className="p-1.5 rounded-lg hover:bg-gray-100 disabled:opacity-30"
+                title={t("locations.moveDown")}
+                onClick={() => move(l.id, 1)}
+                disabled={i === active.length - 1}
+              >
+                <ChevronDown className="h-4 w-4" />
+              </button>
+              <button
+                className="p-1.5 rounded-lg hover:bg-gray-100"
+                title={t("locations.details")}
+                onClick={() => setExpanded(expanded === l.id ? null : l.id)}
+              >
+                <Pencil className="h-4 w-4" />
+              </button>
+              <button
+                className="p-1.5 rounded-lg hover:bg-gray-100"
+                title={t("common.archive")}
+                onClick={() => patch(l.id, { archived: true })}
+              >
+                <Archive className="h-4 w-4" />
+              </button>
+            </div>
+            {expanded === l.id && (
+              <div className="mt-2 space-y-2">
+                <input
+                  className="w-full border rounded-lg px-3 py-2 text-sm"
+                  placeholder={t("locations.address")}
+                  value={l.address ?? ""}
+                  onChange={(e) =>
+                    patch(l.id, { address: e.target.value || undefined })
+                  }
+                />
+                <input
+                  className="w-full border rounded-lg px-3 py-2 text-sm"
+                  placeholder={t("locations.chamberType")}
+                  list="pc-chamber-types"
+                  value={l.chamberType ?? ""}
+                  onChange={(e) =>
+                    patch(l.id, { chamberType: e.target.value || undefined })
+                  }
+                />
+                <div className="grid grid-cols-2 gap-2">
+                  {(["new", "old"] as const).map((k) => (
+                    <label key={k} className="block">
+                      <div className="text-xs text-gray-500 mb-1">
+                        {t("locations.fee", {
+                          kind: t(k === "new" ? "common.new" : "common.old"),
+                          currency,
+                        })}
+                      </div>
+                      <input
+                        type="number"
+                        min={0}
+                        inputMode="decimal"
+                        className="w-full border rounded-lg px-3 py-2 text-sm"
+                        placeholder={t("locations.notTracked")}
+                        value={l.fees?.[k] ?? ""}
+                        onChange={(e) => patchFee(l, k, e.target.value)}
+                      />
+                    </label>
+                  ))}
+                  {(["target", "cap"] as const).map((k) => (
+                    <label key={k} className="block">
+                      <div className="text-xs text-gray-500 mb-1">
+                        {t(`locations.${k}`)}
+                      </div>
+                      <input
+                        type="number"
+                        min={1}
+                        inputMode="numeric"
+                        className="w-full border rounded-lg px-3 py-2 text-sm"
+                        placeholder={t(
+                          k === "target" ? "common.none" : "locations.noLimit"
+                        )}
+                        value={l[k] ?? ""}
+                        onChange={(e) =>
+                          patch(l.id, {
+                            [k]:
+                              Math.max(0, Math.floor(Number(e.target.value))) ||
+                              undefined,
+                          })
+                        }
+                      />
+                    </label>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-500">
+                  {t("locations.targetHint")}
+                </p>
+                <div className="text-xs text-gray-500">
+                  {t("locations.savedSessions", { n: usage.get(l.id) ?? 0 })}
+                </div>
+              </div>
+            )}
+          </div>
+        ))}
+
+        <div className="flex gap-2">
+          <input
+            className="flex-1 border rounded-lg px-3 py-2 text-sm"
+            placeholder={t("locations.new")}
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && add()}
+          />
+          <button
+            className="inline-flex items-center gap-1 px-3 py-2 rounded-lg border hover:bg-gray-50 disabled:opacity-50"
+            onClick={add}
+            disabled={!draft.trim()}
+          >
+            <Plus className="h-4 w-4" /> {t("common.add")}
+          </button>
+        </div>
+
+        {archived.length > 0 && (
+          <>
+            <h4 className="pt-2 text-sm font-semibold text-gray-500">
+              {t("common.archived")}
+            </h4>
+            {archived.map((l) => (
+              <div
+                key={l.id}
+                className="flex items-center gap-2 rounded-xl border border-dashed px-3 py-2 text-sm text-gray-600"
+              >
+                <span className="flex-1 truncate">{l.name}</span>
+                <span className="text-xs">
+                  {t("locations.sessions", { n: usage.get(l.id) ?? 0 })}
+                </span>
+                <button
+                  className="p-1.5 rounded-lg hover:bg-gray-100"
+                  title={t("common.restore")}
+                  onClick={() => patch(l.id, { archived: false })}
+                >
+                  <ArchiveRestore className="h-4 w-4" />
+                </button>
+              </div>
+            ))}
+          </>
+        )}
+      </div>
+      <datalist id="pc-chamber-types">
+        <option value={t("locations.hospital")} />
+        <option value={t("locations.clinic")} />
+        <option value={t("locations.privateChamber")} />
+        <option value={t("locations.diagnosticCentre")} />
+      </datalist>
+      <div className="mt-4 flex justify-end">
+        <button
+          className="px-4 py-2 rounded-lg bg-blue-600 text-white"
+          onClick={onDone}
+        >
+          {t("common.done")}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+/* -------------------- Settings Panel -------------------- */
+const MERGE_POLICY_OPTIONS: {
+  value: MergePolicy;
+  label: MessageKey;
+  hint: MessageKey;
+}[] = [
+  { value: "merge", label: "settings.merge", hint: "settings.mergeHint" },
+  {
+    value: "separate",
+    label: "settings.separate",
+    hint: "settings.separateHint",
+  },
+  { value: "ask", label: "settings.ask", hint: "settings.askHint" },
+];
+
+type SyncStatus = {
+  state: "idle" | "syncing" | "error";
+  at?: string; // last successful sync
+  message?: string; // last error
+};
+
+function SettingsPanel({
+  settings,
+  onChange,
+  syncStatus,
+  onSyncNow,
+  onBackup,
+  onRestore,
+  onManageCounters,
+  onManageSchedule,
+  locationName,
+  language,
+  onLanguageChange,
+  onDone,
+}: {
+  settings: Settings;
+  onChange: (next: Settings) => void;
+  syncStatus: SyncStatus;
+  onSyncNow: () => void;
+  onBackup: () => void;
+  onRestore: () => void;
+  onManageCounters: () => void;
+  onManageSchedule: () => void;
+  locationName: (id: string) => string;
+  language: Lang;
+  onLanguageChange: (next: Lang) => void;
+  onDone: () => void;
+}) {
+  const activeCounters = settings.counters.filter((c) => !c.archived);
+  const notifications = "Notification" in window;
+  const toggleReminders = async (on: boolean) => {
+    if (on && notifications && Notification.permission !== "granted") {
+      if ((await Notification.requestPermission()) !== "granted") return;
+    }
+    onChange({ ...settings, finishReminders: on });
+  };
+  return (
+    <div className="p-5 w-[92vw] max-w-md">
+      <h3 className="text-lg font-semibold mb-3">{t("settings.title")}</h3>
+      <label className="block mb-4">
+        <div className="text-sm font-semibold text-gray-500 mb-2">
+          {t("settings.language")}
+        </div>
+        <select
+          className="w-full border rounded-lg px-3 py-2 text-sm"
+          value={language}
+          onChange={(e) => onLanguageChange(e.target.value as Lang)}
+        >
+          {LANGUAGES.map((l) => (
+            <option key={l.value} value={l.value}>
+              {l.label}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="block mb-4">
+        <div className="text-sm font-semibold text-gray-500 mb-2">
+          {t("settings.doctorName")}
+        </div>
+        <input
+          className="w-full border rounded-lg px-3 py-2 text-sm"
+          placeholder={t("settings.doctorPlaceholder")}
+          value={settings.doctorName}
+          onChange={(e) =>
+            onChange({ ...settings, doctorName: e.target.value })
+          }
+        />
+      </label>
+      <h4 className="text-sm font-semibold text-gray-500 mb-2">
+        {t("settings.sameDay")}
+      </h4>
+      <div className="space-y-2">
+        {MERGE_POLICY_OPTIONS.map((o) => (
+          <label
+            key={o.value}
+            className="flex items-start gap-3 rounded-xl border p-3 cursor-pointer"
+          >
+            <input
+              type="radio"
+              name="merge-policy"
+              className="mt-1"
+              checked={settings.mergePolicy === o.value}
+              onChange={() => onChange({ ...settings, mergePolicy: o.value })}
+            />
+            <div>
+              <div className="text-sm font-semibold">{t(o.label)}</div>
+              <div className="text-xs text-gray-500">{t(o.hint)}</div>
+            </div>
+          </label>
+        ))}
+      </div>
+      <h4 className="mt-4 text-sm font-semibold text-gray-500 mb-2">
+        {t("settings.counters")}
+      </h4>
+      <button
+        className="w-full px-3 py-2 border rounded-lg text-sm text-left hover:bg-gray-50"
+        onClick={onManageCounters}
+      >
+        {activeCounters.length
+          ? [
+              t("common.new"),
+              t("common.old"),
+              ...activeCounters.map((c) => c.name),
+            ].join(", ")
+          : t("settings.countersNone")}
+        <span className="float-right text-gray-500">
+          {t("settings.editMore")}
+        </span>
+      </button>
+      <h4 className="mt-4 text-sm font-semibold text-gray-500 mb-2">
+        {t("schedule.title")}
+      </h4>
+      <button
+        className="w-full px-3 py-2 border rounded-lg text-sm text-left hover:bg-gray-50"
+        onClick={onManageSchedule}
+      >
+        {settings.schedule.length
+          ? settings.schedule
+              .map((s) => `${locationName(s.locationId)} ${fmtSlot(s)}`)
+              .join("; ")
+          : t("settings.noSchedule")}
+        <span className="float-right text-gray-500">
+          {t("settings.editMore")}
+        </span>
+      </button>
+      {notifications && (
+        <label className="mt-2 flex items-start gap-2 text-sm">
+          <input
+            type="checkbox"
+            className="mt-0.5"
+            checked={settings.finishReminders}
+            onChange={(e) => void toggleReminders(e.target.checked)}
+          />
+          <span>
+            {t("settings.reminders")}
+            {Notification.permission === "denied" && (
+              <span className="block text-xs text-red-700">
+                {t("settings.notificationsBlocked")}
+              </span>
+            )}
+          </span>
+        </label>
+      )}
+      <label className="mt-2 flex items-center gap-2 text-sm">
+        <span className="flex-1">{t("settings.autoFinish")}</span>
+        <input
+          type="time"
+          className="border rounded-lg px-2 py-1.5"
+          value={settings.autoFinishAt}
+          onChange={(e) =>
+            onChange({ ...settings, autoFinishAt: e.target.value })
+          }
+        />
+      </label>
+      <p className="mt-1 text-xs text-gray-500">
+        {t("settings.autoFinishHint")}
+      </p>
+      <h4 className="mt-4 text-sm font-semibold text-gray-500 mb-2">
+        {t("settings.counting")}
+      </h4>
+      <label className="flex items-start gap-2 text-sm">
+        <input
+          type="checkbox"
+          className="mt-0.5"
+          checked={settings.keyboardShortcuts}
+          onChange={(e) =>
+            onChange({ ...settings, keyboardShortcuts: e.target.checked })
+          }
+        />
+        <span>
+          {t("settings.keyboard")}
+          <span className="block text-xs text-gray-500">
+            {t("settings.keyboardHint")}
+          </span>
+        </span>
+      </label>
+      <label className="mt-2 flex items-center gap-2 text-sm">
+        <span className="flex-1">{t("settings.clicker")}</span>
+        <select
+          className="border rounded-lg px-2 py-1.5"
+          value={settings.clicker}
+          onChange={(e) =>
+            onChange({ ...settings, clicker: e.target.value as ClickerMapping })
+          }
+        >
+          <option value="off">{t("common.off")}</option>
+          <option value="next-new">{t("settings.clickerNextNew")}</option>
+          <option value="next-old">{t("settings.clickerNextOld")}</option>
+        </select>
+      </label>
+      <p className="mt-1 text-xs text-gray-500">{t("settings.clickerHint")}</p>
+      <label className="mt-2 flex items-center gap-2 text-sm">
+        <span className="flex-1">{t("settings.doubleTap")}</span>
+        <select
+          className="border rounded-lg px-2 py-1.5"
+          value={settings.doubleTapMs}
+          onChange={(e) =>
+            onChange({ ...settings, doubleTapMs: Number(e.target.value) })
+          }
+        >
+          {DOUBLE_TAP_OPTIONS.map((ms) => (
+            <option key={ms} value={ms}>
+              {ms ? t("settings.doubleTapMs", { ms }) : t("common.off")}
+            </option>
+          ))}
+        </select>
+      </label>
+      {settings.doubleTapMs > 0 && (
+        <p className="mt-1 text-xs text-gray-500">
+          {t("settings.doubleTapHint")}
+        </p>
+      )}
+      {"wakeLock" in navigator && (
+        <label className="mt-2 flex items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            checked={settings.keepAwake}
+            onChange={(e) =>
+              onChange({ ...settings, keepAwake: e.target.checked })
+            }
+          />
+          {t("settings.keepAwake")}
+        </label>
+      )}
+      <label className="block mt-4">
+        <div className="text-sm font-semibold text-gray-500 mb-2">
+          {t("settings.currency")}
+        </div>
+        <input
+          className="w-full border rounded-lg px-3 py-2 text-sm"
+          placeholder={t("settings.currencyPlaceholder")}
+          value={settings.currency}
+          onChange={(e) => onChange({ ...settings, currency: e.target.value })}
+        />
+      </label>
+      <p className="mt-1 text-xs text-gray-500">{t("settings.feesHint")}</p>
+      <h4 className="mt-4 text-sm font-semibold text-gray-500 mb-2">
+        {t("settings.backup")}
+      </h4>
+      <div className="flex gap-2">
+        <button
+          className="flex-1 px-3 py-2 border rounded-lg text-sm hover:bg-gray-50"
+          onClick={onBackup}
+        >
+          {t("settings.downloadBackup")}
+        </button>
+        <button
+          className="flex-1 px-3 py-2 border rounded-lg text-sm hover:bg-gray-50"
+          onClick={onRestore}
+        >
+          {t("settings.restore")}
+        </button>
+      </div>
+      <p className="mt-1 text-xs text-gray-500">{t("settings.backupHint")}</p>
+      <h4 className="mt-4 text-sm font-semibold text-gray-500 mb-2">
+        {t("settings.sync")}
+      </h4>
+      <div className="space-y-2">
+        <input
+          className="w-full border rounded-lg px-3 py-2 text-sm"
+          type="url"
+          placeholder={t("settings.syncUrl")}
+          value={settings.syncUrl}
+          onChange={(e) =>
+            onChange({ ...settings, syncUrl: e.target.value.trim() })
+          }
+        />
+        <input
+          className="w-full border rounded-lg px-3 py-2 text-sm"
+          type="password"
+          placeholder={t("settings.syncToken")}
+          value={settings.syncToken}
+          onChange={(e) => onChange({ ...settings, syncToken: e.target.value })}
+        />
+        {settings.syncUrl && (
+          <div className="flex items-center gap-2">
+            <span
+              className={`flex-1 text-xs ${
+                syncStatus.state === "error" ? "text-red-700" : "text-gray-500"
+              }`}
+            >
+              {syncStatus.state === "syncing"
+                ? t("settings.syncing")
+                : syncStatus.state === "error"
+                  ? syncStatus.message
+                  : syncStatus.at
+                    ? t("settings.lastSynced", { time: fmtTime(syncStatus.at) })
+                    : t("settings.notSynced")}
+            </span>
+            <button
+              className="px-3 py-1.5 border rounded-lg text-sm hover:bg-gray-50 disabled:opacity-50"
+              disabled={syncStatus.state === "syncing"}
+              onClick={onSyncNow}
+            >
+              {t("settings.syncNow")}
+            </button>
+          </div>
+        )}
+      </div>
+      <div className="mt-4 flex justify-end">
+        <button
+          className="px-4 py-2 rounded-lg bg-blue-600 text-white"
+          onClick={onDone}
+        >
+          {t("common.done")}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+/* -------------------- Snackbar -------------------- */
+function Snackbar({
+  message,
+  actionLabel,
+  onAction,
+  onTimeout,
+  duration = 6000,
+}: {
+  message: string;
+  actionLabel: string;
+  onAction: () => void;
+  onTimeout: () => void;
+  duration?: number;
+}) {
+  // Parents pass inline callbacks; keep the timer from restarting on render.
+  const timeoutRef = useRef(onTimeout);
+  useEffect(() => {
+    timeoutRef.current = onTimeout;
+  });
+  useEffect(() => {
+    const timer = window.setTimeout(() => timeoutRef.current(), duration);
+    return () => window.clearTimeout(timer);
+  }, [message, duration]);
+  return (
+    <div className="fixed bottom-6 inset-x-0 z-[60] flex justify-center px-4">
+      <div className="flex items-center gap-4 bg-gray-900 text-white text-sm rounded-xl px-4 py-3 shadow-2xl">
+        <span>{message}</span>
+        <button className="font-semibold text-blue-300" onClick={onAction}>
+          {actionLabel}
+        </button>
       </div>
     </div>
   );
@@ -625,7 +3255,11 @@ function Modal({
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center">
       <div className="absolute inset-0 bg-black/30" onClick={onClose} />
-      <div className="relative bg-white w-[92vw] max-w-lg rounded-2xl shadow-2xl">
+      <div
+        className="relative bg-white w-[92vw] max-w-lg rounded-2xl shadow-2xl"
+        role="dialog"
+        aria-modal="true"
+      >
         <button
           className="absolute top-3 right-3 p-2 rounded-lg hover:bg-gray-100"
           onClick={onClose}
@@ -637,9 +3271,3 @@ function Modal({
     </div>
   );
 }
-
-/* -------------------- Utils -------------------- */
-function formatDateDMY(iso: string) {
-  const [y, m, d] = iso.split("-");
-  return `${d}/${m}/${y}`;
-}
\ No newline at end of file
@@ -0,0 +1,157 @@
+import { useState } from "react";
+import { Archive, ArchiveRestore, Plus } from "lucide-react";
+import { COUNTER_COLORS, MAX_COUNTERS, newCounter } from "./counters.ts";
+import { t } from "./i18n.ts";
+import type { CounterCategory, CounterColor, Location } from "./types.ts";
+
+/* -------------------- Counter categories -------------------- */
+// Categories are archived rather than deleted, so history keeps its names.
+export default function CounterManager({
+  counters,
+  locations,
+  onChange,
+  onDone,
+}: {
+  counters: CounterCategory[];
+  locations: Location[];
+  onChange: (next: CounterCategory[]) => void;
+  onDone: () => void;
+}) {
+  const [draft, setDraft] = useState("");
+
+  const active = counters.filter((c) => !c.archived);
+  const archived = counters.filter((c) => c.archived);
+  const full = active.length >= MAX_COUNTERS;
+  const colors = Object.keys(COUNTER_COLORS) as CounterColor[];
+
+  const patch = (id: string, fields: Partial<CounterCategory>) =>
+    onChange(counters.map((c) => (c.id === id ? { ...c, ...fields } : c)));
+  const add = () => {
+    const name = draft.trim();
+    if (!name || full) return;
+    // Cycle through the palette so neighbouring tiles differ.
+    onChange([
+      ...counters,
+      newCounter(name, colors[active.length % colors.length], null),
+    ]);
+    setDraft("");
+  };
+
+  return (
+    <div className="p-5 w-[92vw] max-w-md">
+      <h3 className="text-lg font-semibold mb-1">{t("counters.title")}</h3>
+      <p className="text-xs text-gray-500 mb-3">{t("counters.hint")}</p>
+      <div className="max-h-[55vh] overflow-y-auto space-y-2 pr-1">
+        {active.map((c, i) => (
+          <div key={c.id} className="rounded-xl border p-2 space-y-2">
+            <div className="flex items-center gap-1">
+              <input
+                className={`flex-1 min-w-0 border rounded-lg px-3 py-2 text-sm font-semibold ${COUNTER_COLORS[c.color].text}`}
+                value={c.name}
+                onChange={(e) => patch(c.id, { name: e.target.value })}
+                onBlur={(e) => {
+                  if (!e.target.value.trim())
+                    patch(c.id, {
+                      name: t("counters.defaultName", { n: i + 1 }),
+                    });
+                }}
+              />
+              <button
+                className="p-1.5 rounded-lg hover:bg-gray-100"
+                title={t("common.archive")}
+                onClick={() => patch(c.id, { archived: true })}
+              >
+                <Archive className="h-4 w-4" />
+              </button>
+            </div>
+            <div className="flex gap-2">
+              <select
+                className="flex-1 border rounded-lg px-2 py-1.5 text-sm"
+                value={c.color}
+                onChange={(e) =>
+                  patch(c.id, { color: e.target.value as CounterColor })
+                }
+                title={t("counters.colour")}
+              >
+                {colors.map((k) => (
+                  <option key={k} value={k}>
+                    {t(`colour.${k}`)}
+                  </option>
+                ))}
+              </select>
+              <select
+                className="flex-1 min-w-0 border rounded-lg px-2 py-1.5 text-sm"
+                value={c.locationId ?? ""}
+                onChange={(e) =>
+                  patch(c.id, { locationId: e.target.value || null })
+                }
+                title={t("counters.shownAt")}
+              >
+                <option value="">{t("common.allLocations")}</option>
+                {locations
+                  .filter((l) => !l.archived || l.id === c.locationId)
+                  .map((l) => (
+                    <option key={l.id} value={l.id}>
+                      {l.name}
+                    </option>
+                  ))}
+              </select>
+            </div>
+          </div>
+        ))}
+
+        <div className="flex gap-2">
+          <input
+            className="flex-1 border rounded-lg px-3 py-2 text-sm"
+            placeholder={
+              full ? t("counters.max", { n: MAX_COUNTERS }) : t("counters.new")
+            }
+            value={draft}
+            disabled={full}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && add()}
+          />
+          <button
+            className="inline-flex items-center gap-1 px-3 py-2 rounded-lg border hover:bg-gray-50 disabled:opacity-50"
+            onClick={add}
+            disabled={!draft.trim() || full}
+          >
+            <Plus className="h-4 w-4" /> {t("common.add")}
+          </button>
+        </div>
+
+        {archived.length > 0 && (
+          <>
+            <h4 className="pt-2 text-sm font-semibold text-gray-500">
+              {t("common.archived")}
+            </h4>
+            {archived.map((c) => (
+              <div
+                key={c.id}
+                className="flex items-center gap-2 rounded-xl border border-dashed px-3 py-2 text-sm text-gray-600"
+              >
+                <span className="flex-1 truncate">{c.name}</span>
+                <button
+                  className="p-1.5 rounded-lg hover:bg-gray-100 disabled:opacity-30"
+                  title={t("common.restore")}
+                  onClick={() => patch(c.id, { archived: false })}
+                  disabled={full}
+                >
+                  <ArchiveRestore className="h-4 w-4" />
+                </button>
+              </div>
+            ))}
+          </>
+        )}
+      </div>
+      <div className="mt-4 flex justify-end">
+        <button
+          className="px-4 py-2 rounded-lg bg-blue-600 text-white"
+          onClick={onDone}
+        >
+          {t("common.done")}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,417 @@
+import { useMemo, useState } from "react";
+import { monthLabel, periodOf, previousPeriod } from "./periods.ts";
+import type { CounterCategory, HistoryFilters, Session } from "./types.ts";
+import { COUNTER_COLORS, categoriesIn } from "./counters.ts";
+import { fmtMoney, hasRevenue, sumRevenue } from "./fees.ts";
+import { addDays, endOfMonth, weekdayOf } from "./dates.ts";
+import { digits, locale, t, weekdayNames } from "./i18n.ts";
+import { formatDateDMY } from "./utils.ts";
+
+/* -------------------- Buckets -------------------- */
+type Granularity = "day" | "week" | "month";
+
+// Keeps the daily chart readable (and cheap) for multi-year ranges.
+const MAX_BUCKETS = 400;
+
+// Monday-based week, keyed by its first day.
+const weekStart = (iso: string) => addDays(iso, -((weekdayOf(iso) + 6) % 7));
+const bucketOf = (iso: string, g: Granularity) =>
+  g === "day" ? iso : g === "week" ? weekStart(iso) : iso.slice(0, 7);
+const nextBucket = (key: string, g: Granularity) => {
+  if (g === "day") return addDays(key, 1);
+  if (g === "week") return addDays(key, 7);
+  return addDays(endOfMonth(`${key}-01`), 1).slice(0, 7);
+};
+const bucketLabel = (key: string, g: Granularity) =>
+  g === "month"
+    ? monthLabel(`${key}-01`)
+    : g === "week"
+      ? t("dashboard.weekOf", { date: formatDateDMY(key) })
+      : formatDateDMY(key);
+
+/* -------------------- Aggregates -------------------- */
+type Totals = {
+  sessions: number;
+  days: number;
+  patients: number;
+  newCount: number;
+  oldCount: number;
+  revenue: number; // of the sessions that track income
+};
+
+function totalsOf(list: Session[]): Totals {
+  return {
+    sessions: list.length,
+    days: new Set(list.map((s) => s.date)).size,
+    patients: list.reduce((n, s) => n + s.total, 0),
+    // Split-unknown records count towards the total only.
+    newCount: list.reduce((n, s) => n + (s.newCount ?? 0), 0),
+    oldCount: list.reduce((n, s) => n + (s.oldCount ?? 0), 0),
+    revenue: sumRevenue(list),
+  };
+}
+const avg = (n: number, d: number) => (d === 0 ? 0 : n / d);
+const fmt1 = (n: number) => digits(Number.isInteger(n) ? n : n.toFixed(1));
+
+/* -------------------- Dashboard -------------------- */
+export default function Dashboard({
+  sessions,
+  filtered,
+  filters,
+  locationName,
+  categories,
+  currency,
+}: {
+  sessions: Session[]; // every live session, for the comparison period
+  filtered: Session[]; // sessions matching `filters`
+  filters: HistoryFilters;
+  locationName: (id: string) => string;
+  categories: CounterCategory[];
+  currency: string;
+}) {
+  const [granularity, setGranularity] = useState<Granularity>("day");
+
+  const totals = useMemo(() => totalsOf(filtered), [filtered]);
+  const used = useMemo(
+    () => categoriesIn(filtered, categories),
+    [filtered, categories]
+  );
+  const billed = useMemo(() => hasRevenue(filtered), [filtered]);
+  const money = (n: number) => fmtMoney(Math.round(n), currency);
+
+  const byLocation = useMemo(() => {
+    const map = new Map<string, Session[]>();
+    filtered.forEach((s) => {
+      const list = map.get(s.locationId) ?? [];
+      list.push(s);
+      map.set(s.locationId, list);
+    });
+    return Array.from(map.entries())
+      .map(([id, list]) => ({ id, ...totalsOf(list) }))
+      .sort((a, b) => b.patients - a.patients);
+  }, [filtered]);
+
+  const period = useMemo(
+    () => periodOf(filters, filtered),
+    [filters, filtered]
+  );
+
+  const trend = useMemo(() => {
+    if (filtered.length === 0) return [];
+    const sums = new Map<string, number>();
+    filtered.forEach((s) => {
+      const k = bucketOf(s.date, granularity);
+      sums.set(k, (sums.get(k) ?? 0) + s.total);
+    });
+    const dates = filtered.map((s) => s.date).sort();
+    const first = bucketOf(period?.start ?? dates[0], granularity);
+    const last = bucketOf(period?.end ?? dates[dates.length - 1], granularity);
+    const out: { key: string; value: number }[] = [];
+    for (let k = first; k <= last && out.length < MAX_BUCKETS;) {
+      out.push({ key: k, value: sums.get(k) ?? 0 });
+      k = nextBucket(k, granularity);
+    }
+    return out;
+  }, [filtered, granularity, period]);
+
+  // Average patients on the days that weekday was worked.
+  const weekdays = useMemo(() => {
+    const sums = Array<number>(7).fill(0);
+    const days = Array.from({ length: 7 }, () => new Set<string>());
+    filtered.forEach((s) => {
+      const w = weekdayOf(s.date);
+      sums[w] += s.total;
+      days[w].add(s.date);
+    });
+    return sums.map((sum, w) => ({
+      label: weekdayNames()[w],
+      value: avg(sum, days[w].size),
+    }));
+  }, [filtered]);
+
+  const comparison = useMemo(() => {
+    if (!period) return null;
+    const prev = previousPeriod(filters, period);
+    const list = sessions.filter(
+      (s) =>
+        (filters.locFilter === "ALL" || s.locationId === filters.locFilter) &&
+        s.date >= prev.start &&
+        s.date <= prev.end
+    );
+    return { prev, totals: totalsOf(list) };
+  }, [sessions, filters, period]);
+
+  if (filtered.length === 0)
+    return (
+      <div className="p-4 text-sm text-gray-600">{t("common.noEntries")}</div>
+    );
+
+  const busiest = weekdays.reduce((a, b) => (b.value > a.value ? b : a));
+
+  return (
+    <div className="space-y-4">
+      <section className="grid grid-cols-2 gap-2">
+        <Stat label={t("dashboard.patients")} value={fmt1(totals.patients)} />
+        <Stat label={t("common.sessions")} value={fmt1(totals.sessions)} />
+        <Stat
+          label={t("dashboard.avgSession")}
+          value={fmt1(avg(totals.patients, totals.sessions))}
+        />
+        <Stat
+          label={t("dashboard.avgDay")}
+          value={fmt1(avg(totals.patients, totals.days))}
+        />
+        <Stat
+          label={t("common.new")}
+          value={fmt1(totals.newCount)}
+          tone="text-blue-700"
+        />
+        <Stat label={t("common.old")} value={fmt1(totals.oldCount)} />
+        {used.map((c) => (
+          <Stat
+            key={c.id}
+            label={c.name}
+            value={fmt1(
+              filtered.reduce((n, s) => n + (s.counts?.[c.id] ?? 0), 0)
+            )}
+            tone={COUNTER_COLORS[c.color].text}
+          />
+        ))}
+        {billed && (
+          <>
+            <Stat
+              label={t("common.income")}
+              value={money(totals.revenue)}
+              tone="text-green-700"
+            />
+            <Stat
+              label={t("dashboard.incomeDay")}
+              value={money(avg(totals.revenue, totals.days))}
+            />
+          </>
+        )}
+      </section>
+
+      {comparison && period && (
+        <section className="rounded-xl border p-3">
+          <h4 className="text-sm font-semibold text-gray-500 mb-2">
+            {t("dashboard.versus", {
+              now: period.label,
+              before: comparison.prev.label,
+            })}
+          </h4>
+          <CompareRow
+            label={t("dashboard.patients")}
+            now={totals.patients}
+            before={comparison.totals.patients}
+          />
+          <CompareRow
+            label={t("common.sessions")}
+            now={totals.sessions}
+            before={comparison.totals.sessions}
+          />
+          <CompareRow
+            label={t("dashboard.avgSession")}
+            now={avg(totals.patients, totals.sessions)}
+            before={avg(comparison.totals.patients, comparison.totals.sessions)}
+          />
+          {billed && (
+            <CompareRow
+              label={t("common.income")}
+              now={totals.revenue}
+              before={comparison.totals.revenue}
+              format={money}
+            />
+          )}
+        </section>
+      )}
+
+      <section className="rounded-xl border p-3">
+        <div className="flex items-center justify-between mb-2">
+          <h4 className="text-sm font-semibold text-gray-500">
+            {t("dashboard.trend")}
+          </h4>
+          <div className="flex text-xs rounded-lg border overflow-hidden">
+            {(["day", "week", "month"] as Granularity[]).map((g) => (
+              <button
+                key={g}
+                className={`px-2 py-1 ${
+                  granularity === g ? "bg-blue-600 text-white" : ""
+                }`}
+                onClick={() => setGranularity(g)}
+              >
+                {t(`dashboard.${g}`)}
+              </button>
+            ))}
+          </div>
+        </div>
+        <BarChart
+          data={trend.map((b) => ({
+            label: bucketLabel(b.key, granularity),
+            value: b.value,
+          }))}
+        />
+      </section>
+
+      <section className="rounded-xl border p-3">
+        <h4 className="text-sm font-semibold text-gray-500 mb-1">
+          {t("dashboard.busiest")}
+        </h4>
+        <p className="text-xs text-gray-500 mb-2">
+          {t("dashboard.busiestHint", { day: busiest.label })}
+        </p>
+        <BarChart data={weekdays} showLabels />
+      </section>
+
+      <section className="rounded-xl border p-3">
+        <h4 className="text-sm font-semibold text-gray-500 mb-2">
+          {t("dashboard.perLocation")}
+        </h4>
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-xs text-gray-500">
+              <th className="text-left font-semibold">
+                {t("common.location")}
+              </th>
+              <th className="text-right font-semibold">
+                {t("common.sessions")}
+              </th>
+              <th className="text-right font-semibold">
+                {t("dashboard.patients")}
+              </th>
+              <th className="text-right font-semibold">{t("dashboard.avg")}</th>
+              {billed && (
+                <th className="text-right font-semibold">
+                  {t("common.income")}
+                </th>
+              )}
+            </tr>
+          </thead>
+          <tbody>
+            {byLocation.map((r) => (
+              <tr key={r.id} className="border-t">
+                <td className="py-1 truncate max-w-[8rem]">
+                  {locationName(r.id)}
+                </td>
+                <td className="py-1 text-right tabular-nums">
+                  {fmt1(r.sessions)}
+                </td>
+                <td className="py-1 text-right tabular-nums font-semibold">
+                  {fmt1(r.patients)}
+                </td>
+                <td className="py-1 text-right tabular-nums">
+                  {fmt1(avg(r.patients, r.sessions))}
+                </td>
+                {billed && (
+                  <td className="py-1 text-right tabular-nums">
+                    {r.revenue.toLocaleString(locale())}
+                  </td>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </section>
+    </div>
+  );
+}
+
+/* -------------------- Widgets -------------------- */
+function Stat({
+  label,
+  value,
+  tone,
+}: {
+  label: string;
+  value: string;
+  tone?: string; // text colour class
+}) {
+  return (
+    <div className="rounded-xl border p-2 text-center">
+      <div className={`text-xs truncate ${tone ?? "text-gray-500"}`}>
+        {label}
+      </div>
+      <div className="text-xl font-bold tabular-nums">{value}</div>
+    </div>
+  );
+}
+
+function CompareRow({
+  label,
+  now,
+  before,
+  format = fmt1,
+}: {
+  label: string;
+  now: number;
+  before: number;
+  format?: (n: number) => string;
+}) {
+  const delta = before === 0 ? null : ((now - before) / before) * 100;
+  return (
+    <div className="flex items-center justify-between text-sm py-0.5">
+      <span className="text-gray-600">{label}</span>
+      <span className="tabular-nums">
+        {format(now)} <span className="text-gray-400">/ {format(before)}</span>{" "}
+        {delta !== null && (
+          <span
+            className={
+              delta >= 0
+                ? "text-green-700 font-semibold"
+                : "text-red-600 font-semibold"
+            }
+          >
+            {delta >= 0 ? "▲" : "▼"} {digits(Math.abs(delta).toFixed(0))}%
+          </span>
+        )}
+      </span>
+    </div>
+  );
+}
+
+// Plain SVG so it renders offline; no chart library or service.
+function BarChart({
+  data,
+  showLabels = false,
+}: {
+  data: { label: string; value: number }[];
+  showLabels?: boolean;
+}) {
+  const W = 300;
+  const H = 120;
+  const labelH = showLabels ? 14 : 0;
+  const max = Math.max(1, ...data.map((d) => d.value));
+  const slot = W / Math.max(1, data.length);
+  const bar = Math.max(1, slot * 0.8);
+  return (
+    <svg
+      viewBox={`0 0 ${W} ${H + labelH}`}
+      className="w-full h-auto"
+      role="img"
+    >
+      <line x1={0} y1={H} x2={W} y2={H} stroke="#e5e7eb" />
+      {data.map((d, i) => {
+        const h = (d.value / max) * (H - 4);
+        const x = i * slot + (slot - bar) / 2;
+        return (
+          <g key={i}>
+            <rect x={x} y={H - h} width={bar} height={h} rx={1} fill="#2563eb">
+              <title>{`${d.label}: ${fmt1(d.value)}`}</title>
+            </rect>
+            {showLabels && (
+              <text
+                x={x + bar / 2}
+                y={H + 11}
+                textAnchor="middle"
+                fontSize={9}
+                fill="#6b7280"
+              >
+                {d.label}
+              </text>
+            )}
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
@@ -0,0 +1,222 @@
+import { useMemo, useState } from "react";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { addDays, endOfMonth, weekdayOf } from "./dates.ts";
+import { digits, t, weekdayNames } from "./i18n.ts";
+import { monthLabel } from "./periods.ts";
+import type { Location, Session } from "./types.ts";
+import { fmtSplit, formatDateDMY, pad2, shiftLabel } from "./utils.ts";
+
+/* -------------------- Colours -------------------- */
+// By position in the location list, archived ones included, so a location
+// keeps its colour when another is archived. Full class names for Tailwind.
+const LOCATION_COLORS = [
+  "bg-blue-100 text-blue-800",
+  "bg-amber-100 text-amber-800",
+  "bg-green-100 text-green-800",
+  "bg-purple-100 text-purple-800",
+  "bg-rose-100 text-rose-800",
+  "bg-teal-100 text-teal-800",
+];
+// Location chips that fit in a day cell; the rest are summed into "+n".
+const MAX_CHIPS = 2;
+
+/* -------------------- Calendar -------------------- */
+export default function HistoryCalendar({
+  filtered,
+  locations,
+  year,
+  month,
+  today,
+  canStart,
+  onMonthChange,
+  onOpen,
+  onStart,
+}: {
+  filtered: Session[]; // sessions matching the History filters
+  locations: Location[];
+  year: number;
+  month: number; // 1-12
+  today: string; // YYYY-MM-DD
+  canStart: boolean; // false while a session is being counted
+  onMonthChange: (year: number, month: number) => void;
+  onOpen: (sessionId: string) => void;
+  onStart: (date: string) => void; // back-dated entry for an empty day
+}) {
+  const [selected, setSelected] = useState<string | null>(null);
+
+  const first = `${year}-${pad2(month)}-01`;
+  const last = endOfMonth(first);
+  // Monday-based weeks, padded with blanks before the 1st.
+  const lead = (weekdayOf(first) + 6) % 7;
+  const days: string[] = [];
+  for (let d = first; d <= last; d = addDays(d, 1)) days.push(d);
+
+  const byDay = useMemo(() => {
+    const map = new Map<string, Session[]>();
+    filtered.forEach((s) => {
+      if (s.date < first || s.date > last) return;
+      const list = map.get(s.date) ?? [];
+      list.push(s);
+      map.set(s.date, list);
+    });
+    return map;
+  }, [filtered, first, last]);
+
+  const colorOf = (locationId: string) => {
+    const i = locations.findIndex((l) => l.id === locationId);
+    return LOCATION_COLORS[Math.max(0, i) % LOCATION_COLORS.length];
+  };
+  const shownLocations = locations.filter((l) =>
+    Array.from(byDay.values()).some((list) =>
+      list.some((s) => s.locationId === l.id)
+    )
+  );
+  const step = (dir: -1 | 1) => {
+    const m = month + dir;
+    setSelected(null);
+    onMonthChange(
+      m < 1 ? year - 1 : m > 12 ? year + 1 : year,
+      m < 1 ? 12 : m > 12 ? 1 : m
+    );
+  };
+
+  const pick = (date: string) => {
+    if (byDay.has(date)) setSelected(date === selected ? null : date);
+    else if (date < today && canStart) onStart(date);
+  };
+  const daySessions = selected ? (byDay.get(selected) ?? []) : [];
+  const [sunday, ...weekdays] = weekdayNames();
+
+  return (
+    <div className="p-3">
+      <div className="flex items-center justify-between mb-2">
+        <button
+          className="p-1.5 rounded-lg hover:bg-gray-100"
+          title={t("calendar.previous")}
+          onClick={() => step(-1)}
+        >
+          <ChevronLeft className="h-4 w-4" />
+        </button>
+        <h4 className="text-sm font-semibold">{monthLabel(first)}</h4>
+        <button
+          className="p-1.5 rounded-lg hover:bg-gray-100"
+          title={t("calendar.next")}
+          onClick={() => step(1)}
+        >
+          <ChevronRight className="h-4 w-4" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-7 gap-1 text-center">
+        {[...weekdays, sunday].map((w) => (
+          <div key={w} className="text-[10px] font-semibold text-gray-500">
+            {w}
+          </div>
+        ))}
+        {Array.from({ length: lead }, (_, i) => (
+          <div key={`lead-${i}`} />
+        ))}
+        {days.map((d) => {
+          const list = byDay.get(d) ?? [];
+          const perLocation = Array.from(
+            list
+              .reduce(
+                (map, s) =>
+                  map.set(s.locationId, (map.get(s.locationId) ?? 0) + s.total),
+                new Map<string, number>()
+              )
+              .entries()
+          );
+          const hidden = perLocation
+            .slice(MAX_CHIPS)
+            .reduce((n, [, total]) => n + total, 0);
+          const startable = list.length === 0 && d < today && canStart;
+          return (
+            <button
+              key={d}
+              className={`min-h-[3.5rem] rounded-lg border p-0.5 flex flex-col items-stretch text-left disabled:cursor-default ${
+                d === selected ? "ring-2 ring-blue-500" : ""
+              } ${d === today ? "border-blue-400" : ""} ${
+                startable ? "hover:bg-gray-50" : ""
+              }`}
+              onClick={() => pick(d)}
+              disabled={list.length === 0 && !startable}
+              title={
+                startable
+                  ? t("calendar.startFor", { date: formatDateDMY(d) })
+                  : formatDateDMY(d)
+              }
+            >
+              <span className="text-[10px] text-gray-500 tabular-nums">
+                {digits(Number(d.slice(8)))}
+              </span>
+              {perLocation.slice(0, MAX_CHIPS).map(([id, total]) => (
+                <span
+                  key={id}
+                  className={`mt-0.5 rounded px-0.5 text-xs font-semibold tabular-nums text-center ${colorOf(id)}`}
+                >
+                  {digits(total)}
+                </span>
+              ))}
+              {hidden > 0 && (
+                <span className="text-[10px] text-gray-500 text-center tabular-nums">
+                  +{digits(hidden)}
+                </span>
+              )}
+            </button>
+          );
+        })}
+      </div>
+
+      {shownLocations.length > 0 && (
+        <div className="mt-2 flex flex-wrap gap-1 text-xs">
+          {shownLocations.map((l) => (
+            <span key={l.id} className={`rounded px-1.5 ${colorOf(l.id)}`}>
+              {l.name}
+            </span>
+          ))}
+        </div>
+      )}
+      <p className="mt-2 text-xs text-gray-500">
+        {canStart ? t("calendar.hint") : t("calendar.hintLocked")}
+      </p>
+
+      {selected && (
+        <div className="mt-3">
+          <h4 className="text-sm font-semibold text-gray-500 mb-1">
+            {formatDateDMY(selected)}
+          </h4>
+          <ul className="rounded-xl border divide-y text-sm">
+            {daySessions.map((s) => (
+              <li
+                key={s.sessionId}
+                className="px-3 py-2 flex items-center gap-2 cursor-pointer hover:bg-gray-50"
+                onClick={() => onOpen(s.sessionId)}
+              >
+                <span
+                  className={`h-2.5 w-2.5 rounded-full ${colorOf(s.locationId)}`}
+                />
+                <span className="flex-1 truncate">
+                  {locations.find((l) => l.id === s.locationId)?.name ??
+                    t("common.unknownLocation")}
+                  {s.shift && (
+                    <span className="text-xs text-gray-400">
+                      {" "}
+                      · {shiftLabel(s.shift)}
+                    </span>
+                  )}
+                </span>
+                <span className="tabular-nums text-gray-600">
+                  {fmtSplit(s.newCount)} / {fmtSplit(s.oldCount)}
+                </span>
+                <span className="w-8 text-right font-semibold tabular-nums">
+                  {digits(s.total)}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
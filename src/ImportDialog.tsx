@@ -0,0 +1,212 @@
+import { useMemo, useState } from "react";
+import { Upload } from "lucide-react";
+import { t } from "./i18n.ts";
+import {
+  IMPORT_FIELDS,
+  guessCounterMapping,
+  guessMapping,
+  parseCSV,
+  validateImport,
+  type CounterMapping,
+  type CsvRow,
+  type ImportDraft,
+  type ImportMapping,
+} from "./spreadsheet.ts";
+import type { CounterCategory } from "./types.ts";
+import { fmtSplit, formatDateDMY } from "./utils.ts";
+
+/* -------------------- CSV Import -------------------- */
+export default function ImportDialog({
+  existingKeys,
+  categories,
+  onImport,
+  onCancel,
+}: {
+  existingKeys: Set<string>; // `${date}|${location name lowercased}`
+  categories: CounterCategory[]; // offered as extra columns
+  onImport: (drafts: ImportDraft[]) => void;
+  onCancel: () => void;
+}) {
+  const [fileName, setFileName] = useState("");
+  const [table, setTable] = useState<CsvRow[]>([]);
+  const [mapping, setMapping] = useState<ImportMapping | null>(null);
+  const [counterMapping, setCounterMapping] = useState<CounterMapping>({});
+  const [skipDuplicates, setSkipDuplicates] = useState(true);
+
+  const header = table[0]?.cells ?? [];
+  const rows = useMemo(
+    () =>
+      mapping
+        ? validateImport(table.slice(1), mapping, existingKeys, counterMapping)
+        : [],
+    [table, mapping, existingKeys, counterMapping]
+  );
+  const valid = rows.filter((r) => r.draft);
+  const toImport = valid.filter((r) => !(skipDuplicates && r.duplicate));
+  const errorCount = rows.length - valid.length;
+  const duplicateCount = valid.filter((r) => r.duplicate).length;
+
+  const onFile = async (file: File) => {
+    const parsed = parseCSV(await file.text());
+    setFileName(file.name);
+    setTable(parsed);
+    setMapping(guessMapping(parsed[0]?.cells ?? []));
+    setCounterMapping(guessCounterMapping(parsed[0]?.cells ?? [], categories));
+  };
+
+  return (
+    <div className="p-5 w-[92vw] max-w-md">
+      <h3 className="text-lg font-semibold mb-3">{t("history.importCsv")}</h3>
+
+      <label className="flex items-center justify-center gap-2 border border-dashed rounded-xl py-3 text-sm cursor-pointer hover:bg-gray-50">
+        <Upload className="h-4 w-4" />
+        {fileName || t("import.chooseFile")}
+        <input
+          type="file"
+          accept=".csv,text/csv"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) void onFile(file);
+          }}
+        />
+      </label>
+
+      {mapping && header.length > 0 && (
+        <>
+          <h4 className="mt-4 mb-2 text-sm font-semibold text-gray-500">
+            {t("import.columns")}
+          </h4>
+          <div className="grid grid-cols-2 gap-2">
+            {IMPORT_FIELDS.map(({ field, label }) => (
+              <label key={field} className="text-xs text-gray-600">
+                {t(label)}
+                <select
+                  className="mt-1 w-full border rounded-lg px-2 py-1.5 text-sm"
+                  value={mapping[field]}
+                  onChange={(e) =>
+                    setMapping({ ...mapping, [field]: Number(e.target.value) })
+                  }
+                >
+                  <option value={-1}>{t("import.noColumn")}</option>
+                  {header.map((h, i) => (
+                    <option key={i} value={i}>
+                      {h || t("import.column", { n: i + 1 })}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            ))}
+            {categories.map((c) => (
+              <label key={c.id} className="text-xs text-gray-600">
+                {c.name}
+                <select
+                  className="mt-1 w-full border rounded-lg px-2 py-1.5 text-sm"
+                  value={counterMapping[c.id] ?? -1}
+                  onChange={(e) => {
+                    const col = Number(e.target.value);
+                    const rest = Object.fromEntries(
+                      Object.entries(counterMapping).filter(
+                        ([id]) => id !== c.id
+                      )
+                    );
+                    setCounterMapping(
+                      col >= 0 ? { ...rest, [c.id]: col } : rest
+                    );
+                  }}
+                >
+                  <option value={-1}>{t("import.noColumn")}</option>
+                  {header.map((h, i) => (
+                    <option key={i} value={i}>
+                      {h || t("import.column", { n: i + 1 })}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            ))}
+          </div>
+
+          <div className="mt-4 flex items-center justify-between text-sm">
+            <span>
+              {t("import.summary", {
+                valid: valid.length,
+                errors: errorCount,
+                duplicates: duplicateCount,
+              })}
+            </span>
+            <label className="flex items-center gap-1 text-xs">
+              <input
+                type="checkbox"
+                checked={skipDuplicates}
+                onChange={(e) => setSkipDuplicates(e.target.checked)}
+              />
+              {t("import.skipDuplicates")}
+            </label>
+          </div>
+
+          <div className="mt-2 max-h-[35vh] overflow-y-auto rounded-xl border divide-y text-xs">
+            {rows.map((r) => (
+              <div
+                key={r.line}
+                className={`px-3 py-1.5 ${
+                  r.errors.length
+                    ? "bg-red-50"
+                    : r.duplicate
+                      ? "bg-amber-50"
+                      : ""
+                }`}
+              >
+                <div className="flex gap-2">
+                  <span className="w-8 text-gray-400 tabular-nums">
+                    {r.line}
+                  </span>
+                  {r.draft ? (
+                    <>
+                      <span className="w-20">
+                        {formatDateDMY(r.draft.date)}
+                      </span>
+                      <span className="flex-1 truncate">
+                        {r.draft.location}
+                      </span>
+                      <span className="tabular-nums text-gray-600">
+                        {fmtSplit(r.draft.newCount)}/
+                        {fmtSplit(r.draft.oldCount)}
+                      </span>
+                      <span className="w-8 text-right font-semibold tabular-nums">
+                        {r.draft.total}
+                      </span>
+                    </>
+                  ) : (
+                    <span className="flex-1 text-red-700">
+                      {r.errors.map((key) => t(key)).join("; ")}
+                    </span>
+                  )}
+                </div>
+                {r.draft && r.duplicate && (
+                  <div className="pl-10 text-amber-700">
+                    {t("import.duplicate")}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+
+      <div className="mt-4 flex gap-3">
+        <button className="flex-1 py-2 rounded-lg border" onClick={onCancel}>
+          {t("common.cancel")}
+        </button>
+        <button
+          className="flex-1 py-2 rounded-lg bg-blue-600 text-white disabled:opacity-50"
+          disabled={toImport.length === 0}
+          onClick={() => onImport(toImport.map((r) => r.draft!))}
+        >
+          {toImport.length
+            ? t("import.submitCount", { n: toImport.length })
+            : t("import.submit")}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,463 @@
+import { useEffect, useState } from "react";
+import { Fingerprint, Lock, Plus, Trash2 } from "lucide-react";
+import { t } from "./i18n.ts";
+import {
+  LockError,
+  biometricSupported,
+  createLock,
+  enrollBiometric,
+  unlockWithBiometric,
+  unlockWithPin,
+} from "./lock.ts";
+import {
+  checkLegacyPin,
+  isLocked,
+  isValidPin,
+  newProfile,
+  patchProfile,
+} from "./profiles.ts";
+import { MAIN_PROFILE_ID, type ProfileRegistry } from "./storage.ts";
+import type { Profile, ProfileLock } from "./types.ts";
+
+const AUTO_LOCK_OPTIONS = [1, 5, 15, 30, 0];
+
+/* -------------------- PIN prompt -------------------- */
+export function PinPrompt({
+  profile,
+  others,
+  onUnlock,
+  onPick,
+  onCancel,
+}: {
+  profile: Profile;
+  others: Profile[]; // offered instead, e.g. when the PIN is unknown
+  // `key` is null for a legacy PIN, which App upgrades using `pin`.
+  onUnlock: (key: CryptoKey | null, pin: string) => void;
+  onPick: (id: string) => void;
+  onCancel?: () => void;
+}) {
+  const [pin, setPin] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const submit = async () => {
+    setBusy(true);
+    const key = profile.lock ? await unlockWithPin(profile.lock, pin) : null;
+    setBusy(false);
+    if (key || (!profile.lock && (await checkLegacyPin(profile, pin))))
+      return onUnlock(key, pin);
+    setError(t("pin.wrong"));
+    setPin("");
+  };
+  const biometric = profile.lock?.biometric;
+  const submitBiometric = async () => {
+    setError(null);
+    try {
+      const key = await unlockWithBiometric(biometric!);
+      if (key) onUnlock(key, "");
+    } catch (e) {
+      setError(e instanceof LockError ? e.message : t("pin.unlockFailed"));
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-gray-50/95 p-4">
+      <div className="w-full max-w-xs bg-white rounded-3xl shadow-xl p-6 text-center">
+        <Lock className="h-8 w-8 mx-auto text-gray-700" />
+        <h3 className="mt-2 text-lg font-semibold">{profile.name}</h3>
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            void submit();
+          }}
+        >
+          <input
+            className="mt-4 w-full border rounded-xl px-3 py-2 text-center text-2xl tracking-[0.5em]"
+            type="password"
+            inputMode="numeric"
+            autoComplete="off"
+            autoFocus
+            maxLength={8}
+            placeholder={t("pin.placeholder")}
+            value={pin}
+            onChange={(e) => {
+              setPin(e.target.value.replace(/\D/g, ""));
+              setError(null);
+            }}
+          />
+          {error && <p className="mt-2 text-sm text-red-700">{error}</p>}
+          <button
+            className="mt-4 w-full py-2 rounded-lg bg-blue-600 text-white disabled:opacity-50"
+            disabled={pin.length < 4 || busy}
+          >
+            {busy ? t("pin.unlocking") : t("pin.unlock")}
+          </button>
+        </form>
+        {biometric && (
+          <button
+            className="mt-2 w-full py-2 rounded-lg border flex items-center justify-center gap-2"
+            onClick={() => void submitBiometric()}
+          >
+            <Fingerprint className="h-5 w-5" />
+            {t("pin.biometric")}
+          </button>
+        )}
+        {onCancel && (
+          <button
+            className="mt-2 w-full py-2 rounded-lg border"
+            onClick={onCancel}
+          >
+            {t("common.cancel")}
+          </button>
+        )}
+        {!onCancel && others.length > 0 && (
+          <div className="mt-4 border-t pt-3 text-sm">
+            <div className="text-gray-500 mb-1">{t("profiles.switchTo")}</div>
+            {others.map((p) => (
+              <button
+                key={p.id}
+                className="block w-full py-1.5 rounded-lg hover:bg-gray-100"
+                onClick={() => onPick(p.id)}
+              >
+                {p.name}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/* -------------------- Profiles -------------------- */
+export default function ProfileDialog({
+  registry,
+  onSwitch,
+  onChange,
+  onDelete,
+  onLockChange,
+  onLockNow,
+  autoLockMinutes,
+  onAutoLockChange,
+  onDone,
+}: {
+  registry: ProfileRegistry;
+  onSwitch: (id: string) => void;
+  onChange: (next: ProfileRegistry) => void;
+  onDelete: (id: string) => void;
+  // Saves the active profile's new lock; with a new data key (or no lock)
+  // its data is re-encrypted to match.
+  onLockChange: (
+    lock: ProfileLock | undefined,
+    key?: CryptoKey
+  ) => Promise<void>;
+  onLockNow: () => void;
+  autoLockMinutes: number;
+  onAutoLockChange: (minutes: number) => void;
+  onDone: () => void;
+}) {
+  const [draft, setDraft] = useState("");
+  const [pinForm, setPinForm] = useState<"set" | "remove" | "biometric" | null>(
+    null
+  );
+  const [currentPin, setCurrentPin] = useState("");
+  const [pin, setPin] = useState("");
+  const [confirmPin, setConfirmPin] = useState("");
+  const [pinError, setPinError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [canBiometric, setCanBiometric] = useState(false);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+
+  useEffect(() => {
+    biometricSupported().then(setCanBiometric);
+  }, []);
+
+  const active = registry.profiles.find((p) => p.id === registry.activeId)!;
+  const lock = active.lock;
+  const patchActive = (fields: Partial<Profile>) =>
+    onChange(patchProfile(registry, active.id, fields));
+  const add = () => {
+    const name = draft.trim();
+    if (!name) return;
+    onChange({
+      ...registry,
+      profiles: [...registry.profiles, newProfile(name)],
+    });
+    setDraft("");
+  };
+  const closePinForm = () => {
+    setPinForm(null);
+    setCurrentPin("");
+    setPin("");
+    setConfirmPin("");
+    setPinError(null);
+  };
+  // Every change asks for the current PIN, so an unlocked tablet left on
+  // the desk can't be re-keyed by someone else. The PIN also unwraps the
+  // data key, which a new PIN or a biometric credential then wraps again.
+  const submitPin = async () => {
+    if (pinForm === "set" && !isValidPin(pin))
+      return setPinError(t("pin.invalid"));
+    if (pinForm === "set" && pin !== confirmPin)
+      return setPinError(t("pin.mismatch"));
+    setBusy(true);
+    try {
+      const key = lock && (await unlockWithPin(lock, currentPin));
+      if (lock && !key) return setPinError(t("pin.wrongCurrent"));
+      if (pinForm === "remove") await onLockChange(undefined);
+      else if (pinForm === "biometric")
+        await onLockChange(
+          { ...lock!, biometric: await enrollBiometric(active, key!) },
+          key!
+        );
+      else {
+        const next = await createLock(pin, key ?? undefined);
+        await onLockChange(
+          { ...next.lock, biometric: lock?.biometric },
+          next.key
+        );
+      }
+      closePinForm();
+    } catch (e) {
+      setPinError(
+        e instanceof Error && e.name !== "NotAllowedError"
+          ? e.message
+          : t("pin.saveFailed")
+      );
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="p-5 w-[92vw] max-w-md">
+      <h3 className="text-lg font-semibold mb-3">{t("profiles.title")}</h3>
+      <div className="max-h-[40vh] overflow-y-auto space-y-2 pr-1">
+        {registry.profiles.map((p) =>
+          p.id === active.id ? (
+            <div key={p.id} className="rounded-xl border border-blue-300 p-2">
+              <div className="flex items-center gap-2">
+                <input
+                  className="flex-1 min-w-0 border rounded-lg px-3 py-2 text-sm"
+                  value={p.name}
+                  onChange={(e) => patchActive({ name: e.target.value })}
+                  onBlur={(e) => {
+                    if (!e.target.value.trim())
+                      patchActive({ name: t("profiles.default") });
+                  }}
+                />
+                <span className="text-xs text-blue-700 font-semibold">
+                  {t("profiles.current")}
+                </span>
+              </div>
+            </div>
+          ) : (
+            <div
+              key={p.id}
+              className="rounded-xl border p-2 flex items-center gap-2"
+            >
+              <span className="flex-1 truncate px-1 text-sm">{p.name}</span>
+              {isLocked(p) && <Lock className="h-4 w-4 text-gray-500" />}
+              <button
+                className="px-3 py-1.5 border rounded-lg text-sm hover:bg-gray-50"
+                onClick={() => onSwitch(p.id)}
+              >
+                {t("profiles.switch")}
+              </button>
+            </div>
+          )
+        )}
+      </div>
+
+      <div className="mt-3 flex gap-2">
+        <input
+          className="flex-1 min-w-0 border rounded-lg px-3 py-2 text-sm"
+          placeholder={t("profiles.newPlaceholder")}
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && add()}
+        />
+        <button
+          className="px-3 py-2 rounded-lg bg-blue-600 text-white disabled:opacity-50"
+          disabled={!draft.trim()}
+          onClick={add}
+          title={t("profiles.add")}
+        >
+          <Plus className="h-5 w-5" />
+        </button>
+      </div>
+
+      <h4 className="mt-4 text-sm font-semibold text-gray-500 mb-2">
+        {t("pin.for", { name: active.name })}
+      </h4>
+      {pinForm === null ? (
+        <div className="flex gap-2">
+          <button
+            className="flex-1 px-3 py-2 border rounded-lg text-sm hover:bg-gray-50"
+            onClick={() => setPinForm("set")}
+          >
+            {lock ? t("pin.change") : t("pin.set")}
+          </button>
+          {lock && (
+            <button
+              className="flex-1 px-3 py-2 border rounded-lg text-sm hover:bg-gray-50"
+              onClick={() => setPinForm("remove")}
+            >
+              {t("pin.remove")}
+            </button>
+          )}
+        </div>
+      ) : (
+        <form
+          className="space-y-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            void submitPin();
+          }}
+        >
+          {lock && (
+            <input
+              className="w-full border rounded-lg px-3 py-2 text-sm"
+              type="password"
+              inputMode="numeric"
+              autoComplete="off"
+              maxLength={8}
+              placeholder={t("pin.current")}
+              value={currentPin}
+              onChange={(e) => setCurrentPin(e.target.value.replace(/\D/g, ""))}
+            />
+          )}
+          {pinForm === "set" && (
+            <input
+              className="w-full border rounded-lg px-3 py-2 text-sm"
+              type="password"
+              inputMode="numeric"
+              autoComplete="off"
+              maxLength={8}
+              placeholder={t("pin.new")}
+              value={pin}
+              onChange={(e) => setPin(e.target.value.replace(/\D/g, ""))}
+            />
+          )}
+          {pinForm === "set" && (
+            <input
+              className="w-full border rounded-lg px-3 py-2 text-sm"
+              type="password"
+              inputMode="numeric"
+              autoComplete="off"
+              maxLength={8}
+              placeholder={t("pin.repeat")}
+              value={confirmPin}
+              onChange={(e) => setConfirmPin(e.target.value.replace(/\D/g, ""))}
+            />
+          )}
+          {pinError && <p className="text-sm text-red-700">{pinError}</p>}
+          <div className="flex gap-2">
+            <button
+              type="button"
+              className="flex-1 py-2 rounded-lg border text-sm"
+              onClick={closePinForm}
+            >
+              {t("common.cancel")}
+            </button>
+            <button
+              className="flex-1 py-2 rounded-lg bg-blue-600 text-white text-sm disabled:opacity-50"
+              disabled={busy}
+            >
+              {pinForm === "remove"
+                ? t("pin.confirmRemove")
+                : pinForm === "biometric"
+                  ? t("pin.continue")
+                  : t("pin.save")}
+            </button>
+          </div>
+        </form>
+      )}
+      {lock && pinForm === null && (
+        <div className="mt-2 space-y-2">
+          {(canBiometric || lock.biometric) && (
+            <label className="flex items-center gap-3 text-sm">
+              <Fingerprint className="h-5 w-5 text-gray-700" />
+              <span className="flex-1">{t("pin.useBiometric")}</span>
+              <input
+                type="checkbox"
+                checked={Boolean(lock.biometric)}
+                onChange={(e) => {
+                  if (e.target.checked) setPinForm("biometric");
+                  else
+                    onLockChange({ ...lock, biometric: undefined }).catch(
+                      (err: Error) => setPinError(err.message)
+                    );
+                }}
+              />
+            </label>
+          )}
+          {pinError && <p className="text-sm text-red-700">{pinError}</p>}
+          <label className="flex items-center gap-3 text-sm">
+            <Lock className="h-5 w-5 text-gray-700" />
+            <span className="flex-1">{t("pin.autoLock")}</span>
+            <select
+              className="border rounded-lg px-2 py-1"
+              value={autoLockMinutes}
+              onChange={(e) => onAutoLockChange(Number(e.target.value))}
+            >
+              {AUTO_LOCK_OPTIONS.map((m) => (
+                <option key={m} value={m}>
+                  {m === 0 ? t("pin.never") : t("pin.minutes", { n: m })}
+                </option>
+              ))}
+            </select>
+          </label>
+          <p className="text-xs text-gray-500">{t("pin.encryptedHint")}</p>
+          <button
+            className="w-full px-3 py-2 border rounded-lg text-sm hover:bg-gray-50"
+            onClick={onLockNow}
+          >
+            {t("pin.lockNow")}
+          </button>
+        </div>
+      )}
+
+      {active.id !== MAIN_PROFILE_ID && (
+        <div className="mt-4">
+          {confirmDelete ? (
+            <div className="rounded-xl bg-red-50 p-3 text-sm text-red-700">
+              {t("profiles.deleteConfirm", { name: active.name })}
+              <div className="mt-2 flex gap-2">
+                <button
+                  className="flex-1 py-2 rounded-lg border bg-white"
+                  onClick={() => setConfirmDelete(false)}
+                >
+                  {t("profiles.keep")}
+                </button>
+                <button
+                  className="flex-1 py-2 rounded-lg bg-red-600 text-white"
+                  onClick={() => onDelete(active.id)}
+                >
+                  {t("common.delete")}
+                </button>
+              </div>
+            </div>
+          ) : (
+            <button
+              className="flex items-center gap-2 text-sm text-red-700"
+              onClick={() => setConfirmDelete(true)}
+            >
+              <Trash2 className="h-4 w-4" />
+              {t("profiles.delete")}
+            </button>
+          )}
+        </div>
+      )}
+
+      <div className="mt-4 flex justify-end">
+        <button
+          className="px-4 py-2 rounded-lg bg-blue-600 text-white"
+          onClick={onDone}
+        >
+          {t("common.done")}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,166 @@
+import { useMemo, useState } from "react";
+import { Upload } from "lucide-react";
+import {
+  BackupError,
+  findConflicts,
+  parseBackup,
+  type Backup,
+  type ConflictPolicy,
+} from "./backup.ts";
+import { locale, t } from "./i18n.ts";
+import type { Session } from "./types.ts";
+
+/* -------------------- Restore -------------------- */
+export default function RestoreDialog({
+  localSessions,
+  onReplace,
+  onMerge,
+  onCancel,
+}: {
+  localSessions: Session[];
+  onReplace: (backup: Backup) => void;
+  onMerge: (backup: Backup, policy: ConflictPolicy) => void;
+  onCancel: () => void;
+}) {
+  const [backup, setBackup] = useState<Backup | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [mode, setMode] = useState<"merge" | "replace">("merge");
+  const [policy, setPolicy] = useState<ConflictPolicy>("newer");
+  const [confirmed, setConfirmed] = useState(false);
+
+  const conflicts = useMemo(
+    () => (backup ? findConflicts(localSessions, backup.sessions) : []),
+    [backup, localSessions]
+  );
+  const live = backup?.sessions.filter((s) => !s.deletedAt) ?? [];
+
+  const onFile = async (file: File) => {
+    setBackup(null);
+    setError(null);
+    try {
+      setBackup(parseBackup(await file.text()));
+    } catch (e) {
+      setError(e instanceof BackupError ? e.message : t("restore.unreadable"));
+    }
+  };
+
+  return (
+    <div className="p-5 w-[92vw] max-w-md">
+      <h3 className="text-lg font-semibold mb-3">{t("restore.title")}</h3>
+
+      <label className="flex items-center justify-center gap-2 border border-dashed rounded-xl py-3 text-sm cursor-pointer hover:bg-gray-50">
+        <Upload className="h-4 w-4" />
+        {t("restore.chooseFile")}
+        <input
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) void onFile(file);
+          }}
+        />
+      </label>
+
+      {error && (
+        <p className="mt-3 rounded-lg bg-red-50 px-3 py-2 text-sm text-red-700">
+          {error}
+        </p>
+      )}
+
+      {backup && (
+        <div className="mt-4 space-y-3 text-sm">
+          <div className="rounded-xl border p-3">
+            <div>
+              {t("restore.created", {
+                at: new Date(backup.createdAt).toLocaleString(locale()),
+              })}
+            </div>
+            <div className="text-gray-600">
+              {t("restore.contents", {
+                sessions: live.length,
+                locations: backup.locations.length,
+                patients: live.reduce((n, s) => n + s.total, 0),
+              })}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <label className="flex items-start gap-2">
+              <input
+                type="radio"
+                className="mt-1"
+                checked={mode === "merge"}
+                onChange={() => setMode("merge")}
+              />
+              <span>
+                <span className="font-semibold">{t("restore.merge")}</span>
+                <span className="block text-xs text-gray-500">
+                  {t("restore.mergeHint")}
+                </span>
+              </span>
+            </label>
+            <label className="flex items-start gap-2">
+              <input
+                type="radio"
+                className="mt-1"
+                checked={mode === "replace"}
+                onChange={() => setMode("replace")}
+              />
+              <span>
+                <span className="font-semibold">{t("restore.replace")}</span>
+                <span className="block text-xs text-gray-500">
+                  {t("restore.replaceHint")}
+                </span>
+              </span>
+            </label>
+          </div>
+
+          {mode === "merge" && conflicts.length > 0 && (
+            <label className="block">
+              <div className="text-xs text-gray-600 mb-1">
+                {t("restore.conflicts", { n: conflicts.length })}
+              </div>
+              <select
+                className="w-full border rounded-lg px-3 py-2"
+                value={policy}
+                onChange={(e) => setPolicy(e.target.value as ConflictPolicy)}
+              >
+                <option value="newer">{t("restore.keepNewer")}</option>
+                <option value="mine">{t("restore.keepMine")}</option>
+                <option value="backup">{t("restore.keepBackup")}</option>
+              </select>
+            </label>
+          )}
+
+          {mode === "replace" && (
+            <label className="flex items-center gap-2 text-red-700">
+              <input
+                type="checkbox"
+                checked={confirmed}
+                onChange={(e) => setConfirmed(e.target.checked)}
+              />
+              {t("restore.confirmReplace")}
+            </label>
+          )}
+        </div>
+      )}
+
+      <div className="mt-4 flex gap-3">
+        <button className="flex-1 py-2 rounded-lg border" onClick={onCancel}>
+          {t("common.cancel")}
+        </button>
+        <button
+          className="flex-1 py-2 rounded-lg bg-blue-600 text-white disabled:opacity-50"
+          disabled={!backup || (mode === "replace" && !confirmed)}
+          onClick={() =>
+            backup &&
+            (mode === "replace" ? onReplace(backup) : onMerge(backup, policy))
+          }
+        >
+          {t("common.restore")}
+        </button>
+      </div>
+    </div>
+  );
+}
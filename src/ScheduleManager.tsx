@@ -0,0 +1,116 @@
+import { Plus, Trash2 } from "lucide-react";
+import { t, weekdayNames } from "./i18n.ts";
+import { newSlot } from "./schedule.ts";
+import type { Location, ScheduleSlot } from "./types.ts";
+
+/* -------------------- Chamber schedule -------------------- */
+export default function ScheduleManager({
+  schedule,
+  locations,
+  onChange,
+  onDone,
+}: {
+  schedule: ScheduleSlot[];
+  locations: Location[];
+  onChange: (next: ScheduleSlot[]) => void;
+  onDone: () => void;
+}) {
+  const active = locations.filter((l) => !l.archived);
+
+  const patch = (id: string, fields: Partial<ScheduleSlot>) =>
+    onChange(schedule.map((s) => (s.id === id ? { ...s, ...fields } : s)));
+  const toggleDay = (s: ScheduleSlot, day: number) =>
+    patch(s.id, {
+      weekdays: s.weekdays.includes(day)
+        ? s.weekdays.filter((d) => d !== day)
+        : [...s.weekdays, day],
+    });
+
+  return (
+    <div className="p-5 w-[92vw] max-w-md">
+      <h3 className="text-lg font-semibold mb-1">{t("schedule.title")}</h3>
+      <p className="text-xs text-gray-500 mb-3">{t("schedule.hint")}</p>
+      <div className="max-h-[55vh] overflow-y-auto space-y-2 pr-1">
+        {schedule.map((s) => (
+          <div key={s.id} className="rounded-xl border p-2 space-y-2">
+            <div className="flex items-center gap-1">
+              <select
+                className="flex-1 min-w-0 border rounded-lg px-2 py-1.5 text-sm"
+                value={s.locationId}
+                onChange={(e) => patch(s.id, { locationId: e.target.value })}
+              >
+                {locations
+                  .filter((l) => !l.archived || l.id === s.locationId)
+                  .map((l) => (
+                    <option key={l.id} value={l.id}>
+                      {l.name}
+                    </option>
+                  ))}
+              </select>
+              <button
+                className="p-1.5 rounded-lg hover:bg-red-50 text-red-600"
+                title={t("schedule.remove")}
+                onClick={() => onChange(schedule.filter((o) => o.id !== s.id))}
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </div>
+            <div className="grid grid-cols-7 gap-1">
+              {weekdayNames().map((label, day) => (
+                <button
+                  key={label}
+                  className={`py-1 rounded-lg border text-xs ${
+                    s.weekdays.includes(day)
+                      ? "bg-blue-600 border-blue-600 text-white"
+                      : "hover:bg-gray-50"
+                  }`}
+                  onClick={() => toggleDay(s, day)}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            <div className="flex items-center gap-2 text-sm">
+              <input
+                type="time"
+                className="flex-1 border rounded-lg px-2 py-1.5"
+                value={s.start}
+                onChange={(e) =>
+                  e.target.value && patch(s.id, { start: e.target.value })
+                }
+              />
+              <span className="text-gray-500">{t("schedule.to")}</span>
+              <input
+                type="time"
+                className="flex-1 border rounded-lg px-2 py-1.5"
+                value={s.end}
+                onChange={(e) =>
+                  e.target.value && patch(s.id, { end: e.target.value })
+                }
+              />
+            </div>
+          </div>
+        ))}
+
+        <button
+          className="w-full inline-flex items-center justify-center gap-1 px-3 py-2 rounded-lg border hover:bg-gray-50 disabled:opacity-50"
+          onClick={() => onChange([...schedule, newSlot(active[0].id)])}
+          disabled={active.length === 0}
+        >
+          <Plus className="h-4 w-4" /> {t("schedule.add")}
+        </button>
+        {active.length === 0 && (
+          <p className="text-xs text-gray-500">{t("schedule.needLocation")}</p>
+        )}
+      </div>
+      <div className="mt-4 flex justify-end">
+        <button
+          className="px-4 py-2 rounded-lg bg-blue-600 text-white"
+          onClick={onDone}
+        >
+          {t("common.done")}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,153 @@
+import { useEffect, useRef } from "react";
+import { Undo2, X } from "lucide-react";
+import { digits, t } from "./i18n.ts";
+import type { VisitKind } from "./types.ts";
+import { pad2 } from "./utils.ts";
+
+export type TapTile = {
+  kind: VisitKind;
+  label: string;
+  value: number;
+  color: string; // background class; full class names for Tailwind
+};
+
+/* -------------------- Tap mode -------------------- */
+// Full-screen tiles for counting without aiming at the small buttons. With
+// a double-tap window set, a single tap waits that long before counting so
+// that a second tap can turn it into a count down instead.
+export default function TapMode({
+  tiles,
+  total,
+  status,
+  full,
+  doubleTapMs,
+  canUndo,
+  onInc,
+  onDec,
+  onUndo,
+  onExit,
+}: {
+  tiles: TapTile[];
+  total: number;
+  status: string | null; // the daily target/cap line
+  full: boolean; // the daily cap is reached
+  doubleTapMs: number; // 0 = double-tap does nothing special
+  canUndo: boolean;
+  onInc: (kind: VisitKind) => void;
+  onDec: (kind: VisitKind) => void;
+  onUndo: () => void;
+  onExit: () => void;
+}) {
+  // The parent passes fresh callbacks each render; timers need the latest.
+  const handlers = useRef({ onInc, onExit });
+  useEffect(() => {
+    handlers.current = { onInc, onExit };
+  });
+
+  const pending = useRef<{ kind: VisitKind; timer: number } | null>(null);
+  const flush = () => {
+    const p = pending.current;
+    if (!p) return;
+    window.clearTimeout(p.timer);
+    pending.current = null;
+    handlers.current.onInc(p.kind);
+  };
+  const flushRef = useRef(flush);
+  const tap = (kind: VisitKind) => {
+    if (!doubleTapMs) return onInc(kind);
+    if (pending.current?.kind === kind) {
+      window.clearTimeout(pending.current.timer);
+      pending.current = null;
+      return onDec(kind);
+    }
+    flush();
+    pending.current = {
+      kind,
+      timer: window.setTimeout(flush, doubleTapMs),
+    };
+  };
+  // A tap still waiting when the mode closes counts.
+  useEffect(() => () => flushRef.current(), []);
+
+  // Full screen where the browser allows it; leaving it (Esc, the back
+  // gesture) leaves tap mode too.
+  useEffect(() => {
+    const root = document.documentElement;
+    root.requestFullscreen?.().catch(() => {});
+    const onChange = () => {
+      if (!document.fullscreenElement) handlers.current.onExit();
+    };
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === "Escape") handlers.current.onExit();
+    };
+    document.addEventListener("fullscreenchange", onChange);
+    window.addEventListener("keydown", onKey);
+    return () => {
+      document.removeEventListener("fullscreenchange", onChange);
+      window.removeEventListener("keydown", onKey);
+      if (document.fullscreenElement) void document.exitFullscreen();
+    };
+  }, []);
+
+  return (
+    <div className="fixed inset-0 z-50 flex flex-col bg-white select-none">
+      <div className="flex items-center gap-2 px-3 py-2 border-b">
+        <button
+          className="p-2 rounded-lg hover:bg-gray-100 disabled:opacity-30"
+          title={t("common.undo")}
+          onClick={onUndo}
+          disabled={!canUndo}
+        >
+          <Undo2 className="h-6 w-6" />
+        </button>
+        <div className="flex-1 text-center">
+          <div className="text-lg font-semibold">
+            {t("main.total")}{" "}
+            <span className="tabular-nums">{digits(pad2(total))}</span>
+          </div>
+          {status && (
+            <div
+              className={`text-xs ${full ? "text-red-700 font-semibold" : "text-gray-500"}`}
+            >
+              {status}
+            </div>
+          )}
+        </div>
+        <button
+          className="p-2 rounded-lg hover:bg-gray-100"
+          title={t("tap.exit")}
+          onClick={onExit}
+        >
+          <X className="h-6 w-6" />
+        </button>
+      </div>
+      <div
+        className={`flex-1 grid gap-2 p-2 ${
+          tiles.length > 2 ? "grid-cols-2" : "grid-cols-1 sm:grid-cols-2"
+        }`}
+      >
+        {tiles.map((tile) => (
+          <button
+            key={tile.kind}
+            className={`rounded-2xl text-white flex flex-col items-center justify-center touch-manipulation active:brightness-90 ${tile.color} ${
+              full ? "opacity-60" : ""
+            }`}
+            onClick={() => tap(tile.kind)}
+          >
+            <span className="text-7xl font-extrabold tabular-nums">
+              {digits(pad2(tile.value))}
+            </span>
+            <span className="mt-1 text-xl font-semibold truncate max-w-full px-2">
+              {tile.label}
+            </span>
+          </button>
+        ))}
+      </div>
+      {doubleTapMs > 0 && (
+        <p className="pb-2 text-center text-xs text-gray-500">
+          {t("tap.doubleTapHint")}
+        </p>
+      )}
+    </div>
+  );
+}
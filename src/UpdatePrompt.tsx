@@ -0,0 +1,25 @@
+import { useState } from "react";
+import { RefreshCw } from "lucide-react";
+import { t } from "./i18n.ts";
+
+/* -------------------- Update prompt -------------------- */
+// Shown when a new build is waiting; reloading mid-count is safe because
+// the current session is saved on every change.
+export default function UpdatePrompt({ onReload }: { onReload: () => void }) {
+  const [hidden, setHidden] = useState(false);
+  if (hidden) return null;
+  return (
+    <div className="fixed top-4 inset-x-0 z-[70] flex justify-center px-4">
+      <div className="flex items-center gap-3 bg-gray-900 text-white text-sm rounded-xl px-4 py-3 shadow-2xl">
+        <RefreshCw className="h-4 w-4 shrink-0" />
+        <span>{t("update.available")}</span>
+        <button className="font-semibold text-blue-300" onClick={onReload}>
+          {t("update.reload")}
+        </button>
+        <button className="text-gray-400" onClick={() => setHidden(true)}>
+          {t("update.later")}
+        </button>
+      </div>
+    </div>
+  );
+}
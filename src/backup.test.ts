@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { BackupError, createBackup, parseBackup } from "./backup.ts";
+import type { Session } from "./types.ts";
+
+const session: Session = {
+  sessionId: "s1",
+  date: "2025-03-01",
+  locationId: "clinic",
+  newCount: 2,
+  oldCount: 1,
+  total: 3,
+  finishedAt: "2025-03-01T12:00:00.000+06:00",
+};
+const file = (fields: Record<string, unknown> = {}) =>
+  JSON.stringify({
+    ...createBackup({
+      sessions: [session],
+      locations: [{ id: "clinic", name: "Clinic", archived: false }],
+      current: {
+        date: null,
+        locationId: null,
+        newCount: 0,
+        oldCount: 0,
+        visits: [],
+        locked: false,
+      },
+      settings: {},
+    }),
+    ...fields,
+  });
+
+describe("parseBackup", () => {
+  it("reads back what createBackup wrote", () => {
+    expect(parseBackup(file()).sessions).toEqual([session]);
+  });
+
+  it.each([
+    ["a session without a date", { sessions: [{ ...session, date: "" }] }],
+    [
+      "a session without a location",
+      { sessions: [{ ...session, locationId: undefined }] },
+    ],
+    [
+      "a cut-off session in an old backup",
+      { version: 1, sessions: [{ sessionId: "s1", date: "2025-03-01" }] },
+    ],
+    ["a nameless location", { locations: [{ id: "clinic" }] }],
+  ])("rejects %s", (_, fields) => {
+    expect(() => parseBackup(file(fields))).toThrow(BackupError);
+  });
+});
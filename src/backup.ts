@@ -0,0 +1,150 @@
+import { compareTimestamps, localTimestamp } from "./dates.ts";
+import { t } from "./i18n.ts";
+import {
+  migrateCurrent,
+  migrateLocalDate,
+  migrateSessions,
+} from "./migrations.ts";
+import { isLocation, isSession } from "./sync.ts";
+import type { CurrentState, Location, Session, Settings } from "./types.ts";
+
+/* -------------------- Format -------------------- */
+const BACKUP_FORMAT = "patient-counter-backup";
+/** Bump when the backup layout changes; add a step to BACKUP_MIGRATIONS. */
+export const BACKUP_VERSION = 2;
+
+export type Backup = {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: string; // ISO8601 with local offset
+  sessions: Session[]; // includes deleted tombstones
+  locations: Location[];
+  current: CurrentState;
+  settings: Partial<Settings>;
+};
+
+// Steps from version N to N+1.
+const BACKUP_MIGRATIONS: Record<number, (b: Backup) => Backup> = {
+  // v1 backups may hold session dates taken from the UTC day.
+  1: (b) => ({ ...b, sessions: b.sessions.map((s) => migrateLocalDate(s)) }),
+};
+
+export class BackupError extends Error {}
+
+export function createBackup(
+  data: Pick<Backup, "sessions" | "locations" | "current" | "settings">
+): Backup {
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: localTimestamp(),
+    ...data,
+  };
+}
+
+/** Parses and migrates a backup file; throws BackupError if unusable. */
+export function parseBackup(text: string): Backup {
+  let raw: Backup;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new BackupError(t("backup.notJson"));
+  }
+  if (raw?.format !== BACKUP_FORMAT || typeof raw.version !== "number")
+    throw new BackupError(t("backup.notBackup"));
+  if (raw.version > BACKUP_VERSION) throw new BackupError(t("backup.tooNew"));
+  if (!Array.isArray(raw.sessions) || !Array.isArray(raw.locations))
+    throw new BackupError(t("backup.noSessions"));
+
+  // Records inside may predate the current storage shape (e.g. a backup
+  // assembled from v1 keys); bring them forward too. A hand-edited or cut
+  // off file can break a migration, or come out of it still unusable.
+  let b = raw;
+  const locations: Location[] = [];
+  let sessions: Session[];
+  let current: CurrentState | null;
+  try {
+    for (let v = b.version; v < BACKUP_VERSION; v++)
+      b = BACKUP_MIGRATIONS[v](b);
+    locations.push(...b.locations);
+    sessions = migrateSessions(b.sessions, locations);
+    current = b.current ? migrateCurrent(b.current, locations) : null;
+  } catch (e) {
+    throw new BackupError(t("backup.damaged"), { cause: e });
+  }
+  if (!sessions.every(isSession) || !locations.every(isLocation))
+    throw new BackupError(t("backup.damaged"));
+  return {
+    ...b,
+    version: BACKUP_VERSION,
+    sessions,
+    locations,
+    current: current ?? {
+      date: null,
+      locationId: null,
+      newCount: 0,
+      oldCount: 0,
+      visits: [],
+      locked: false,
+    },
+    settings: b.settings ?? {},
+  };
+}
+
+/* -------------------- Merge -------------------- */
+/** How to resolve a sessionId present on both sides with different data. */
+export type ConflictPolicy = "newer" | "mine" | "backup";
+
+// Last time a record changed: its latest audit entry, else its finish.
+const lastChanged = (s: Session) =>
+  s.audit?.[s.audit.length - 1]?.at ?? s.finishedAt;
+
+export function findConflicts(local: Session[], incoming: Session[]) {
+  const byId = new Map(local.map((s) => [s.sessionId, s]));
+  return incoming.filter((s) => {
+    const mine = byId.get(s.sessionId);
+    return mine && JSON.stringify(mine) !== JSON.stringify(s);
+  });
+}
+
+/**
+ * Merges backup sessions/locations into local ones by id. Local current
+ * counter and settings are left alone.
+ */
+export function mergeBackup(
+  local: { sessions: Session[]; locations: Location[] },
+  backup: Backup,
+  policy: ConflictPolicy
+): {
+  sessions: Session[];
+  locations: Location[];
+  added: number;
+  replaced: number;
+} {
+  const knownLocations = new Set(local.locations.map((l) => l.id));
+  const locations = [
+    ...local.locations,
+    ...backup.locations.filter((l) => !knownLocations.has(l.id)),
+  ];
+
+  const byId = new Map(local.sessions.map((s) => [s.sessionId, s]));
+  let added = 0;
+  let replaced = 0;
+  backup.sessions.forEach((s) => {
+    const mine = byId.get(s.sessionId);
+    if (!mine) {
+      byId.set(s.sessionId, s);
+      added++;
+      return;
+    }
+    const takeBackup =
+      policy === "backup" ||
+      (policy === "newer" &&
+        compareTimestamps(lastChanged(s), lastChanged(mine)) > 0);
+    if (takeBackup && JSON.stringify(mine) !== JSON.stringify(s)) {
+      byId.set(s.sessionId, s);
+      replaced++;
+    }
+  });
+  return { sessions: Array.from(byId.values()), locations, added, replaced };
+}
@@ -0,0 +1,110 @@
+import { v4 as uuidv4 } from "uuid";
+import { digits, t } from "./i18n.ts";
+import type {
+  CategoryCounts,
+  CounterCategory,
+  CounterColor,
+  Session,
+} from "./types.ts";
+
+/** Custom categories that can be active at once, besides NEW and OLD. */
+export const MAX_COUNTERS = 6;
+
+// Full class names so Tailwind keeps them. Names are `colour.<key>` messages.
+export const COUNTER_COLORS: Record<
+  CounterColor,
+  { text: string; bar: string }
+> = {
+  green: { text: "text-green-700", bar: "bg-green-500" },
+  amber: { text: "text-amber-700", bar: "bg-amber-500" },
+  red: { text: "text-red-700", bar: "bg-red-500" },
+  purple: { text: "text-purple-700", bar: "bg-purple-500" },
+  teal: { text: "text-teal-700", bar: "bg-teal-500" },
+};
+
+export const newCounter = (
+  name: string,
+  color: CounterColor,
+  locationId: string | null
+): CounterCategory => ({
+  id: uuidv4(),
+  name: name.trim(),
+  color,
+  locationId,
+  archived: false,
+});
+
+/** Active categories shown on the counter card at `locationId`. */
+export const countersAt = (
+  categories: CounterCategory[],
+  locationId: string | null
+) =>
+  categories.filter(
+    (c) => !c.archived && (c.locationId === null || c.locationId === locationId)
+  );
+
+/* -------------------- Counts -------------------- */
+export const sumCounts = (c?: CategoryCounts) =>
+  Object.values(c ?? {}).reduce((n, v) => n + v, 0);
+
+/** Adds per-category counts; undefined when nothing is left. */
+export function addCounts(
+  a?: CategoryCounts,
+  b?: CategoryCounts
+): CategoryCounts | undefined {
+  const out: CategoryCounts = { ...a };
+  Object.entries(b ?? {}).forEach(([id, n]) => {
+    out[id] = (out[id] ?? 0) + n;
+  });
+  return normalizeCounts(out);
+}
+
+/** Drops zero entries; undefined when none remain. */
+export function normalizeCounts(c: CategoryCounts): CategoryCounts | undefined {
+  const entries = Object.entries(c).filter(([, n]) => n > 0);
+  return entries.length ? Object.fromEntries(entries) : undefined;
+}
+
+/**
+ * The categories that have counts in `list`, in settings order, for
+ * generic columns in lists and exports. Ids no longer in the settings
+ * (e.g. synced from another device) get a placeholder name.
+ */
+export function categoriesIn(
+  list: Pick<Session, "counts">[],
+  categories: CounterCategory[]
+): CounterCategory[] {
+  const used = new Set(list.flatMap((s) => Object.keys(s.counts ?? {})));
+  const known = categories.filter((c) => used.has(c.id));
+  const unknown = Array.from(used)
+    .filter((id) => !categories.some((c) => c.id === id))
+    .map((id): CounterCategory => ({
+      id,
+      name: t("counters.unknown"),
+      color: "teal",
+      locationId: null,
+      archived: true,
+    }));
+  return [...known, ...unknown];
+}
+
+/** A session's count for NEW, OLD or a category; null = split unknown. */
+export const countIn = (
+  s: Pick<Session, "newCount" | "oldCount" | "counts">,
+  kind: string
+) =>
+  kind === "new"
+    ? s.newCount
+    : kind === "old"
+      ? s.oldCount
+      : (s.counts?.[kind] ?? 0);
+
+/** e.g. "Procedures 2 · Referral 1", in `categories` order. */
+export const fmtCounts = (
+  counts: CategoryCounts | undefined,
+  categories: CounterCategory[]
+) =>
+  categories
+    .filter((c) => counts?.[c.id])
+    .map((c) => `${c.name} ${digits(counts![c.id])}`)
+    .join(" · ");
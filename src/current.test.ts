@@ -0,0 +1,212 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  UNDO_LIMIT,
+  blankCurrent,
+  decrement,
+  dropLastVisit,
+  increment,
+  isStale,
+  preselect,
+  redoStep,
+  resetCount,
+  undoStep,
+  withDate,
+  withLocation,
+  withoutVisits,
+} from "./current.ts";
+import type { CurrentState, Location, ScheduleSlot } from "./types.ts";
+
+// A Sunday afternoon in Dhaka.
+beforeEach(() => {
+  process.env.TZ = "Asia/Dhaka";
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date("2025-03-02T13:00:00+06:00"));
+});
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+const at = (time: string) => `2025-03-02T${time}:00.000+06:00`;
+const counting = (fields: Partial<CurrentState> = {}): CurrentState => ({
+  ...blankCurrent(),
+  locationId: "clinic",
+  newCount: 1,
+  oldCount: 1,
+  visits: [
+    { kind: "new", at: at("09:00") },
+    { kind: "old", at: at("09:10") },
+  ],
+  locked: true,
+  ...fields,
+});
+// The counts and visits, without the undo history.
+const tally = ({
+  newCount,
+  oldCount,
+  counts,
+  visits,
+  locked,
+}: CurrentState) => ({
+  newCount,
+  oldCount,
+  counts,
+  visits,
+  locked,
+});
+
+describe("preselect", () => {
+  const locations: Location[] = [
+    { id: "clinic", name: "Clinic", archived: false },
+    { id: "old", name: "Old chamber", archived: true },
+  ];
+  const slot = (locationId: string): ScheduleSlot => ({
+    id: "s",
+    locationId,
+    weekdays: [0],
+    start: "12:00",
+    end: "16:00",
+  });
+
+  it("moves an idle counter to today and the scheduled location", () => {
+    const idle = { ...blankCurrent(), date: "2025-02-20", locationId: "home" };
+    expect(preselect(idle, [slot("clinic")], locations)).toMatchObject({
+      date: "2025-03-02",
+      locationId: "clinic",
+    });
+  });
+
+  it("keeps the location when nothing usable is scheduled", () => {
+    const idle = { ...blankCurrent(), locationId: "home" };
+    expect(preselect(idle, [], locations).locationId).toBe("home");
+    expect(preselect(idle, [slot("old")], locations).locationId).toBe("home");
+  });
+
+  it("leaves a session being counted alone", () => {
+    const open = counting({ date: "2025-02-20" });
+    expect(preselect(open, [slot("clinic")], locations)).toBe(open);
+  });
+});
+
+describe("isStale", () => {
+  it("flags a session last counted on an earlier day", () => {
+    expect(
+      isStale(
+        counting({
+          date: "2025-03-01",
+          visits: [{ kind: "new", at: "2025-03-01T18:00:00.000+06:00" }],
+        })
+      )
+    ).toBe(true);
+  });
+
+  it("spares a back-dated session counted today", () => {
+    expect(isStale(counting({ date: "2025-03-01" }))).toBe(false);
+  });
+
+  it("spares today's and idle counters", () => {
+    expect(isStale(counting())).toBe(false);
+    expect(isStale({ ...blankCurrent(), date: "2025-03-01" })).toBe(false);
+  });
+});
+
+describe("visit log", () => {
+  const visits = [
+    { kind: "new", at: at("09:00") },
+    { kind: "old", at: at("09:10") },
+    { kind: "new", at: at("09:20") },
+    { kind: "new", at: at("09:20") },
+  ];
+
+  it("drops the latest visit of a kind only", () => {
+    expect(dropLastVisit(visits, "old")).toEqual([
+      visits[0],
+      visits[2],
+      visits[3],
+    ]);
+    expect(dropLastVisit(visits, "x1")).toBe(visits);
+  });
+
+  it("removes one entry per visit taken out", () => {
+    expect(withoutVisits(visits, [{ kind: "new", at: at("09:20") }])).toEqual(
+      visits.slice(0, 3)
+    );
+    expect(withoutVisits(visits, [{ kind: "old", at: at("10:00") }])).toEqual(
+      visits
+    );
+  });
+});
+
+describe("undo and redo", () => {
+  it("steps back and forth through counts, decrements and resets", () => {
+    const start = blankCurrent();
+    const states = [start];
+    const step = (f: (s: CurrentState) => CurrentState) =>
+      states.push(f(states[states.length - 1]));
+    step((s) => increment(s, "new"));
+    vi.setSystemTime(new Date(at("13:05")));
+    step((s) => increment(s, "old"));
+    step((s) => increment(s, "new"));
+    step((s) => decrement(s, "new"));
+    step((s) => resetCount(s, "old"));
+
+    let s = states[states.length - 1];
+    expect(tally(s)).toMatchObject({ newCount: 1, oldCount: 0 });
+    for (let i = states.length - 2; i >= 0; i--) {
+      s = undoStep(s);
+      expect(tally(s)).toEqual(tally(states[i]));
+    }
+    expect(undoStep(s)).toBe(s);
+    for (let i = 1; i < states.length; i++) {
+      s = redoStep(s);
+      expect(tally(s)).toEqual(tally(states[i]));
+    }
+    expect(redoStep(s)).toBe(s);
+  });
+
+  it("puts a visit taken from the middle back in arrival order", () => {
+    const s = counting({
+      visits: [
+        { kind: "new", at: at("09:00") },
+        { kind: "old", at: at("09:10") },
+        { kind: "new", at: at("09:20") },
+      ],
+      newCount: 2,
+    });
+    const reset = resetCount(s, "new");
+    expect(reset.visits).toEqual([{ kind: "old", at: at("09:10") }]);
+    expect(undoStep(reset).visits).toEqual(s.visits);
+  });
+
+  it("unlocks again when the first count is undone", () => {
+    const s = increment(blankCurrent(), "new");
+    expect(s.locked).toBe(true);
+    expect(undoStep(s).locked).toBe(false);
+  });
+
+  it("covers date and location changes", () => {
+    const s = withLocation(withDate(blankCurrent(), "2025-03-01"), "clinic");
+    expect(s).toMatchObject({ date: "2025-03-01", locationId: "clinic" });
+    const back = undoStep(undoStep(s));
+    expect(back).toMatchObject({ date: "2025-03-02", locationId: null });
+    expect(redoStep(back).date).toBe("2025-03-01");
+  });
+
+  it("drops the redo history on a new change", () => {
+    const undone = undoStep(increment(increment(blankCurrent(), "new"), "new"));
+    expect(undone.redo).toHaveLength(1);
+    expect(increment(undone, "old").redo).toBeUndefined();
+  });
+
+  it("ignores changes that change nothing", () => {
+    const s = blankCurrent();
+    expect(decrement(s, "new")).toBe(s);
+    expect(resetCount(s, "old")).toBe(s);
+  });
+
+  it("keeps only the latest actions", () => {
+    let s = blankCurrent();
+    for (let i = 0; i < UNDO_LIMIT + 5; i++) s = increment(s, "new");
+    expect(s.undo).toHaveLength(UNDO_LIMIT);
+    expect(s.undo![0]).toMatchObject({ from: 5, to: 6 });
+  });
+});
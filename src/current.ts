@@ -0,0 +1,248 @@
+import { normalizeCounts, sumCounts } from "./counters.ts";
+import { dateOfTimestamp, localDate, localTimestamp } from "./dates.ts";
+import { scheduledLocation } from "./schedule.ts";
+import { byArrival } from "./sessions.ts";
+import type {
+  CounterAction,
+  CurrentState,
+  Location,
+  ScheduleSlot,
+  Visit,
+  VisitKind,
+} from "./types.ts";
+
+/*
+ * The session being counted. Every change goes through a function here
+ * that returns the next CurrentState with the change recorded for undo;
+ * App only decides when a change is allowed.
+ */
+
+/* -------------------- Lifecycle -------------------- */
+export const blankCurrent = (): CurrentState => ({
+  date: localDate(),
+  locationId: null,
+  newCount: 0,
+  oldCount: 0,
+  visits: [],
+  locked: false,
+});
+
+/** `s` emptied for the next session; the date and location stay. */
+export const cleared = (s: CurrentState): CurrentState => ({
+  ...s,
+  newCount: 0,
+  oldCount: 0,
+  counts: undefined,
+  visits: [],
+  locked: false,
+  undo: undefined,
+  redo: undefined,
+});
+
+/** An idle counter moves to today, at the location scheduled now if any. */
+export function preselect(
+  s: CurrentState,
+  schedule: ScheduleSlot[],
+  locations: Location[]
+): CurrentState {
+  if (s.locked) return s;
+  const scheduled = scheduledLocation(schedule, new Date());
+  const usable = locations.some((l) => l.id === scheduled && !l.archived);
+  return {
+    ...s,
+    date: localDate(),
+    locationId: usable ? scheduled : s.locationId,
+  };
+}
+
+/**
+ * Counted on an earlier day and never finished. A back-dated session
+ * still being counted today is not stale.
+ */
+export function isStale(s: CurrentState) {
+  const today = localDate();
+  const last = s.visits[s.visits.length - 1];
+  return (
+    s.locked &&
+    (s.date ?? today) < today &&
+    (!last || dateOfTimestamp(last.at) < today)
+  );
+}
+
+/* -------------------- Counts -------------------- */
+// NEW and OLD have their own fields; custom categories live in `counts`.
+export const countOf = (s: CurrentState, kind: VisitKind) =>
+  kind === "new"
+    ? s.newCount
+    : kind === "old"
+      ? s.oldCount
+      : (s.counts?.[kind] ?? 0);
+const withCount = (
+  s: CurrentState,
+  kind: VisitKind,
+  n: number
+): CurrentState =>
+  kind === "new"
+    ? { ...s, newCount: n }
+    : kind === "old"
+      ? { ...s, oldCount: n }
+      : { ...s, counts: normalizeCounts({ ...s.counts, [kind]: n }) };
+export const currentTotal = (s: CurrentState) =>
+  s.newCount + s.oldCount + sumCounts(s.counts);
+
+/* -------------------- Visit log -------------------- */
+export const lastVisit = (list: Visit[], kind: VisitKind) =>
+  list.filter((v) => v.kind === kind).at(-1);
+
+/** `list` without its most recent visit of `kind`, the rest in order. */
+export function dropLastVisit(list: Visit[], kind: VisitKind): Visit[] {
+  for (let i = list.length - 1; i >= 0; i--) {
+    if (list[i].kind === kind)
+      return [...list.slice(0, i), ...list.slice(i + 1)];
+  }
+  return list;
+}
+
+/** `list` with one matching entry removed per visit in `gone`. */
+export const withoutVisits = (list: Visit[], gone: Visit[]) =>
+  gone.reduce((acc, g) => {
+    const i = acc.findIndex((v) => v.at === g.at && v.kind === g.kind);
+    return i < 0 ? acc : [...acc.slice(0, i), ...acc.slice(i + 1)];
+  }, list);
+
+/* -------------------- Changes -------------------- */
+// Actions are small (a visit or two each), so the history survives reloads
+// inside the persisted CurrentState without growing it much.
+export const UNDO_LIMIT = 100;
+
+// `next`, with `action` recorded; a new action drops anything undone.
+const recorded = (
+  s: CurrentState,
+  next: CurrentState,
+  action: CounterAction
+): CurrentState => ({
+  ...next,
+  undo: [...(s.undo ?? []), action].slice(-UNDO_LIMIT),
+  redo: undefined,
+});
+
+/** One more visit of `kind`, arriving now; starts the session. */
+export function increment(s: CurrentState, kind: VisitKind): CurrentState {
+  const from = countOf(s, kind);
+  const visit = { kind, at: localTimestamp() };
+  return recorded(
+    s,
+    {
+      ...withCount(s, kind, from + 1),
+      visits: [...s.visits, visit],
+      locked: true,
+    },
+    {
+      type: "count",
+      kind,
+      from,
+      to: from + 1,
+      added: visit,
+      locked: [s.locked, true],
+    }
+  );
+}
+
+/** Takes back the latest visit of `kind`; `s` itself if there is none. */
+export function decrement(s: CurrentState, kind: VisitKind): CurrentState {
+  const from = countOf(s, kind);
+  if (from === 0) return s;
+  const gone = lastVisit(s.visits, kind);
+  const locked = s.locked || currentTotal(s) > 0;
+  return recorded(
+    s,
+    {
+      ...withCount(s, kind, from - 1),
+      visits: dropLastVisit(s.visits, kind),
+      locked,
+    },
+    {
+      type: "count",
+      kind,
+      from,
+      to: from - 1,
+      removed: gone ? [gone] : [],
+      locked: [s.locked, locked],
+    }
+  );
+}
+
+/** Sets `kind` back to zero; `s` itself if it already is. */
+export function resetCount(s: CurrentState, kind: VisitKind): CurrentState {
+  const from = countOf(s, kind);
+  if (from === 0) return s;
+  return recorded(
+    s,
+    {
+      ...withCount(s, kind, 0),
+      visits: s.visits.filter((v) => v.kind !== kind),
+    },
+    {
+      type: "count",
+      kind,
+      from,
+      to: 0,
+      removed: s.visits.filter((v) => v.kind === kind),
+      locked: [s.locked, s.locked],
+    }
+  );
+}
+
+export const withDate = (s: CurrentState, date: string) =>
+  recorded(s, { ...s, date }, { type: "date", from: s.date, to: date });
+
+export const withLocation = (s: CurrentState, locationId: string) =>
+  recorded(
+    s,
+    { ...s, locationId },
+    { type: "location", from: s.locationId, to: locationId }
+  );
+
+/* -------------------- Undo -------------------- */
+// Applies `a` again (forward) or reverts it.
+function replay(
+  s: CurrentState,
+  a: CounterAction,
+  forward: boolean
+): CurrentState {
+  if (a.type === "date") return { ...s, date: forward ? a.to : a.from };
+  if (a.type === "location")
+    return { ...s, locationId: forward ? a.to : a.from };
+  const added = a.added ? [a.added] : [];
+  const removed = a.removed ?? [];
+  return {
+    ...withCount(s, a.kind, forward ? a.to : a.from),
+    visits: [
+      ...withoutVisits(s.visits, forward ? removed : added),
+      ...(forward ? added : removed),
+    ].sort(byArrival),
+    locked: a.locked[forward ? 1 : 0],
+  };
+}
+
+/** Reverts the latest action; `s` itself if there is nothing to undo. */
+export function undoStep(s: CurrentState): CurrentState {
+  const a = s.undo?.at(-1);
+  if (!a) return s;
+  return {
+    ...replay(s, a, false),
+    undo: s.undo!.slice(0, -1),
+    redo: [...(s.redo ?? []), a],
+  };
+}
+
+/** Applies the latest undone action again. */
+export function redoStep(s: CurrentState): CurrentState {
+  const a = s.redo?.at(-1);
+  if (!a) return s;
+  return {
+    ...replay(s, a, true),
+    undo: [...(s.undo ?? []), a],
+    redo: s.redo!.slice(0, -1),
+  };
+}
@@ -0,0 +1,126 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+  addDays,
+  compareTimestamps,
+  dateOfTimestamp,
+  diffDays,
+  endOfMonth,
+  localDate,
+  localTimestamp,
+  weekdayOf,
+} from "./dates.ts";
+import { migrateLocalDate } from "./migrations.ts";
+import type { Session } from "./types.ts";
+
+// Node re-reads TZ whenever it is assigned. Test files run isolated, so
+// the zone does not leak into others.
+const zone = (tz: string) => {
+  process.env.TZ = tz;
+};
+
+describe("in Bangladesh (UTC+6)", () => {
+  beforeEach(() => zone("Asia/Dhaka"));
+
+  it("takes the local calendar day, not the UTC one", () => {
+    // 00:30 on 2 March in Dhaka is still 1 March in UTC.
+    const d = new Date("2025-03-01T18:30:00Z");
+    expect(localDate(d)).toBe("2025-03-02");
+    expect(localTimestamp(d)).toBe("2025-03-02T00:30:00.000+06:00");
+  });
+
+  it("reads the day off an offset timestamp, and a UTC one locally", () => {
+    expect(dateOfTimestamp("2025-03-02T00:30:00.000+06:00")).toBe(
+      "2025-03-02"
+    );
+    expect(dateOfTimestamp("2025-03-01T18:30:00.000Z")).toBe("2025-03-02");
+  });
+
+  it("moves a UTC-day date recorded after local midnight", () => {
+    const s = session({
+      date: "2025-03-01",
+      finishedAt: "2025-03-01T18:30:00.000Z",
+    });
+    const fixed = migrateLocalDate(s, "2025-06-01T10:00:00.000+06:00");
+    expect(fixed.date).toBe("2025-03-02");
+    expect(fixed.rev).toBe(1);
+    expect(fixed.audit).toEqual([
+      {
+        at: "2025-06-01T10:00:00.000+06:00",
+        action: "edited",
+        changes: [{ field: "date", from: "2025-03-01", to: "2025-03-02" }],
+        message: { key: "audit.note.localDate" },
+      },
+    ]);
+  });
+
+  it("leaves hand-picked, same-day and offset-bearing dates alone", () => {
+    const backdated = session({
+      date: "2025-02-20",
+      finishedAt: "2025-03-01T18:30:00.000Z",
+    });
+    const daytime = session({
+      date: "2025-03-01",
+      finishedAt: "2025-03-01T08:00:00.000Z",
+    });
+    const modern = session({
+      date: "2025-03-02",
+      finishedAt: "2025-03-02T00:30:00.000+06:00",
+    });
+    for (const s of [backdated, daytime, modern])
+      expect(migrateLocalDate(s)).toBe(s);
+  });
+});
+
+describe("in New York (UTC−5, DST from 9 March 2025)", () => {
+  beforeEach(() => zone("America/New_York"));
+
+  it("writes a negative offset, and the DST one in summer", () => {
+    expect(localTimestamp(new Date("2025-01-15T03:00:00Z"))).toBe(
+      "2025-01-14T22:00:00.000-05:00"
+    );
+    expect(localTimestamp(new Date("2025-07-15T03:00:00Z"))).toBe(
+      "2025-07-14T23:00:00.000-04:00"
+    );
+  });
+
+  it("moves a UTC-day date back to the local evening", () => {
+    const s = session({
+      date: "2025-01-15",
+      finishedAt: "2025-01-15T03:00:00.000Z",
+    });
+    expect(migrateLocalDate(s).date).toBe("2025-01-14");
+  });
+
+  it("does calendar arithmetic across the DST change", () => {
+    expect(addDays("2025-03-08", 1)).toBe("2025-03-09");
+    expect(addDays("2025-03-09", 1)).toBe("2025-03-10");
+    expect(diffDays("2025-03-01", "2025-04-01")).toBe(31);
+    expect(weekdayOf("2025-03-09")).toBe(0);
+  });
+});
+
+describe("timestamps from different zones", () => {
+  it("orders by instant, not by string", () => {
+    const dhaka = "2025-03-02T00:30:00.000+06:00"; // 18:30Z on 1 March
+    const utc = "2025-03-01T19:00:00.000Z";
+    expect(compareTimestamps(dhaka, utc)).toBeLessThan(0);
+    expect(dhaka > utc).toBe(true);
+  });
+
+  it("finds month ends, leap years included", () => {
+    expect(endOfMonth("2024-02-10")).toBe("2024-02-29");
+    expect(endOfMonth("2025-02-10")).toBe("2025-02-28");
+    expect(endOfMonth("2025-12-31")).toBe("2025-12-31");
+  });
+});
+
+function session(fields: Pick<Session, "date" | "finishedAt">): Session {
+  return {
+    sessionId: "s1",
+    locationId: "l1",
+    newCount: 1,
+    oldCount: 0,
+    total: 1,
+    ...fields,
+  };
+}
@@ -0,0 +1,62 @@
+/*
+ * Two kinds of values, never mixed:
+ * - calendar dates, "YYYY-MM-DD": a day on the device's local calendar;
+ * - timestamps, ISO 8601 with the local UTC offset, e.g.
+ *   "2025-03-02T00:30:00.000+06:00", so the wall-clock day and time read
+ *   straight off the string. Older records hold UTC ("…Z") timestamps.
+ */
+
+// Shared with server/sync-server.ts (via sync.ts), so no imports here.
+const pad = (n: number, len = 2) => String(n).padStart(len, "0");
+
+/* -------------------- Now -------------------- */
+/** The local calendar date of `d` (default: today). */
+export const localDate = (d = new Date()) =>
+  `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+
+/** `d` (default: now) as a timestamp carrying the local offset. */
+export function localTimestamp(d = new Date()) {
+  const offset = -d.getTimezoneOffset();
+  const abs = Math.abs(offset);
+  const time = `${pad(d.getHours())}:${pad(d.getMinutes())}:${pad(d.getSeconds())}`;
+  const ms = pad(d.getMilliseconds(), 3);
+  const zone = `${offset < 0 ? "-" : "+"}${pad(Math.floor(abs / 60))}:${pad(abs % 60)}`;
+  return `${localDate(d)}T${time}.${ms}${zone}`;
+}
+
+/* -------------------- Timestamps -------------------- */
+const HAS_OFFSET = /[+-]\d{2}:\d{2}$/;
+
+/**
+ * The calendar date a timestamp falls on: where it was recorded for an
+ * offset-bearing one, on this device's calendar for a UTC one.
+ */
+export const dateOfTimestamp = (ts: string) =>
+  HAS_OFFSET.test(ts) ? ts.slice(0, 10) : localDate(new Date(ts));
+
+/** Orders timestamps by instant; offsets differ, so strings can't be compared. */
+export const compareTimestamps = (a: string, b: string) =>
+  Date.parse(a) - Date.parse(b);
+
+/* -------------------- Calendar dates -------------------- */
+// Calendar dates carry no zone; do the arithmetic in UTC so no local
+// DST/offset shift can move them.
+const toUTC = (iso: string) => {
+  const [y, m, d] = iso.split("-").map(Number);
+  return Date.UTC(y, m - 1, d);
+};
+const fromUTC = (ms: number) => new Date(ms).toISOString().slice(0, 10);
+const DAY_MS = 86_400_000;
+
+export const addDays = (iso: string, n: number) =>
+  fromUTC(toUTC(iso) + n * DAY_MS);
+/** Whole days from `a` to `b` (negative if `b` is earlier). */
+export const diffDays = (a: string, b: string) =>
+  Math.round((toUTC(b) - toUTC(a)) / DAY_MS);
+/** 0 = Sunday … 6 = Saturday. */
+export const weekdayOf = (iso: string) => new Date(toUTC(iso)).getUTCDay();
+/** Last day of the month that `iso` falls in. */
+export const endOfMonth = (iso: string) => {
+  const [y, m] = iso.split("-").map(Number);
+  return fromUTC(Date.UTC(y, m, 0));
+};
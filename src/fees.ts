@@ -0,0 +1,51 @@
+import { digits, locale, t } from "./i18n.ts";
+import type { Billing, Location, Session } from "./types.ts";
+
+/* -------------------- Billing -------------------- */
+/** What a session finished at `location` is charged: its fees, no overrides. */
+export const billingFor = (location?: Location): Billing | undefined =>
+  location?.fees
+    ? { fees: { ...location.fees }, freeNew: 0, freeOld: 0, discount: 0 }
+    : undefined;
+
+/** Income from NEW and OLD patients; undefined without billing or a split. */
+export function revenueOf(
+  s: Pick<Session, "newCount" | "oldCount">,
+  b?: Billing
+): number | undefined {
+  if (!b || s.newCount === null || s.oldCount === null) return undefined;
+  const charged =
+    Math.max(0, s.newCount - b.freeNew) * b.fees.new +
+    Math.max(0, s.oldCount - b.freeOld) * b.fees.old;
+  return Math.max(0, charged - b.discount);
+}
+
+/** `s` charged per `billing`, with its stored revenue brought up to date. */
+export const withBilling = (s: Session, billing?: Billing): Session => ({
+  ...s,
+  billing,
+  revenue: revenueOf(s, billing),
+});
+
+/* -------------------- Totals -------------------- */
+export const sumRevenue = (list: Pick<Session, "revenue">[]) =>
+  list.reduce((n, s) => n + (s.revenue ?? 0), 0);
+export const hasRevenue = (list: Pick<Session, "revenue">[]) =>
+  list.some((s) => s.revenue !== undefined);
+
+/** e.g. "Tk 1,500". */
+export const fmtMoney = (n: number, currency: string) =>
+  `${currency} ${n.toLocaleString(locale(), { maximumFractionDigits: 2 })}`.trim();
+
+/** e.g. "NEW 500 · OLD 300 · 2 free · −200", for the audit trail. */
+export function fmtBilling(b: Billing) {
+  const free = b.freeNew + b.freeOld;
+  return [
+    `${t("common.new")} ${digits(b.fees.new)}`,
+    `${t("common.old")} ${digits(b.fees.old)}`,
+    free && t("billing.free", { n: free }),
+    b.discount && `−${digits(b.discount)}`,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+}
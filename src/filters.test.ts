@@ -0,0 +1,176 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  exportSelection,
+  filterSessions,
+  NO_FILTERS,
+  overTargetDays,
+  sumSessions,
+} from "./filters.ts";
+import type { HistoryFilters, Location, Session } from "./types.ts";
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+const sessions: Session[] = [
+  session("a", "2025-03-04", "clinic", { counts: { dressing: 2 }, total: 4 }),
+  session("b", "2025-03-04", "hospital"),
+  session("c", "2025-02-27", "clinic", { newCount: 0, total: 1 }),
+  session("d", "2024-03-15", "clinic"),
+];
+
+const ids = (list: Session[]) => list.map((s) => s.sessionId);
+const where = (f: Partial<HistoryFilters>) =>
+  ids(filterSessions(sessions, { ...NO_FILTERS, ...f }));
+
+describe("filterSessions", () => {
+  it("keeps everything without filters", () => {
+    expect(where({})).toEqual(["a", "b", "c", "d"]);
+  });
+
+  it("combines location, year and month", () => {
+    expect(where({ locFilter: "clinic" })).toEqual(["a", "c", "d"]);
+    expect(where({ locFilter: "clinic", yearFilter: "2025" })).toEqual([
+      "a",
+      "c",
+    ]);
+    expect(
+      where({ locFilter: "clinic", yearFilter: "2025", monthFilter: 3 })
+    ).toEqual(["a"]);
+    // A month without a year matches it in every year.
+    expect(where({ monthFilter: 3 })).toEqual(["a", "b", "d"]);
+  });
+
+  it("takes from and to as inclusive, alone or together", () => {
+    expect(where({ from: "2025-02-27" })).toEqual(["a", "b", "c"]);
+    expect(where({ to: "2025-02-27" })).toEqual(["c", "d"]);
+    expect(where({ from: "2025-02-27", to: "2025-02-27" })).toEqual(["c"]);
+    expect(where({ from: "2025-03-01", locFilter: "hospital" })).toEqual(["b"]);
+  });
+
+  it("keeps sessions that used the filtered counter", () => {
+    expect(where({ counterFilter: "dressing" })).toEqual(["a"]);
+    expect(where({ counterFilter: "new" })).toEqual(["a", "b", "d"]);
+    expect(where({ counterFilter: "new", yearFilter: "2024" })).toEqual(["d"]);
+  });
+});
+
+describe("sumSessions", () => {
+  it("adds totals, splits and custom counters", () => {
+    expect(sumSessions(sessions)).toEqual({
+      newCount: 3,
+      oldCount: 4,
+      counts: { dressing: 2 },
+      total: 9,
+    });
+  });
+
+  it("leaves the split unknown when any session lacks it", () => {
+    const imported = session("e", "2025-01-01", "clinic", {
+      newCount: null,
+      oldCount: null,
+      total: 10,
+    });
+    expect(sumSessions([...sessions, imported])).toMatchObject({
+      newCount: null,
+      oldCount: null,
+      total: 19,
+    });
+  });
+
+  it("is zero for no sessions", () => {
+    expect(sumSessions([])).toEqual({
+      newCount: 0,
+      oldCount: 0,
+      counts: undefined,
+      total: 0,
+    });
+  });
+});
+
+describe("overTargetDays", () => {
+  const locations: Location[] = [
+    { id: "clinic", name: "Clinic", archived: false, target: 3 },
+    { id: "hospital", name: "Hospital", archived: false },
+  ];
+
+  it("adds up every session of a day before comparing", () => {
+    const list = [
+      ...sessions,
+      session("e", "2025-02-27", "clinic"), // 1 + 2 = 3: at, not over
+      session("f", "2024-03-15", "clinic"), // 2 + 2 = 4
+      session("g", "2025-03-04", "hospital", { total: 50 }), // no target
+    ];
+    expect(overTargetDays(list, locations)).toEqual(
+      new Set(["2025-03-04|clinic", "2024-03-15|clinic"])
+    );
+  });
+});
+
+describe("exportSelection", () => {
+  const name = (id: string) => (id === "clinic" ? "Clinic" : id);
+
+  it("takes today's sessions for TODAY", () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(2025, 2, 4, 12));
+    const sel = exportSelection("TODAY", sessions, NO_FILTERS, name);
+    expect(ids(sel.list)).toEqual(["a", "b"]);
+    expect(sel.scopeLabel).toBe("Today");
+    expect(sel.period).toEqual({
+      start: "2025-03-04",
+      end: "2025-03-04",
+      label: "04/03/2025",
+    });
+  });
+
+  it("follows the filters and their calendar period for FILTERED", () => {
+    const filters = { ...NO_FILTERS, locFilter: "clinic", yearFilter: "2025" };
+    const sel = exportSelection("FILTERED", sessions, filters, name);
+    expect(ids(sel.list)).toEqual(["a", "c"]);
+    expect(sel.scopeLabel).toBe("Clinic");
+    expect(sel.period).toMatchObject({
+      start: "2025-01-01",
+      end: "2025-12-31",
+    });
+  });
+
+  it("falls back to the span of the filtered sessions", () => {
+    const filters = { ...NO_FILTERS, counterFilter: "dressing" };
+    const sel = exportSelection("FILTERED", sessions, filters, name);
+    expect(sel.scopeLabel).toBe("All locations");
+    expect(sel.period).toEqual({
+      start: "2025-03-04",
+      end: "2025-03-04",
+      label: "04/03/2025",
+    });
+  });
+
+  it("spans every session for ALL, ignoring the filters", () => {
+    const filters = { ...NO_FILTERS, locFilter: "hospital" };
+    const sel = exportSelection("ALL", sessions, filters, name);
+    expect(sel.list).toHaveLength(4);
+    expect(sel.period).toMatchObject({
+      start: "2024-03-15",
+      end: "2025-03-04",
+    });
+    expect(exportSelection("ALL", [], filters, name).period).toBeNull();
+  });
+});
+
+function session(
+  sessionId: string,
+  date: string,
+  locationId: string,
+  fields: Partial<Session> = {}
+): Session {
+  return {
+    sessionId,
+    date,
+    locationId,
+    newCount: 1,
+    oldCount: 1,
+    total: 2,
+    finishedAt: `${date}T12:00:00.000+06:00`,
+    ...fields,
+  };
+}
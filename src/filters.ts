@@ -0,0 +1,109 @@
+import { addCounts, countIn } from "./counters.ts";
+import { localDate } from "./dates.ts";
+import { t } from "./i18n.ts";
+import { periodOf, spanOf, type Period } from "./periods.ts";
+import type {
+  CategoryCounts,
+  HistoryFilters,
+  Location,
+  Session,
+} from "./types.ts";
+import { addSplit, formatDateDMY } from "./utils.ts";
+
+/* -------------------- Filters -------------------- */
+export const NO_FILTERS: HistoryFilters = {
+  locFilter: "ALL",
+  yearFilter: "ALL",
+  monthFilter: 0,
+  counterFilter: "ALL",
+  from: "",
+  to: "",
+};
+
+/** Sessions matching every set filter; a counter filter keeps those that used it. */
+export const filterSessions = (sessions: Session[], f: HistoryFilters) =>
+  sessions.filter(
+    (s) =>
+      (f.locFilter === "ALL" || s.locationId === f.locFilter) &&
+      (f.yearFilter === "ALL" || s.date.slice(0, 4) === f.yearFilter) &&
+      (f.monthFilter === 0 || Number(s.date.slice(5, 7)) === f.monthFilter) &&
+      (!f.from || s.date >= f.from) &&
+      (!f.to || s.date <= f.to) &&
+      (f.counterFilter === "ALL" || Boolean(countIn(s, f.counterFilter)))
+  );
+
+/* -------------------- Totals -------------------- */
+export type Totals = {
+  newCount: number | null; // null unless every session knows its split
+  oldCount: number | null;
+  counts?: CategoryCounts;
+  total: number;
+};
+
+export const sumSessions = (sessions: Session[]): Totals =>
+  sessions.reduce<Totals>(
+    (acc, s) => ({
+      newCount: addSplit(acc.newCount, s.newCount),
+      oldCount: addSplit(acc.oldCount, s.oldCount),
+      counts: addCounts(acc.counts, s.counts),
+      total: acc.total + s.total,
+    }),
+    { newCount: 0, oldCount: 0, counts: undefined, total: 0 }
+  );
+
+/**
+ * "date|locationId" of each day whose patients passed the location's
+ * current target.
+ */
+export function overTargetDays(sessions: Session[], locations: Location[]) {
+  const targets = new Map(locations.map((l) => [l.id, l.target]));
+  const days = new Map<string, number>();
+  sessions.forEach((s) => {
+    const key = `${s.date}|${s.locationId}`;
+    days.set(key, (days.get(key) ?? 0) + s.total);
+  });
+  return new Set(
+    Array.from(days.entries())
+      .filter(([key, n]) => {
+        const target = targets.get(key.split("|")[1]);
+        return target !== undefined && n > target;
+      })
+      .map(([key]) => key)
+  );
+}
+
+/* -------------------- Export scope -------------------- */
+export type ExportScope = "ALL" | "FILTERED" | "TODAY";
+
+/** The sessions an export covers, with the label and period it is titled by. */
+export function exportSelection(
+  scope: ExportScope,
+  sessions: Session[], // deleted ones already left out
+  filters: HistoryFilters,
+  locationName: (id: string) => string
+): { list: Session[]; scopeLabel: string; period: Period | null } {
+  if (scope === "TODAY") {
+    const today = localDate();
+    return {
+      list: sessions.filter((s) => s.date === today),
+      scopeLabel: t("common.today"),
+      period: { start: today, end: today, label: formatDateDMY(today) },
+    };
+  }
+  if (scope === "FILTERED") {
+    const list = filterSessions(sessions, filters);
+    return {
+      list,
+      scopeLabel:
+        filters.locFilter === "ALL"
+          ? t("common.allLocations")
+          : locationName(filters.locFilter),
+      period: periodOf(filters, list) ?? spanOf(list),
+    };
+  }
+  return {
+    list: sessions,
+    scopeLabel: t("common.allLocations"),
+    period: spanOf(sessions),
+  };
+}
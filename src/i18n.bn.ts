@@ -0,0 +1,437 @@
+import type { MessageKey } from "./i18n.en.ts";
+
+/* -------------------- Bangla -------------------- */
+// Bangla has one plural form, so no message here uses "one|many".
+export const bn: Record<MessageKey, string> = {
+  /* App */
+  "app.title": "রোগী গণনা",
+  "app.lock": "লক করুন",
+  "app.profile": "প্রোফাইল: {name}",
+  "app.exportPdf": "পিডিএফ এক্সপোর্ট",
+  "app.loading": "লোড হচ্ছে…",
+  "app.openFailed": "আপনার ডেটা খোলা যায়নি",
+  "app.nothingDeleted": "কিছুই মুছে ফেলা হয়নি।",
+  "app.continueWithout": "এটি ছাড়াই চালিয়ে যান",
+
+  /* Shared */
+  "common.new": "নতুন",
+  "common.old": "পুরাতন",
+  "common.total": "মোট",
+  "common.date": "তারিখ",
+  "common.location": "স্থান",
+  "common.income": "আয়",
+  "common.sessions": "সেশন",
+  "common.other": "অন্যান্য",
+  "common.unknownLocation": "অজানা স্থান",
+  "common.allLocations": "সব স্থান",
+  "common.today": "আজ",
+  "common.noEntries": "কোনো এন্ট্রি নেই।",
+  "common.splitUnknown": "ভাগ জানা নেই",
+  "common.archived": "আর্কাইভ করা",
+  "common.archivedSuffix": " (আর্কাইভ করা)",
+  "common.retry": "আবার চেষ্টা করুন",
+  "common.undo": "পূর্বাবস্থা",
+  "common.redo": "পুনরায় করুন",
+  "common.edit": "সম্পাদনা",
+  "common.delete": "মুছুন",
+  "common.archive": "আর্কাইভ",
+  "common.restore": "ফিরিয়ে আনুন",
+  "common.add": "যোগ করুন",
+  "common.save": "সংরক্ষণ",
+  "common.cancel": "বাতিল",
+  "common.done": "সম্পন্ন",
+  "common.ok": "ঠিক আছে",
+  "common.yes": "হ্যাঁ",
+  "common.no": "না",
+  "common.none": "নেই",
+  "common.off": "বন্ধ",
+
+  /* Dates */
+  "weekdays.short": "রবি,সোম,মঙ্গল,বুধ,বৃহঃ,শুক্র,শনি",
+  "shift.morning": "সকাল",
+  "shift.afternoon": "দুপুর",
+  "shift.evening": "সন্ধ্যা",
+
+  /* Counter screen */
+  "main.filters": "ফিল্টার",
+  "main.select": "বাছাই করুন",
+  "main.manageLocations": "স্থান পরিচালনা",
+  "main.offSchedule": "এই সেশন শুরুর সময়ে {location} আপনার সময়সূচিতে নেই।",
+  "main.total": "মোট:",
+  "main.history": "ইতিহাস",
+  "main.finish": "শেষ করুন",
+  "main.finishHint": "শেষ করলে আজকের সেশন বন্ধ হয়ে ইতিহাসে জমা হয়।",
+  "counter.fallback": "কাউন্টার",
+  "counter.capReached": "দৈনিক সীমা পূর্ণ",
+  "counter.reset": "শূন্য করুন",
+  "counter.add": "{label}-এ এক যোগ করুন",
+  "counter.remove": "{label} থেকে এক কমান",
+  "counter.decremented": "{label} −{n}",
+  "counter.wasReset": "{label} শূন্য করা হয়েছে",
+  "tap.open": "ট্যাপ মোড",
+  "tap.exit": "ট্যাপ মোড বন্ধ করুন",
+  "tap.doubleTapHint": "কমাতে টাইলে ডাবল-ট্যাপ করুন।",
+
+  /* Daily target and cap */
+  "day.hereToday": "আজ এখানে {n} জন · ",
+  "day.capReached": "দৈনিক সীমা {cap} পূর্ণ",
+  "day.overTarget": "লক্ষ্য {target} থেকে {over} জন বেশি",
+  "day.targetReached": "লক্ষ্য {target} পূর্ণ",
+  "day.toTarget": "লক্ষ্য {target} পূরণে আর {left} জন",
+  "day.toCap": "সীমা {cap} পর্যন্ত আর {left} জন",
+
+  /* Finishing */
+  "finish.title": "সেশন বন্ধ করবেন?",
+  "finish.mergeQuestion":
+    "{date} তারিখে {location}-এর একটি সেশনে ইতিমধ্যে {existing} জন রোগী আছে। আজকের {total} জন এতে যোগ করবেন, নাকি আলাদা শিফট হিসেবে রাখবেন?",
+  "finish.merge": "আগেরটির সাথে যোগ করুন",
+  "finish.separate": "আলাদা শিফট রাখুন",
+  "finish.confirm": "আপনি কি আজকের সেশন বন্ধ করতে চান?",
+  "stale.title": "অসমাপ্ত সেশন",
+  "stale.body":
+    "{date} তারিখে {location}-এ গণনা করা {n} জন রোগীর সেশন শেষ করা হয়নি।",
+  "stale.noLocation": "অনির্ধারিত স্থান",
+  "stale.finishOn": "{date} তারিখে শেষ করুন",
+  "stale.carryOver": "আজকের দিনে নিয়ে আসুন",
+  "stale.discard": "গণনা বাদ দিন",
+  "stale.autoFinished": "খোলা সেশনটি {time}-এ স্বয়ংক্রিয়ভাবে শেষ করা হয়েছে",
+  "reminder.title": "সেশন এখনও খোলা",
+  "reminder.body": "{slot} শেষ হয়েছে। সংরক্ষণ করতে সেশনটি শেষ করুন।",
+
+  /* History */
+  "history.title": "ইতিহাস",
+  "history.export": "এক্সপোর্ট",
+  "history.allYears": "সব বছর",
+  "history.allMonths": "সব মাস",
+  "history.allCounters": "সব কাউন্টার",
+  "history.exportFormat": "এক্সপোর্ট ফরম্যাট",
+  "history.excel": "এক্সেল (XLSX)",
+  "history.template": "রিপোর্টের ধরন",
+  "history.detailed": "বিস্তারিত তালিকা",
+  "history.exportToday": "আজকেরটা এক্সপোর্ট",
+  "history.exportAll": "সব এক্সপোর্ট",
+  "history.importCsv": "CSV ইমপোর্ট",
+  "history.view.list": "তালিকা",
+  "history.view.calendar": "ক্যালেন্ডার",
+  "history.view.dashboard": "ড্যাশবোর্ড",
+  "history.overTarget": "দৈনিক লক্ষ্যের বেশি",
+  "history.sessions": "{n}টি সেশন",
+  "history.daysOverTarget": "{n} দিন লক্ষ্যের বেশি",
+  "history.deleted": "সেশন মুছে ফেলা হয়েছে",
+
+  /* Calendar */
+  "calendar.previous": "আগের মাস",
+  "calendar.next": "পরের মাস",
+  "calendar.startFor": "{date} তারিখের জন্য এন্ট্রি শুরু করুন",
+  "calendar.hint":
+    "সেশন দেখতে একটি দিনে ট্যাপ করুন, অথবা খালি পুরোনো দিনে ট্যাপ করে সেই দিনের গণনা করুন।",
+  "calendar.hintLocked":
+    "সেশন দেখতে একটি দিনে ট্যাপ করুন। অন্য দিনের গণনা করতে খোলা সেশনটি শেষ করুন।",
+
+  /* Dashboard */
+  "dashboard.patients": "রোগী",
+  "dashboard.avgSession": "গড় / সেশন",
+  "dashboard.avgDay": "গড় / দিন",
+  "dashboard.avg": "গড়",
+  "dashboard.incomeDay": "আয় / দিন",
+  "dashboard.versus": "{now} বনাম {before}",
+  "dashboard.trend": "প্রবণতা",
+  "dashboard.day": "দিন",
+  "dashboard.week": "সপ্তাহ",
+  "dashboard.month": "মাস",
+  "dashboard.weekOf": "{date} থেকে সপ্তাহ",
+  "dashboard.busiest": "ব্যস্ততম বার",
+  "dashboard.busiestHint": "কাজের দিনে গড় রোগী। সবচেয়ে ব্যস্ত: {day}।",
+  "dashboard.perLocation": "স্থান অনুযায়ী",
+
+  /* Session detail */
+  "detail.needsSplit": " · নতুন/পুরাতন ভাগ প্রয়োজন",
+  "detail.noTimes": "এই সেশনে আগমনের সময় রেকর্ড করা হয়নি।",
+  "detail.firstPatient": "প্রথম রোগী: ",
+  "detail.lastPatient": "শেষ রোগী: ",
+  "detail.perHour": "ঘণ্টাপ্রতি রোগী",
+  "detail.timeline": "আগমনের সময়রেখা",
+  "detail.untimed":
+    "আগমনের সময় রেকর্ড শুরুর আগে {n} জন রোগী গণনা করা হয়েছিল।",
+  "detail.mergedFinishes": "যুক্ত করা সমাপ্তি",
+  "detail.unmerge": "আলাদা করুন",
+  "detail.unmergeHint": "আলাদা আলাদা সেশনে ভাগ করুন",
+  "detail.unmergeBlocked": "যুক্ত করার পরে গণনা সম্পাদনা করা হয়েছে",
+  "detail.audit": "পরিবর্তনের ইতিহাস",
+  "audit.created": "তৈরি",
+  "audit.edited": "সম্পাদিত",
+  "audit.merged": "যুক্ত",
+  "audit.split": "ভাগ করা",
+  "audit.deleted": "মুছে ফেলা",
+  "audit.restored": "ফিরিয়ে আনা",
+  "audit.note.mergedIn": "পরের একটি সমাপ্তি থেকে +{n}",
+  "audit.note.splitOut": "{n}টি সমাপ্তি আলাদা করা হয়েছে",
+  "audit.note.splitFrom": "{id} থেকে আলাদা করা",
+  "audit.note.imported": "CSV থেকে ইমপোর্ট করা",
+  "audit.note.localDate": "তারিখ স্থানীয় সময়ে সংশোধন করা হয়েছে",
+  "audit.field.shift": "শিফট",
+  "audit.field.counts": "অন্যান্য কাউন্টার",
+  "audit.field.billing": "ফি",
+
+  /* Session editor */
+  "editor.title": "সেশন সম্পাদনা",
+  "editor.shift": "শিফট",
+  "editor.splitHint": "ভাগ জানা না থাকলে নতুন বা পুরাতন খালি রাখুন।",
+  "editor.trackIncome": "আয়ের হিসাব রাখুন",
+  "editor.untrackIncome": "এই সেশনের আয়ের হিসাব রাখবেন না",
+  "billing.newFee": "নতুন ফি",
+  "billing.oldFee": "পুরাতন ফি",
+  "billing.discount": "ছাড়",
+  "billing.freeNew": "বিনামূল্যে নতুন",
+  "billing.freeOld": "বিনামূল্যে পুরাতন",
+  "billing.free": "{n} জন বিনামূল্যে",
+
+  /* Locations */
+  "locations.title": "স্থানসমূহ",
+  "locations.defaultName": "স্থান {n}",
+  "locations.moveUp": "উপরে নিন",
+  "locations.moveDown": "নিচে নিন",
+  "locations.details": "বিস্তারিত",
+  "locations.address": "ঠিকানা",
+  "locations.chamberType": "চেম্বারের ধরন (যেমন হাসপাতাল, প্রাইভেট চেম্বার)",
+  "locations.fee": "{kind} ফি ({currency})",
+  "locations.notTracked": "হিসাব নেই",
+  "locations.target": "দৈনিক লক্ষ্য",
+  "locations.cap": "দৈনিক সীমা",
+  "locations.noLimit": "সীমা নেই",
+  "locations.targetHint":
+    "দিনের রোগী লক্ষ্যে পৌঁছালে সতর্ক করা হয়; সীমায় পৌঁছালে গণনা থেমে যায়।",
+  "locations.savedSessions": "{n}টি সংরক্ষিত সেশন",
+  "locations.sessions": "{n}টি সেশন",
+  "locations.new": "নতুন স্থান",
+  "locations.hospital": "হাসপাতাল",
+  "locations.clinic": "ক্লিনিক",
+  "locations.privateChamber": "প্রাইভেট চেম্বার",
+  "locations.diagnosticCentre": "ডায়াগনস্টিক সেন্টার",
+
+  /* Counter categories */
+  "counters.title": "কাউন্টার",
+  "counters.hint":
+    "নতুন ও পুরাতনের পাশে বাড়তি টাইল, যেমন প্রসিডিউর বা রেফারেল। এগুলো সেশনের মোটে যোগ হয়।",
+  "counters.defaultName": "কাউন্টার {n}",
+  "counters.colour": "রং",
+  "counters.shownAt": "যেখানে দেখাবে",
+  "counters.max": "সর্বোচ্চ {n}টি কাউন্টার",
+  "counters.new": "নতুন কাউন্টার",
+  "counters.unknown": "অন্য কাউন্টার",
+  "colour.green": "সবুজ",
+  "colour.amber": "হলুদ",
+  "colour.red": "লাল",
+  "colour.purple": "বেগুনি",
+  "colour.teal": "নীলচে সবুজ",
+
+  /* Schedule */
+  "schedule.title": "চেম্বারের সময়সূচি",
+  "schedule.hint":
+    "অ্যাপ খুললে এখনকার নির্ধারিত স্থান বাছাই থাকে, আর অন্য কোথাও গণনা শুরু হলে সতর্ক করে।",
+  "schedule.remove": "সরান",
+  "schedule.to": "থেকে",
+  "schedule.add": "সময় যোগ করুন",
+  "schedule.needLocation": "আগে একটি স্থান যোগ করুন।",
+  "schedule.noDays": "কোনো দিন নেই",
+
+  /* Settings */
+  "settings.title": "সেটিংস",
+  "settings.language": "ভাষা",
+  "settings.doctorName": "ডাক্তারের নাম (রিপোর্টের জন্য)",
+  "settings.doctorPlaceholder": "যেমন ডা. রহমান",
+  "settings.sameDay": "একই তারিখ ও স্থান",
+  "settings.merge": "যোগ করুন",
+  "settings.mergeHint": "ওই তারিখ ও স্থানের আগের সেশনে যোগ করা হবে।",
+  "settings.separate": "আলাদা শিফট রাখুন",
+  "settings.separateHint":
+    "প্রতিবার শেষ করাকে আলাদা সকাল/দুপুর/সন্ধ্যার সেশন হিসেবে রাখা হবে।",
+  "settings.ask": "প্রতিবার জিজ্ঞেস করুন",
+  "settings.askHint": "ওই তারিখ ও স্থানের সেশন থাকলে তখন বেছে নিন।",
+  "settings.counters": "কাউন্টার",
+  "settings.countersNone": "শুধু নতুন ও পুরাতন",
+  "settings.editMore": "সম্পাদনা…",
+  "settings.noSchedule": "কোনো সময়সূচি নেই",
+  "settings.reminders":
+    "নির্ধারিত সময় শেষ হওয়ার পরও সেশন খোলা থাকলে মনে করিয়ে দিন",
+  "settings.notificationsBlocked":
+    "ব্রাউজারে এই সাইটের নোটিফিকেশন বন্ধ করা আছে।",
+  "settings.autoFinish": "খোলা সেশন স্বয়ংক্রিয়ভাবে শেষ হবে",
+  "settings.autoFinishHint":
+    "সবসময় নিজে শেষ করতে খালি রাখুন। রাতভর খোলা থাকা সেশন অ্যাপ খুললে শেষ করার জন্য দেখানো হয়।",
+  "settings.counting": "গণনা",
+  "settings.keyboard": "কীবোর্ড শর্টকাট",
+  "settings.keyboardHint":
+    "N ও O চাপলে নতুন ও পুরাতন গণনা হয়, ১–৯ চাপলে অতিরিক্ত কাউন্টার; কমাতে Shift চেপে রাখুন। Ctrl+Z চাপলে পূর্বাবস্থায় ফেরে।",
+  "settings.clicker": "ক্লিকার ও ভলিউম বোতাম",
+  "settings.clickerNextNew": "পরবর্তী → নতুন, আগের → পুরাতন",
+  "settings.clickerNextOld": "পরবর্তী → পুরাতন, আগের → নতুন",
+  "settings.clickerHint":
+    "প্রেজেন্টেশন ক্লিকার ও ক্যামেরা-শাটার রিমোটের জন্য। পরবর্তী মানে Page Down, → বা ভলিউম বাড়ানো; কিছু ফোন ভলিউম বোতাম নিজের জন্য রেখে দেয়।",
+  "settings.doubleTap": "ট্যাপ মোডে ডাবল-ট্যাপে কমান",
+  "settings.doubleTapMs": "{ms} মি.সে.",
+  "settings.doubleTapHint":
+    "তখন একবার ট্যাপ করলে গণনার আগে এতক্ষণ অপেক্ষা করে।",
+  "settings.keepAwake": "গণনার সময় স্ক্রিন চালু রাখুন",
+  "settings.currency": "মুদ্রা",
+  "settings.currencyPlaceholder": "যেমন ৳",
+  "settings.feesHint":
+    "পরামর্শ ফি প্রতিটি স্থানের জন্য, স্থানসমূহে ঠিক করা হয়।",
+  "settings.backup": "ব্যাকআপ",
+  "settings.downloadBackup": "ব্যাকআপ ডাউনলোড",
+  "settings.restore": "পুনরুদ্ধার…",
+  "settings.backupHint": "ইতিহাস, স্থান, খোলা সেশন ও সেটিংস সহ।",
+  "settings.restored": "ব্যাকআপ থেকে {n}টি সেশন পুনরুদ্ধার করা হয়েছে",
+  "settings.merged": "ব্যাকআপ যুক্ত: {added}টি নতুন, {updated}টি হালনাগাদ",
+  "settings.sync": "সিঙ্ক",
+  "settings.syncUrl": "সার্ভার URL, যেমন http://192.168.0.10:8787",
+  "settings.syncToken": "অ্যাক্সেস টোকেন (ঐচ্ছিক)",
+  "settings.syncing": "সিঙ্ক হচ্ছে…",
+  "settings.syncFailed": "সিঙ্ক ব্যর্থ হয়েছে।",
+  "settings.lastSynced": "শেষ সিঙ্ক {time}",
+  "settings.notSynced": "এখনও সিঙ্ক হয়নি",
+  "settings.syncNow": "এখনই সিঙ্ক",
+
+  /* Profiles and PIN */
+  "profiles.title": "প্রোফাইল",
+  "profiles.default": "ডিফল্ট",
+  "profiles.current": "চলতি",
+  "profiles.switch": "বদলান",
+  "profiles.switchTo": "প্রোফাইল বদলান",
+  "profiles.newPlaceholder": "নতুন প্রোফাইল, যেমন ডা. করিম",
+  "profiles.add": "প্রোফাইল যোগ করুন",
+  "profiles.delete": "এই প্রোফাইল মুছুন",
+  "profiles.deleteConfirm": "{name} এবং এই ডিভাইসে এর সব ইতিহাস মুছে ফেলবেন?",
+  "profiles.keep": "রেখে দিন",
+  "pin.placeholder": "পিন",
+  "pin.unlock": "আনলক করুন",
+  "pin.unlocking": "আনলক হচ্ছে…",
+  "pin.biometric": "আঙুলের ছাপ বা মুখ",
+  "pin.wrong": "ভুল পিন",
+  "pin.unlockFailed": "আনলক করা যায়নি",
+  "pin.for": "{name}-এর পিন",
+  "pin.set": "পিন সেট করুন",
+  "pin.change": "পিন বদলান",
+  "pin.remove": "পিন সরান",
+  "pin.current": "বর্তমান পিন",
+  "pin.new": "নতুন পিন",
+  "pin.repeat": "পিন আবার লিখুন",
+  "pin.invalid": "৪–৮টি অঙ্ক দিন",
+  "pin.mismatch": "পিন দুটি মেলেনি",
+  "pin.wrongCurrent": "বর্তমান পিন ভুল",
+  "pin.saveFailed": "লক সংরক্ষণ করা যায়নি",
+  "pin.confirmRemove": "সরান",
+  "pin.continue": "চালিয়ে যান",
+  "pin.save": "পিন সংরক্ষণ",
+  "pin.useBiometric": "আঙুলের ছাপ বা মুখ দিয়ে আনলক",
+  "pin.autoLock": "নিষ্ক্রিয় থাকলে লক হবে",
+  "pin.never": "কখনো না",
+  "pin.minutes": "{n} মিনিট",
+  "pin.encryptedHint":
+    "ইতিহাস ও স্থান এই ডিভাইসে এমন একটি কী দিয়ে এনক্রিপ্ট করা থাকে যা শুধু আপনার পিন (বা আঙুলের ছাপ) খুলতে পারে।",
+  "pin.lockNow": "এখনই লক করুন",
+  "lock.biometricUnlock":
+    "এই ডিভাইসের বায়োমেট্রিক এনক্রিপ্ট করা ডেটা খুলতে পারে না। পিন ব্যবহার করুন।",
+  "lock.biometricProtect":
+    "এই ডিভাইসের বায়োমেট্রিক এনক্রিপ্ট করা ডেটা সুরক্ষিত রাখতে পারে না। পিনই ব্যবহার করুন।",
+
+  /* CSV import */
+  "import.chooseFile": "একটি .csv ফাইল বাছুন",
+  "import.columns": "কলাম",
+  "import.noColumn": "— নেই —",
+  "import.column": "কলাম {n}",
+  "import.summary":
+    "{valid}টি সঠিক · {errors}টিতে ভুল · {duplicates}টি আগে থেকেই আছে",
+  "import.skipDuplicates": "আগে থেকে থাকাগুলো বাদ দিন",
+  "import.duplicate": "এই তারিখ ও স্থানের জন্য ইতিহাসে আগে থেকেই আছে",
+  "import.submit": "ইমপোর্ট",
+  "import.submitCount": "{n}টি ইমপোর্ট",
+  "import.badDate": "তারিখ ভুল বা নেই",
+  "import.noLocation": "স্থান নেই",
+  "import.badShift": "শিফট সকাল/দুপুর/সন্ধ্যা হতে হবে",
+  "import.notWhole": "সংখ্যাগুলো পূর্ণসংখ্যা হতে হবে",
+  "import.totalMismatch": "মোট নতুন + পুরাতনের সমান নয়",
+  "import.totalMismatchCounters":
+    "মোট নতুন + পুরাতন + অন্যান্য কাউন্টারের সমান নয়",
+  "import.totalBelowCounters": "মোট অন্যান্য কাউন্টারের চেয়ে কম",
+  "import.needSplitOrTotal": "নতুন ও পুরাতন দুটোই দিন, অথবা মোট দিন",
+  "import.totalZero": "মোট ০-এর বেশি হতে হবে",
+
+  /* Backup and restore */
+  "restore.title": "ব্যাকআপ পুনরুদ্ধার",
+  "restore.chooseFile": "একটি ব্যাকআপ (.json) বাছুন",
+  "restore.unreadable": "এই ফাইলটি পড়া যায়নি।",
+  "restore.created": "তৈরি {at}",
+  "restore.contents":
+    "{sessions}টি সেশন · {locations}টি স্থান · {patients} জন রোগী",
+  "restore.merge": "একত্র করুন",
+  "restore.mergeHint": "এই ডিভাইসে নেই এমন সেশন ও স্থান যোগ করুন।",
+  "restore.replace": "প্রতিস্থাপন",
+  "restore.replaceHint": "এই ডিভাইসের সবকিছু বাদ দিয়ে ব্যাকআপটি ব্যবহার করুন।",
+  "restore.conflicts": "{n}টি সেশন এই ডিভাইস ও ব্যাকআপে আলাদা। রাখুন:",
+  "restore.keepNewer": "সবশেষে বদলানো কপি",
+  "restore.keepMine": "এই ডিভাইসের কপি",
+  "restore.keepBackup": "ব্যাকআপের কপি",
+  "restore.confirmReplace": "আমি বুঝেছি, এই ডিভাইসের বর্তমান ডেটা মুছে যাবে।",
+  "backup.notJson": "এই ফাইলটি সঠিক JSON নয়।",
+  "backup.notBackup": "এটি রোগী গণনার ব্যাকআপ নয়।",
+  "backup.tooNew":
+    "এই ব্যাকআপ অ্যাপের নতুন সংস্করণে তৈরি। অ্যাপ হালনাগাদ করে আবার চেষ্টা করুন।",
+  "backup.damaged": "এই ব্যাকআপের কিছু সেশন বা স্থান নষ্ট হয়ে গেছে।",
+  "backup.noSessions": "এই ব্যাকআপে সেশনের ডেটা নেই।",
+
+  /* Storage and sync errors */
+  "storage.failed": "{action} যায়নি: {detail}।",
+  "storage.outOfSpace": "ডিভাইসে জায়গা নেই",
+  "storage.unknownError": "অজানা সমস্যা",
+  "storage.unavailable": "এই ব্রাউজার ডেটা রাখতে পারে না (IndexedDB)",
+  "storage.blocked": "অ্যাপের অন্য ট্যাবগুলো বন্ধ করে আবার চেষ্টা করুন",
+  "storage.aborted": "পরিবর্তনটি বাতিল হয়েছে",
+  "storage.locked": "এই প্রোফাইলটি লক করা।",
+  "storage.damaged": '"{key}"-এর সংরক্ষিত ডেটা নষ্ট হয়ে গেছে, পড়া যায়নি।',
+  "storage.mainProfile": "মূল প্রোফাইল মুছে ফেলা যায় না।",
+  "storage.openData": "আপনার সংরক্ষিত ডেটা খোলা",
+  "storage.saveData": "আপনার ডেটা সংরক্ষণ করা",
+  "storage.encrypt": "আপনার ডেটা এনক্রিপ্ট করা",
+  "storage.decrypt": "আপনার ডেটা ডিক্রিপ্ট করা",
+  "storage.saveHistory": "আপনার ইতিহাস সংরক্ষণ করা",
+  "storage.saveLocations": "আপনার স্থানগুলো সংরক্ষণ করা",
+  "storage.saveDateFix": "তারিখের সংশোধন সংরক্ষণ করা",
+  "storage.saveCurrent": "চলতি সেশন সংরক্ষণ করা",
+  "storage.saveSettings": "আপনার সেটিংস সংরক্ষণ করা",
+  "storage.readOutbox": "সিঙ্কের সারি পড়া",
+  "storage.updateOutbox": "সিঙ্কের সারি হালনাগাদ করা",
+  "storage.readSyncState": "সিঙ্কের অবস্থা পড়া",
+  "storage.saveSyncState": "সিঙ্কের অবস্থা সংরক্ষণ করা",
+  "storage.openProfiles": "আপনার প্রোফাইলগুলো খোলা",
+  "storage.saveProfiles": "আপনার প্রোফাইলগুলো সংরক্ষণ করা",
+  "storage.readLanguage": "ভাষা পড়া",
+  "storage.saveLanguage": "ভাষা সংরক্ষণ করা",
+  "storage.deleteProfile": "প্রোফাইল মুছে ফেলা",
+  "sync.unreachable": "সিঙ্ক সার্ভারে পৌঁছানো যায়নি।",
+  "sync.badToken": "সিঙ্ক সার্ভার অ্যাক্সেস টোকেন গ্রহণ করেনি।",
+  "sync.serverStatus": "সিঙ্ক সার্ভারের উত্তর: {status}।",
+  "sync.profileChanged": "সিঙ্কের সময় প্রোফাইল বদলে গেছে।",
+
+  /* PDF report */
+  "report.detailed": "বিস্তারিত রিপোর্ট",
+  "report.monthly": "মাসিক সারাংশ",
+  "report.month": "মাস",
+  "report.allDates": "সব তারিখ",
+  "report.generated": "প্রোফাইল: {profile} · তৈরি {at}",
+  "report.incomeColumn": "আয় ({currency})",
+  "report.subtotal": "উপমোট {location}",
+  "report.totalOf": "মোট {month}",
+  "report.monthTotal": "মাসের মোট",
+  "report.grandTotal": "সর্বমোট",
+  "report.grandTotalSessions": "সর্বমোট ({n}টি সেশন)",
+  "report.fontFailed":
+    "বাংলা ফন্ট লোড করা যায়নি। ইন্টারনেটে সংযুক্ত হয়ে আবার চেষ্টা করুন।",
+  "report.exportFailed": "পিডিএফ তৈরি করা যায়নি।",
+  "report.page": "পৃষ্ঠা {page} / {pages}",
+
+  /* Updates */
+  "update.available": "নতুন সংস্করণ এসেছে",
+  "update.reload": "রিলোড",
+  "update.later": "পরে",
+};
@@ -0,0 +1,447 @@
+/* -------------------- English -------------------- */
+// The source catalog: its keys are the message keys, and every other
+// language must translate all of them.
+export const en = {
+  /* App */
+  "app.title": "Patient Counter",
+  "app.lock": "Lock",
+  "app.profile": "Profile: {name}",
+  "app.exportPdf": "Export PDF",
+  "app.loading": "Loading…",
+  "app.openFailed": "Your data could not be opened",
+  "app.nothingDeleted": "Nothing has been deleted.",
+  "app.continueWithout": "Continue without it",
+
+  /* Shared */
+  "common.new": "NEW",
+  "common.old": "OLD",
+  "common.total": "Total",
+  "common.date": "Date",
+  "common.location": "Location",
+  "common.income": "Income",
+  "common.sessions": "Sessions",
+  "common.other": "Other",
+  "common.unknownLocation": "Unknown location",
+  "common.allLocations": "All locations",
+  "common.today": "Today",
+  "common.noEntries": "No entries.",
+  "common.splitUnknown": "Split unknown",
+  "common.archived": "Archived",
+  "common.archivedSuffix": " (archived)",
+  "common.retry": "Retry",
+  "common.undo": "Undo",
+  "common.redo": "Redo",
+  "common.edit": "Edit",
+  "common.delete": "Delete",
+  "common.archive": "Archive",
+  "common.restore": "Restore",
+  "common.add": "Add",
+  "common.save": "Save",
+  "common.cancel": "Cancel",
+  "common.done": "Done",
+  "common.ok": "OK",
+  "common.yes": "Yes",
+  "common.no": "No",
+  "common.none": "None",
+  "common.off": "Off",
+
+  /* Dates */
+  "weekdays.short": "Sun,Mon,Tue,Wed,Thu,Fri,Sat",
+  "shift.morning": "Morning",
+  "shift.afternoon": "Afternoon",
+  "shift.evening": "Evening",
+
+  /* Counter screen */
+  "main.filters": "Filters",
+  "main.select": "Select",
+  "main.manageLocations": "Manage locations",
+  "main.offSchedule":
+    "{location} isn't on your schedule for the time this session started.",
+  "main.total": "Total:",
+  "main.history": "History",
+  "main.finish": "Finish",
+  "main.finishHint": "Finish closes today’s session and saves to History.",
+  "counter.fallback": "Counter",
+  "counter.capReached": "Daily cap reached",
+  "counter.reset": "Reset",
+  "counter.add": "Add one to {label}",
+  "counter.remove": "Take one off {label}",
+  "counter.decremented": "{label} −{n}",
+  "counter.wasReset": "{label} reset",
+  "tap.open": "Tap mode",
+  "tap.exit": "Exit tap mode",
+  "tap.doubleTapHint": "Double-tap a tile to count down.",
+
+  /* Daily target and cap */
+  "day.hereToday": "{n} here today · ",
+  "day.capReached": "Daily cap of {cap} reached",
+  "day.overTarget": "{over} over the target of {target}",
+  "day.targetReached": "Target of {target} reached",
+  "day.toTarget": "{left} to the target of {target}",
+  "day.toCap": "{left} until the cap of {cap}",
+
+  /* Finishing */
+  "finish.title": "Close session?",
+  "finish.mergeQuestion":
+    "A session for {location} on {date} already has {existing} patient(s). Add today’s {total} to it, or keep this as a separate shift?",
+  "finish.merge": "Merge into existing",
+  "finish.separate": "Keep as separate shift",
+  "finish.confirm": "Are you sure you want to close today’s session?",
+  "stale.title": "Unfinished session",
+  "stale.body":
+    "{n} patient counted at {location} on {date} was never finished.|{n} patients counted at {location} on {date} were never finished.",
+  "stale.noLocation": "no location",
+  "stale.finishOn": "Finish on {date}",
+  "stale.carryOver": "Carry over to today",
+  "stale.discard": "Discard the counts",
+  "stale.autoFinished": "The open session was finished automatically at {time}",
+  "reminder.title": "Session still open",
+  "reminder.body": "{slot} has ended. Finish the session to save it.",
+
+  /* History */
+  "history.title": "History",
+  "history.export": "Export",
+  "history.allYears": "All years",
+  "history.allMonths": "All months",
+  "history.allCounters": "All counters",
+  "history.exportFormat": "Export format",
+  "history.excel": "Excel (XLSX)",
+  "history.template": "Report template",
+  "history.detailed": "Detailed list",
+  "history.exportToday": "Export Today",
+  "history.exportAll": "Export All",
+  "history.importCsv": "Import CSV",
+  "history.view.list": "List",
+  "history.view.calendar": "Calendar",
+  "history.view.dashboard": "Dashboard",
+  "history.overTarget": "Over the daily target",
+  "history.sessions": "{n} session|{n} sessions",
+  "history.daysOverTarget": "{n} day over target|{n} days over target",
+  "history.deleted": "Session deleted",
+
+  /* Calendar */
+  "calendar.previous": "Previous month",
+  "calendar.next": "Next month",
+  "calendar.startFor": "Start an entry for {date}",
+  "calendar.hint":
+    "Tap a day to see its sessions, or an empty past day to count for it.",
+  "calendar.hintLocked":
+    "Tap a day to see its sessions. Finish the open session to count for another day.",
+
+  /* Dashboard */
+  "dashboard.patients": "Patients",
+  "dashboard.avgSession": "Avg / session",
+  "dashboard.avgDay": "Avg / day",
+  "dashboard.avg": "Avg",
+  "dashboard.incomeDay": "Income / day",
+  "dashboard.versus": "{now} vs {before}",
+  "dashboard.trend": "Trend",
+  "dashboard.day": "Day",
+  "dashboard.week": "Week",
+  "dashboard.month": "Month",
+  "dashboard.weekOf": "Week of {date}",
+  "dashboard.busiest": "Busiest weekdays",
+  "dashboard.busiestHint": "Average patients per working day. Busiest: {day}.",
+  "dashboard.perLocation": "Per location",
+
+  /* Session detail */
+  "detail.needsSplit": " · needs the NEW/OLD split",
+  "detail.noTimes": "No arrival times were recorded for this session.",
+  "detail.firstPatient": "First patient: ",
+  "detail.lastPatient": "Last patient: ",
+  "detail.perHour": "Patients per hour",
+  "detail.timeline": "Arrival timeline",
+  "detail.untimed":
+    "{n} patient was counted before arrival times were recorded.|{n} patients were counted before arrival times were recorded.",
+  "detail.mergedFinishes": "Merged finishes",
+  "detail.unmerge": "Un-merge",
+  "detail.unmergeHint": "Un-merge into separate sessions",
+  "detail.unmergeBlocked": "Counts were edited after merging",
+  "detail.audit": "Audit trail",
+  "audit.created": "Created",
+  "audit.edited": "Edited",
+  "audit.merged": "Merged",
+  "audit.split": "Split",
+  "audit.deleted": "Deleted",
+  "audit.restored": "Restored",
+  "audit.note.mergedIn": "+{n} from a later finish",
+  "audit.note.splitOut": "{n} finish split out|{n} finishes split out",
+  "audit.note.splitFrom": "Split from {id}",
+  "audit.note.imported": "Imported from CSV",
+  "audit.note.localDate": "Date corrected to local time",
+  "audit.field.shift": "Shift",
+  "audit.field.counts": "Other counters",
+  "audit.field.billing": "Fees",
+
+  /* Session editor */
+  "editor.title": "Edit session",
+  "editor.shift": "Shift",
+  "editor.splitHint": "Leave NEW or OLD empty if the split is unknown.",
+  "editor.trackIncome": "Track income",
+  "editor.untrackIncome": "Don't track income for this session",
+  "billing.newFee": "NEW fee",
+  "billing.oldFee": "OLD fee",
+  "billing.discount": "Discount",
+  "billing.freeNew": "Free NEW",
+  "billing.freeOld": "Free OLD",
+  "billing.free": "{n} free",
+
+  /* Locations */
+  "locations.title": "Locations",
+  "locations.defaultName": "Location {n}",
+  "locations.moveUp": "Move up",
+  "locations.moveDown": "Move down",
+  "locations.details": "Details",
+  "locations.address": "Address",
+  "locations.chamberType": "Chamber type (e.g. Hospital, Private chamber)",
+  "locations.fee": "{kind} fee ({currency})",
+  "locations.notTracked": "Not tracked",
+  "locations.target": "Daily target",
+  "locations.cap": "Daily cap",
+  "locations.noLimit": "No limit",
+  "locations.targetHint":
+    "The target alerts when the day's patients here reach it; counting stops at the cap.",
+  "locations.savedSessions": "{n} saved session|{n} saved sessions",
+  "locations.sessions": "{n} session|{n} sessions",
+  "locations.new": "New location",
+  "locations.hospital": "Hospital",
+  "locations.clinic": "Clinic",
+  "locations.privateChamber": "Private chamber",
+  "locations.diagnosticCentre": "Diagnostic centre",
+
+  /* Counter categories */
+  "counters.title": "Counters",
+  "counters.hint":
+    "Extra tiles next to NEW and OLD, e.g. procedures or referrals. They count towards the session total.",
+  "counters.defaultName": "Counter {n}",
+  "counters.colour": "Colour",
+  "counters.shownAt": "Shown at",
+  "counters.max": "Up to {n} counters",
+  "counters.new": "New counter",
+  "counters.unknown": "Other counter",
+  "colour.green": "Green",
+  "colour.amber": "Amber",
+  "colour.red": "Red",
+  "colour.purple": "Purple",
+  "colour.teal": "Teal",
+
+  /* Schedule */
+  "schedule.title": "Chamber schedule",
+  "schedule.hint":
+    "The app opens on the location scheduled for now, and warns when counting starts somewhere else.",
+  "schedule.remove": "Remove",
+  "schedule.to": "to",
+  "schedule.add": "Add slot",
+  "schedule.needLocation": "Add a location first.",
+  "schedule.noDays": "No days",
+
+  /* Settings */
+  "settings.title": "Settings",
+  "settings.language": "Language",
+  "settings.doctorName": "Doctor name (for reports)",
+  "settings.doctorPlaceholder": "e.g. Dr. Rahman",
+  "settings.sameDay": "Same date and location",
+  "settings.merge": "Merge",
+  "settings.mergeHint":
+    "Add to the existing session for that date and location.",
+  "settings.separate": "Keep separate shifts",
+  "settings.separateHint":
+    "Save each finish as its own morning/afternoon/evening session.",
+  "settings.ask": "Ask each time",
+  "settings.askHint":
+    "Choose when a session for that date and location exists.",
+  "settings.counters": "Counters",
+  "settings.countersNone": "NEW and OLD only",
+  "settings.editMore": "Edit…",
+  "settings.noSchedule": "No schedule",
+  "settings.reminders":
+    "Remind me when a session is still open after its slot ends",
+  "settings.notificationsBlocked":
+    "Notifications are blocked for this site in the browser.",
+  "settings.autoFinish": "Finish open sessions automatically at",
+  "settings.autoFinishHint":
+    "Leave empty to always finish by hand. Sessions left open overnight are offered for finishing when the app opens.",
+  "settings.counting": "Counting",
+  "settings.keyboard": "Keyboard shortcuts",
+  "settings.keyboardHint":
+    "N and O count NEW and OLD, 1–9 the extra counters; hold Shift to count down. Ctrl+Z undoes.",
+  "settings.clicker": "Clicker and volume keys",
+  "settings.clickerNextNew": "Next → NEW, previous → OLD",
+  "settings.clickerNextOld": "Next → OLD, previous → NEW",
+  "settings.clickerHint":
+    "For presentation clickers and camera-shutter remotes. Next is Page Down, → or volume up; some phones keep the volume keys for themselves.",
+  "settings.doubleTap": "Double-tap to count down in tap mode",
+  "settings.doubleTapMs": "{ms} ms",
+  "settings.doubleTapHint": "Single taps then wait this long before counting.",
+  "settings.keepAwake": "Keep the screen on while counting",
+  "settings.currency": "Currency",
+  "settings.currencyPlaceholder": "e.g. Tk",
+  "settings.feesHint":
+    "Consultation fees are set per location, under Locations.",
+  "settings.backup": "Backup",
+  "settings.downloadBackup": "Download backup",
+  "settings.restore": "Restore…",
+  "settings.backupHint":
+    "Includes history, locations, the open session and settings.",
+  "settings.restored": "Restored {n} sessions from backup",
+  "settings.merged": "Merged backup: {added} added, {updated} updated",
+  "settings.sync": "Sync",
+  "settings.syncUrl": "Server URL, e.g. http://192.168.0.10:8787",
+  "settings.syncToken": "Access token (optional)",
+  "settings.syncing": "Syncing…",
+  "settings.syncFailed": "Sync failed.",
+  "settings.lastSynced": "Last synced {time}",
+  "settings.notSynced": "Not synced yet",
+  "settings.syncNow": "Sync now",
+
+  /* Profiles and PIN */
+  "profiles.title": "Profiles",
+  "profiles.default": "Default",
+  "profiles.current": "Current",
+  "profiles.switch": "Switch",
+  "profiles.switchTo": "Switch profile",
+  "profiles.newPlaceholder": "New profile, e.g. Dr. Karim",
+  "profiles.add": "Add profile",
+  "profiles.delete": "Delete this profile",
+  "profiles.deleteConfirm":
+    "Delete {name} and all of its history on this device?",
+  "profiles.keep": "Keep",
+  "pin.placeholder": "PIN",
+  "pin.unlock": "Unlock",
+  "pin.unlocking": "Unlocking…",
+  "pin.biometric": "Fingerprint or face",
+  "pin.wrong": "Wrong PIN",
+  "pin.unlockFailed": "Could not unlock",
+  "pin.for": "PIN for {name}",
+  "pin.set": "Set PIN",
+  "pin.change": "Change PIN",
+  "pin.remove": "Remove PIN",
+  "pin.current": "Current PIN",
+  "pin.new": "New PIN",
+  "pin.repeat": "Repeat PIN",
+  "pin.invalid": "Use 4–8 digits",
+  "pin.mismatch": "PINs do not match",
+  "pin.wrongCurrent": "Wrong current PIN",
+  "pin.saveFailed": "Could not save the lock",
+  "pin.confirmRemove": "Remove",
+  "pin.continue": "Continue",
+  "pin.save": "Save PIN",
+  "pin.useBiometric": "Unlock with fingerprint or face",
+  "pin.autoLock": "Lock after inactivity",
+  "pin.never": "Never",
+  "pin.minutes": "{n} min",
+  "pin.encryptedHint":
+    "History and locations are encrypted on this device with a key only your PIN (or fingerprint) unlocks.",
+  "pin.lockNow": "Lock now",
+  "lock.biometricUnlock":
+    "This device's biometrics can't unlock encrypted data. Use your PIN.",
+  "lock.biometricProtect":
+    "This device's biometrics can't protect encrypted data. Keep using your PIN.",
+
+  /* CSV import */
+  "import.chooseFile": "Choose a .csv file",
+  "import.columns": "Columns",
+  "import.noColumn": "— none —",
+  "import.column": "Column {n}",
+  "import.summary":
+    "{valid} valid · {errors} with errors · {duplicates} duplicate",
+  "import.skipDuplicates": "Skip duplicates",
+  "import.duplicate": "Already in history for this date and location",
+  "import.submit": "Import",
+  "import.submitCount": "Import {n}",
+  "import.badDate": "Invalid or missing date",
+  "import.noLocation": "Missing location",
+  "import.badShift": "Shift must be morning/afternoon/evening",
+  "import.notWhole": "Counts must be whole numbers",
+  "import.totalMismatch": "Total does not equal NEW + OLD",
+  "import.totalMismatchCounters":
+    "Total does not equal NEW + OLD + other counters",
+  "import.totalBelowCounters": "Total is less than the other counters",
+  "import.needSplitOrTotal": "Give both NEW and OLD, or a Total",
+  "import.totalZero": "Total must be greater than 0",
+
+  /* Backup and restore */
+  "restore.title": "Restore backup",
+  "restore.chooseFile": "Choose a backup (.json)",
+  "restore.unreadable": "Could not read this file.",
+  "restore.created": "Created {at}",
+  "restore.contents":
+    "{sessions} sessions · {locations} locations · {patients} patients",
+  "restore.merge": "Merge",
+  "restore.mergeHint": "Add sessions and locations this device does not have.",
+  "restore.replace": "Replace",
+  "restore.replaceHint":
+    "Discard everything on this device and use the backup.",
+  "restore.conflicts":
+    "{n} session differs between this device and the backup. Keep:|{n} sessions differ between this device and the backup. Keep:",
+  "restore.keepNewer": "The most recently changed copy",
+  "restore.keepMine": "This device’s copy",
+  "restore.keepBackup": "The backup’s copy",
+  "restore.confirmReplace":
+    "I understand current data on this device will be lost.",
+  "backup.notJson": "This file is not valid JSON.",
+  "backup.notBackup": "This is not a Patient Counter backup.",
+  "backup.tooNew":
+    "This backup was made by a newer version of the app. Update the app and try again.",
+  "backup.damaged": "Some sessions or locations in this backup are damaged.",
+  "backup.noSessions": "This backup is missing its session data.",
+
+  /* Storage and sync errors */
+  "storage.failed": "Could not {action}: {detail}.",
+  "storage.outOfSpace": "the device is out of storage space",
+  "storage.unknownError": "unknown error",
+  "storage.unavailable": "this browser cannot store data (IndexedDB)",
+  "storage.blocked": "close other tabs of the app and try again",
+  "storage.aborted": "the change was cancelled",
+  "storage.locked": "This profile is locked.",
+  "storage.damaged":
+    'Saved data under "{key}" is damaged and could not be read.',
+  "storage.mainProfile": "The main profile cannot be deleted.",
+  "storage.openData": "open your saved data",
+  "storage.saveData": "save your data",
+  "storage.encrypt": "encrypt your data",
+  "storage.decrypt": "decrypt your data",
+  "storage.saveHistory": "save your history",
+  "storage.saveLocations": "save your locations",
+  "storage.saveDateFix": "save the date correction",
+  "storage.saveCurrent": "save the current session",
+  "storage.saveSettings": "save your settings",
+  "storage.readOutbox": "read the sync queue",
+  "storage.updateOutbox": "update the sync queue",
+  "storage.readSyncState": "read the sync state",
+  "storage.saveSyncState": "save the sync state",
+  "storage.openProfiles": "open your profiles",
+  "storage.saveProfiles": "save your profiles",
+  "storage.readLanguage": "read the language",
+  "storage.saveLanguage": "save the language",
+  "storage.deleteProfile": "delete the profile",
+  "sync.unreachable": "Could not reach the sync server.",
+  "sync.badToken": "The sync server rejected the access token.",
+  "sync.serverStatus": "The sync server answered {status}.",
+  "sync.profileChanged": "The profile changed during sync.",
+
+  /* PDF report */
+  "report.detailed": "Detailed report",
+  "report.monthly": "Monthly summary",
+  "report.month": "Month",
+  "report.allDates": "All dates",
+  "report.generated": "Profile: {profile} · Generated {at}",
+  "report.incomeColumn": "Income ({currency})",
+  "report.subtotal": "Subtotal {location}",
+  "report.totalOf": "Total {month}",
+  "report.monthTotal": "Month total",
+  "report.grandTotal": "Grand total",
+  "report.grandTotalSessions":
+    "Grand total ({n} session)|Grand total ({n} sessions)",
+  "report.fontFailed":
+    "The Bangla font could not be loaded. Connect to the internet and try again.",
+  "report.exportFailed": "The PDF could not be created.",
+  "report.page": "Page {page} of {pages}",
+
+  /* Updates */
+  "update.available": "Update available",
+  "update.reload": "Reload",
+  "update.later": "Later",
+};
+
+export type MessageKey = keyof typeof en;
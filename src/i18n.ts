@@ -0,0 +1,58 @@
+import { bn } from "./i18n.bn.ts";
+import { en, type MessageKey } from "./i18n.en.ts";
+
+/* -------------------- Language -------------------- */
+export type Lang = "en" | "bn";
+
+export const LANGUAGES: { value: Lang; label: string }[] = [
+  { value: "en", label: "English" },
+  { value: "bn", label: "বাংলা" },
+];
+
+const CATALOGS: Record<Lang, Record<MessageKey, string>> = { en, bn };
+
+// Module state rather than context: report and export code formats text
+// outside React. The app re-renders from the top when it changes.
+let lang: Lang = "en";
+
+export const getLanguage = () => lang;
+export function setLanguage(next: Lang) {
+  lang = next;
+  document.documentElement.lang = next;
+}
+
+/* -------------------- Numbers and dates -------------------- */
+const BENGALI_DIGITS = "০১২৩৪৫৬৭৮৯";
+
+/** `v` with Bengali digits when Bangla is selected. */
+export const digits = (v: string | number) =>
+  lang === "bn"
+    ? String(v).replace(/[0-9]/g, (d) => BENGALI_DIGITS[Number(d)])
+    : String(v);
+
+/** Locale for `toLocaleString`; English keeps the browser's own. */
+export const locale = () => (lang === "bn" ? "bn-BD" : undefined);
+
+/** Short weekday names, Sunday first. */
+export const weekdayNames = () => t("weekdays.short").split(",");
+
+/* -------------------- Messages -------------------- */
+/**
+ * The message for `key`, with `{name}` placeholders filled from `vars`
+ * (numbers in the chosen digits). A message written "one|many" picks the
+ * first form when `vars.n` is 1.
+ */
+export function t(
+  key: MessageKey,
+  vars: Record<string, string | number> = {}
+): string {
+  const forms = CATALOGS[lang][key].split("|");
+  const message = forms.length > 1 && vars.n !== 1 ? forms[1] : forms[0];
+  return message.replace(/\{(\w+)\}/g, (_, name: string) =>
+    typeof vars[name] === "number"
+      ? digits(vars[name])
+      : String(vars[name] ?? "")
+  );
+}
+
+export type { MessageKey };
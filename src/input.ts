@@ -0,0 +1,54 @@
+import type { ClickerMapping, VisitKind } from "./types.ts";
+
+/* -------------------- Key actions -------------------- */
+export type KeyAction =
+  | { type: "inc"; kind: VisitKind }
+  | { type: "dec"; kind: VisitKind }
+  | { type: "undo" }
+  | { type: "redo" };
+
+// Presentation clickers send page keys or arrows; camera-shutter remotes
+// send volume keys, which some phones keep for themselves.
+const NEXT_KEYS = ["PageDown", "ArrowRight", "AudioVolumeUp"];
+const PREVIOUS_KEYS = ["PageUp", "ArrowLeft", "AudioVolumeDown"];
+
+/** Choices for the tap-mode double-tap window, in ms; 0 = off. */
+export const DOUBLE_TAP_OPTIONS = [0, 250, 400, 600];
+
+/**
+ * What a key press on the counter screen does, if anything. Shortcuts go
+ * by physical key (`code`) so they stay put on a Bangla layout: N and O
+ * count NEW and OLD, 1–9 the custom `counters` in display order, Shift
+ * counts down, and Ctrl/⌘+Z and Ctrl/⌘+Y undo and redo.
+ */
+export function keyAction(
+  e: KeyboardEvent,
+  options: { keyboard: boolean; clicker: ClickerMapping; counters: string[] }
+): KeyAction | null {
+  if (e.repeat || e.altKey) return null;
+  if (
+    e.target instanceof Element &&
+    e.target.closest("input, select, textarea, [contenteditable]")
+  )
+    return null;
+
+  if (options.clicker !== "off") {
+    const first = options.clicker === "next-new" ? "new" : "old";
+    const second = first === "new" ? "old" : "new";
+    if (NEXT_KEYS.includes(e.key)) return { type: "inc", kind: first };
+    if (PREVIOUS_KEYS.includes(e.key)) return { type: "inc", kind: second };
+  }
+  if (!options.keyboard) return null;
+
+  if (e.ctrlKey || e.metaKey) {
+    if (e.code === "KeyZ") return { type: e.shiftKey ? "redo" : "undo" };
+    if (e.code === "KeyY") return { type: "redo" };
+    return null;
+  }
+  const type = e.shiftKey ? "dec" : "inc";
+  if (e.code === "KeyN") return { type, kind: "new" };
+  if (e.code === "KeyO") return { type, kind: "old" };
+  const digit = /^Digit([1-9])$/.exec(e.code);
+  const kind = digit ? options.counters[Number(digit[1]) - 1] : undefined;
+  return kind ? { type, kind } : null;
+}
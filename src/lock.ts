@@ -0,0 +1,204 @@
+import { t } from "./i18n.ts";
+import type { BiometricLock, ProfileLock } from "./types.ts";
+
+/*
+ * Each locked profile has a random AES-GCM data key that encrypts its
+ * records. The data key is stored only wrapped: by a key derived from the
+ * PIN (PBKDF2), and optionally by one derived from a platform
+ * authenticator (WebAuthn PRF). A short PIN can still be brute-forced by
+ * someone who copies the browser's storage; the lock keeps records out of
+ * casual reach, it is not a substitute for a device passcode.
+ */
+
+const PBKDF2_ITERATIONS = 600_000;
+const utf8 = new TextEncoder();
+const random = (n: number) => crypto.getRandomValues(new Uint8Array(n));
+
+/** Encrypted JSON value as kept in IndexedDB. */
+export type Sealed = { iv: Uint8Array<ArrayBuffer>; data: ArrayBuffer };
+
+/** Unlocking with a platform authenticator failed or is unsupported. */
+export class LockError extends Error {}
+
+/* -------------------- Data encryption -------------------- */
+export async function sealJSON(
+  key: CryptoKey,
+  value: unknown
+): Promise<Sealed> {
+  const iv = random(12);
+  const data = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    key,
+    utf8.encode(JSON.stringify(value))
+  );
+  return { iv, data };
+}
+
+export async function unsealJSON<T>(key: CryptoKey, s: Sealed): Promise<T> {
+  const plain = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: s.iv },
+    key,
+    s.data
+  );
+  return JSON.parse(new TextDecoder().decode(plain)) as T;
+}
+
+/* -------------------- PIN -------------------- */
+async function pinKey(
+  pin: string,
+  salt: Uint8Array<ArrayBuffer>,
+  iterations: number
+) {
+  const base = await crypto.subtle.importKey(
+    "raw",
+    utf8.encode(pin),
+    "PBKDF2",
+    false,
+    ["deriveKey"]
+  );
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", hash: "SHA-256", salt, iterations },
+    base,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["wrapKey", "unwrapKey"]
+  );
+}
+
+async function wrap(dataKey: CryptoKey, wrappingKey: CryptoKey) {
+  const iv = random(12);
+  const wrappedKey = await crypto.subtle.wrapKey("raw", dataKey, wrappingKey, {
+    name: "AES-GCM",
+    iv,
+  });
+  return { iv, wrappedKey };
+}
+
+// AES-GCM authenticates, so a wrong wrapping key fails here.
+async function unwrap(
+  w: { iv: Uint8Array<ArrayBuffer>; wrappedKey: ArrayBuffer },
+  wrappingKey: CryptoKey
+): Promise<CryptoKey | null> {
+  try {
+    return await crypto.subtle.unwrapKey(
+      "raw",
+      w.wrappedKey,
+      wrappingKey,
+      { name: "AES-GCM", iv: w.iv },
+      { name: "AES-GCM", length: 256 },
+      true, // re-wrapped on PIN change and biometric enrolment
+      ["encrypt", "decrypt"]
+    );
+  } catch {
+    return null;
+  }
+}
+
+/** Wraps `dataKey` (a new one if omitted) under `pin`. */
+export async function createLock(
+  pin: string,
+  dataKey?: CryptoKey
+): Promise<{ lock: ProfileLock; key: CryptoKey }> {
+  const key =
+    dataKey ??
+    (await crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, true, [
+      "encrypt",
+      "decrypt",
+    ]));
+  const salt = random(16);
+  const wrapped = await wrap(key, await pinKey(pin, salt, PBKDF2_ITERATIONS));
+  return { lock: { salt, iterations: PBKDF2_ITERATIONS, ...wrapped }, key };
+}
+
+/** The profile's data key, or null for a wrong PIN. */
+export async function unlockWithPin(lock: ProfileLock, pin: string) {
+  return unwrap(lock, await pinKey(pin, lock.salt, lock.iterations));
+}
+
+/* -------------------- Platform authenticator -------------------- */
+export const biometricSupported = async () =>
+  Boolean(
+    await window.PublicKeyCredential?.isUserVerifyingPlatformAuthenticatorAvailable?.().catch(
+      () => false
+    )
+  );
+
+// The PRF output is a per-credential secret; stretch it into a wrapping key.
+async function prfKey(secret: BufferSource) {
+  const base = await crypto.subtle.importKey("raw", secret, "HKDF", false, [
+    "deriveKey",
+  ]);
+  return crypto.subtle.deriveKey(
+    {
+      name: "HKDF",
+      hash: "SHA-256",
+      salt: new Uint8Array(),
+      info: utf8.encode("patient-counter data key"),
+    },
+    base,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["wrapKey", "unwrapKey"]
+  );
+}
+
+async function prfSecret(credentialId: ArrayBuffer, prfSalt: BufferSource) {
+  const assertion = (await navigator.credentials.get({
+    publicKey: {
+      challenge: random(32),
+      allowCredentials: [{ type: "public-key", id: credentialId }],
+      userVerification: "required",
+      extensions: { prf: { eval: { first: prfSalt } } },
+    },
+  })) as PublicKeyCredential | null;
+  const secret = assertion?.getClientExtensionResults().prf?.results?.first;
+  if (!secret) throw new LockError(t("lock.biometricUnlock"));
+  return secret;
+}
+
+/** Registers a platform credential able to unwrap `dataKey`. */
+export async function enrollBiometric(
+  profile: { id: string; name: string },
+  dataKey: CryptoKey
+): Promise<BiometricLock> {
+  const credential = (await navigator.credentials.create({
+    publicKey: {
+      challenge: random(32),
+      rp: { name: "Patient Counter" },
+      user: {
+        id: utf8.encode(profile.id),
+        name: profile.name,
+        displayName: profile.name,
+      },
+      pubKeyCredParams: [
+        { type: "public-key", alg: -7 },
+        { type: "public-key", alg: -257 },
+      ],
+      authenticatorSelection: {
+        authenticatorAttachment: "platform",
+        userVerification: "required",
+      },
+      extensions: { prf: {} },
+    },
+  })) as PublicKeyCredential | null;
+  if (!credential?.getClientExtensionResults().prf?.enabled)
+    throw new LockError(t("lock.biometricProtect"));
+  const prfSalt = random(32);
+  const secret = await prfSecret(credential.rawId, prfSalt);
+  const wrapped = await wrap(dataKey, await prfKey(secret));
+  return { credentialId: credential.rawId, prfSalt, ...wrapped };
+}
+
+/** The profile's data key via fingerprint/face, or null if declined. */
+export async function unlockWithBiometric(
+  b: BiometricLock
+): Promise<CryptoKey | null> {
+  let secret: BufferSource;
+  try {
+    secret = await prfSecret(b.credentialId, b.prfSalt);
+  } catch (e) {
+    if (e instanceof LockError) throw e;
+    return null; // cancelled or timed out
+  }
+  return unwrap(b, await prfKey(secret));
+}
@@ -2,16 +2,19 @@ import { StrictMode } from 'react';
 import { createRoot } from 'react-dom/client';
 import './index.css';
 import App from './App.tsx';
+import UpdatePrompt from './UpdatePrompt.tsx';
+import { registerServiceWorker } from './swRegister.ts';
 
-createRoot(document.getElementById('root')!).render(
-  <StrictMode>
-    <App />
-  </StrictMode>,
-);
+const root = createRoot(document.getElementById('root')!);
+const render = (applyUpdate?: () => void) =>
+  root.render(
+    <StrictMode>
+      <App />
+      {applyUpdate && <UpdatePrompt onReload={applyUpdate} />}
+    </StrictMode>,
+  );
+render();
 
-// Register the service worker for fullscreen/PWA + offline
-if ('serviceWorker' in navigator) {
-  window.addEventListener('load', () => {
-    navigator.serviceWorker.register('/sw.js').catch(console.error);
-  });
-}
\ No newline at end of file
+// The service worker (fullscreen/PWA + offline) is only built for
+// production; in dev it would serve stale modules.
+if (import.meta.env.PROD) registerServiceWorker(render);
@@ -0,0 +1,99 @@
+import { dateOfTimestamp, localTimestamp } from "./dates.ts";
+import type { CurrentState, Location, Session } from "./types.ts";
+import { newLocation } from "./utils.ts";
+
+/* -------------------- Legacy shapes -------------------- */
+/** v2 records referenced the location by its display name. */
+export type SessionV2 = Omit<
+  Session,
+  "locationId" | "shift" | "parts" | "audit" | "deletedAt"
+> & {
+  location: string;
+};
+/** v1 records only stored the collapsed total. */
+export type SessionV1 = Pick<
+  SessionV2,
+  "sessionId" | "date" | "location" | "total" | "finishedAt"
+>;
+
+/* -------------------- Sessions -------------------- */
+// v1 -> v2: NEW/OLD split was not recorded, so mark it unknown.
+export const migrateSessionV1 = (s: SessionV1): SessionV2 => ({
+  ...s,
+  newCount: null,
+  oldCount: null,
+});
+// v2 -> v3: resolve the location name to a registry id. Names that are no
+// longer in the registry (left behind by old renames) are added to
+// `locations` as archived entries so their history stays reachable.
+export function migrateSessionV2(s: SessionV2, locations: Location[]): Session {
+  const { location, ...rest } = s;
+  let loc = locations.find((l) => l.name === location);
+  if (!loc) {
+    loc = { ...newLocation(location), archived: true };
+    locations.push(loc);
+  }
+  return { ...rest, locationId: loc.id };
+}
+
+/**
+ * Brings records of any known version up to the current shape, telling
+ * them apart by their fields. Used where versions may be mixed (backups).
+ */
+export function migrateSessions(
+  list: (Session | SessionV2 | SessionV1)[],
+  locations: Location[]
+): Session[] {
+  return list.map((s) => {
+    if ("locationId" in s) return s;
+    const v2 = "newCount" in s ? s : migrateSessionV1(s);
+    return migrateSessionV2(v2, locations);
+  });
+}
+
+// Dates used to default to the UTC day and timestamps were UTC, so a
+// session finished between local and UTC midnight (00:00–06:00 in
+// Bangladesh) got the neighbouring day. Re-derive those from `finishedAt`
+// on this device's calendar. Dates that aren't the UTC day of the finish
+// were picked by hand and stay.
+export function migrateLocalDate(s: Session, at = localTimestamp()): Session {
+  if (!s.finishedAt.endsWith("Z")) return s;
+  const utcDay = s.finishedAt.slice(0, 10);
+  const localDay = dateOfTimestamp(s.finishedAt);
+  if (s.date !== utcDay || localDay === utcDay) return s;
+  return {
+    ...s,
+    date: localDay,
+    rev: (s.rev ?? 0) + 1,
+    audit: [
+      ...(s.audit ?? []),
+      {
+        at,
+        action: "edited",
+        changes: [{ field: "date", from: s.date, to: localDay }],
+        message: { key: "audit.note.localDate" },
+      },
+    ],
+  };
+}
+
+/* -------------------- Locations -------------------- */
+// v1 slots were a plain list of names, possibly with null gaps.
+export const migrateLocationsV1 = (names: (string | null)[]): Location[] =>
+  Array.from(new Set(names.filter((n): n is string => Boolean(n)))).map(
+    newLocation
+  );
+
+/* -------------------- Current state -------------------- */
+// Older states have no `visits` and store the location by name.
+export function migrateCurrent(
+  raw: CurrentState & { location?: string | null },
+  locations: Location[]
+): CurrentState {
+  const { location, ...parsed } = raw;
+  const locationId =
+    location !== undefined
+      ? (locations.find((l) => l.name === location)?.id ?? null)
+      : parsed.locationId;
+  return { ...parsed, locationId, visits: parsed.visits ?? [] };
+}
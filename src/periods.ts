@@ -0,0 +1,99 @@
+import type { HistoryFilters, Session } from "./types.ts";
+import { addDays, diffDays, endOfMonth } from "./dates.ts";
+import { digits, locale } from "./i18n.ts";
+import { formatDateDMY, pad2 } from "./utils.ts";
+
+/* -------------------- Periods -------------------- */
+export type Period = { start: string; end: string; label: string };
+
+// The calendar range the filters describe, or null when they do not pin
+// one down (e.g. "All years" or a month across every year).
+export function periodOf(
+  f: HistoryFilters,
+  filtered: Session[]
+): Period | null {
+  if (f.from || f.to) {
+    const dates = filtered.map((s) => s.date).sort();
+    const start = f.from || dates[0];
+    const end = f.to || dates[dates.length - 1];
+    if (!start || !end) return null;
+    return {
+      start,
+      end,
+      label: `${formatDateDMY(start)} – ${formatDateDMY(end)}`,
+    };
+  }
+  if (f.yearFilter === "ALL") return null;
+  if (f.monthFilter) {
+    const start = `${f.yearFilter}-${pad2(f.monthFilter)}-01`;
+    return { start, end: endOfMonth(start), label: monthLabel(start) };
+  }
+  return {
+    start: `${f.yearFilter}-01-01`,
+    end: `${f.yearFilter}-12-31`,
+    label: digits(f.yearFilter),
+  };
+}
+
+// Same-shaped period right before `p`: previous month/year for calendar
+// filters, otherwise a window of equal length.
+export function previousPeriod(f: HistoryFilters, p: Period): Period {
+  if (!f.from && !f.to && f.monthFilter) {
+    const start = addDays(p.start, -1).slice(0, 8) + "01";
+    return { start, end: endOfMonth(start), label: monthLabel(start) };
+  }
+  if (!f.from && !f.to) {
+    const y = String(Number(f.yearFilter) - 1);
+    return { start: `${y}-01-01`, end: `${y}-12-31`, label: digits(y) };
+  }
+  const len = diffDays(p.start, p.end) + 1;
+  const start = addDays(p.start, -len);
+  const end = addDays(p.start, -1);
+  return {
+    start,
+    end,
+    label: `${formatDateDMY(start)} – ${formatDateDMY(end)}`,
+  };
+}
+
+export const monthLabel = (iso: string) =>
+  new Date(
+    Number(iso.slice(0, 4)),
+    Number(iso.slice(5, 7)) - 1,
+    1
+  ).toLocaleString(locale(), { month: "long", year: "numeric" });
+
+/** First to last date of `list`, or null when it is empty. */
+export function spanOf(list: Session[]): Period | null {
+  if (list.length === 0) return null;
+  const dates = list.map((s) => s.date).sort();
+  const start = dates[0];
+  const end = dates[dates.length - 1];
+  return {
+    start,
+    end,
+    label:
+      start === end
+        ? formatDateDMY(start)
+        : `${formatDateDMY(start)} – ${formatDateDMY(end)}`,
+  };
+}
+
+// e.g. "Patient Counter - Dhaka - 2025-03-01 to 2025-03-31.pdf"
+export function exportFilename(
+  profileName: string,
+  scopeLabel: string,
+  period: Period | null,
+  ext: string,
+  suffix?: string
+): string {
+  const parts = ["Patient Counter", profileName, scopeLabel];
+  if (period)
+    parts.push(
+      period.start === period.end
+        ? period.start
+        : `${period.start} to ${period.end}`
+    );
+  if (suffix) parts.push(suffix);
+  return `${parts.join(" - ").replace(/[\\/:*?"<>|]+/g, "-")}.${ext}`;
+}
@@ -0,0 +1,38 @@
+import { v4 as uuidv4 } from "uuid";
+import type { ProfileRegistry } from "./storage.ts";
+import type { Profile } from "./types.ts";
+
+export const newProfile = (name: string): Profile => ({
+  id: uuidv4(),
+  name: name.trim(),
+});
+
+/** Has a PIN: an encryption lock, or a legacy PIN hash not yet upgraded. */
+export const isLocked = (p: Profile) => Boolean(p.lock || p.pinHash);
+
+export const patchProfile = (
+  registry: ProfileRegistry,
+  id: string,
+  fields: Partial<Profile>
+): ProfileRegistry => ({
+  ...registry,
+  profiles: registry.profiles.map((p) =>
+    p.id === id ? { ...p, ...fields } : p
+  ),
+});
+
+// Legacy PINs (before encryption) were stored as a hash salted with the
+// profile id; they are replaced by a lock on the next unlock.
+async function hashPin(profileId: string, pin: string) {
+  const bytes = new TextEncoder().encode(`${profileId}:${pin}`);
+  const digest = await crypto.subtle.digest("SHA-256", bytes);
+  return Array.from(new Uint8Array(digest), (b) =>
+    b.toString(16).padStart(2, "0")
+  ).join("");
+}
+
+export const checkLegacyPin = async (profile: Profile, pin: string) =>
+  !profile.pinHash || (await hashPin(profile.id, pin)) === profile.pinHash;
+
+/** PINs are 4–8 digits. */
+export const isValidPin = (pin: string) => /^\d{4,8}$/.test(pin);
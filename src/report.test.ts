@@ -0,0 +1,127 @@
+import type { jsPDF } from "jspdf";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { setLanguage, t } from "./i18n.ts";
+import { FontError, buildReport, type ReportOptions } from "./report.ts";
+import type { Session } from "./types.ts";
+
+const options = (sessions: Session[]): ReportOptions => ({
+  sessions,
+  template: "detailed",
+  doctorName: "Dr. Rahman",
+  profileName: "Main",
+  scopeLabel: "Clinic",
+  period: null,
+  locationName: () => "Clinic",
+  categories: [],
+  currency: "Tk",
+  generatedAt: new Date(2025, 2, 31, 18),
+});
+
+// One session a day from 1 January, a few each day.
+const sessions = (n: number): Session[] =>
+  Array.from({ length: n }, (_, i) => {
+    const date = new Date(2025, 0, 1 + Math.floor(i / 3)).toLocaleDateString(
+      "en-CA"
+    );
+    return {
+      sessionId: `s${i}`,
+      date,
+      locationId: "clinic",
+      newCount: 1,
+      oldCount: 2,
+      total: 3,
+      finishedAt: `${date}T${String(9 + (i % 3)).padStart(2, "0")}:00:00.000+06:00`,
+    };
+  });
+
+// The drawing commands of each page; jsPDF leaves them uncompressed.
+const pageText = (doc: jsPDF, page: number) =>
+  (doc.internal as unknown as { pages: string[][] }).pages[page].join("\n");
+
+describe("buildReport", () => {
+  it("fits a short report on one page", async () => {
+    const doc = await buildReport(options(sessions(10)));
+    expect(doc.getNumberOfPages()).toBe(1);
+    expect(pageText(doc, 1)).toContain("(Page 1 of 1)");
+  });
+
+  it("breaks long tables across pages with headers and footers", async () => {
+    const doc = await buildReport(options(sessions(150)));
+    const pages = doc.getNumberOfPages();
+    expect(pages).toBeGreaterThan(2);
+    for (let i = 1; i <= pages; i++) {
+      const text = pageText(doc, i);
+      expect(text).toContain(`(Page ${i} of ${pages})`);
+      expect(text).toContain("(Date)");
+      // Continuation pages carry the running header instead of the title.
+      if (i > 1) expect(text).toContain("(Main · Dr. Rahman · Clinic");
+    }
+    // Rows are numbered straight through the breaks; the total comes last.
+    const all = Array.from({ length: pages }, (_, i) => pageText(doc, i + 1));
+    expect(all.join("\n")).toContain("(150.)");
+    expect(all.at(-1)).toContain("Grand total \\(150 sessions\\)");
+    expect(all.slice(0, -1).join("\n")).not.toContain("Grand total");
+  });
+
+  it("says so when there is nothing to report", async () => {
+    const doc = await buildReport(options([]));
+    expect(doc.getNumberOfPages()).toBe(1);
+    expect(pageText(doc, 1)).toContain("(No entries.)");
+  });
+});
+
+describe("Bangla reports", () => {
+  afterEach(() => {
+    setLanguage("en");
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    Reflect.deleteProperty(document, "fonts");
+  });
+
+  it("tells a failed font download apart from other failures", async () => {
+    setLanguage("bn");
+    vi.stubGlobal("fetch", () => Promise.reject(new TypeError("offline")));
+    await expect(buildReport(options(sessions(3)))).rejects.toBeInstanceOf(
+      FontError
+    );
+    // An error page is not a font either.
+    vi.stubGlobal("fetch", async () => new Response("", { status: 404 }));
+    await expect(buildReport(options(sessions(3)))).rejects.toBeInstanceOf(
+      FontError
+    );
+  });
+
+  it("leaves Bangla text to the browser's shaping", async () => {
+    setLanguage("bn");
+    // jsdom has no fonts or canvas; record what would be drawn instead.
+    vi.stubGlobal("fetch", async () => new Response(new Uint8Array(4)));
+    vi.stubGlobal(
+      "FontFace",
+      class {
+        load() {
+          return Promise.resolve(this);
+        }
+      }
+    );
+    Object.defineProperty(document, "fonts", {
+      configurable: true,
+      value: { add: () => undefined },
+    });
+    const drawn: string[] = [];
+    vi.spyOn(HTMLCanvasElement.prototype, "getContext").mockReturnValue({
+      measureText: (text: string) => ({ width: text.length * 20 }),
+      fillText: (text: string) => drawn.push(text),
+    } as unknown as CanvasRenderingContext2D);
+    vi.spyOn(HTMLCanvasElement.prototype, "toDataURL").mockReturnValue(
+      "data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg=="
+    );
+
+    const doc = await buildReport(options(sessions(3)));
+    expect(drawn).toContain(t("app.title"));
+    const page = pageText(doc, 1);
+    expect(page).toContain(" Do"); // the images, placed on the page
+    expect(page).not.toContain(t("app.title"));
+    // Latin text needs no shaping and stays text.
+    expect(page).toContain("(Dr. Rahman) Tj");
+  });
+});
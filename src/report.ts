@@ -0,0 +1,516 @@
+import jsPDF from "jspdf";
+import bengaliBoldUrl from "@expo-google-fonts/noto-sans-bengali/700Bold/NotoSansBengali_700Bold.ttf";
+import bengaliRegularUrl from "@expo-google-fonts/noto-sans-bengali/400Regular/NotoSansBengali_400Regular.ttf";
+import { addCounts, categoriesIn, sumCounts } from "./counters.ts";
+import { compareTimestamps } from "./dates.ts";
+import { hasRevenue } from "./fees.ts";
+import { digits, getLanguage, locale, t } from "./i18n.ts";
+import { exportFilename, monthLabel, type Period } from "./periods.ts";
+import type { CategoryCounts, CounterCategory, Session } from "./types.ts";
+import { addSplit, fmtSplit, formatDateDMY, shiftLabel } from "./utils.ts";
+
+/* -------------------- Types -------------------- */
+export type ReportTemplate = "detailed" | "monthly";
+
+export type ReportOptions = {
+  sessions: Session[];
+  template: ReportTemplate;
+  doctorName: string;
+  profileName: string; // device profile the data belongs to
+  scopeLabel: string; // e.g. "All locations", "Dhaka", "Today"
+  period: Period | null;
+  locationName: (id: string) => string;
+  categories: CounterCategory[]; // custom counters, for their columns
+  currency: string; // heads the income column, if any session tracks income
+  generatedAt?: Date;
+};
+
+type Column = { title: string; x: number; width: number; align?: "right" };
+type RowStyle = "body" | "group" | "subtotal" | "total";
+type Sums = {
+  sessions: number;
+  newCount: number | null;
+  oldCount: number | null;
+  counts?: CategoryCounts;
+  total: number;
+  revenue?: number; // absent if no session tracks income
+};
+
+/* -------------------- Layout -------------------- */
+// A4 in points.
+const PAGE_W = 595.28;
+const PAGE_H = 841.89;
+const LEFT = 40;
+const RIGHT = PAGE_W - 40;
+const TOP = 50;
+const BOTTOM = PAGE_H - 60; // leaves room for the footer
+const ROW_H = 16;
+
+// Functions, so the titles follow the current language.
+const detailedColumns = (): Column[] => [
+  { title: "#", x: LEFT, width: 28 },
+  { title: t("common.date"), x: LEFT + 28, width: 72 },
+  { title: t("common.location"), x: LEFT + 100, width: 230 },
+  { title: t("common.new"), x: RIGHT - 130, width: 50, align: "right" },
+  { title: t("common.old"), x: RIGHT - 70, width: 50, align: "right" },
+  { title: t("common.total"), x: RIGHT, width: 50, align: "right" },
+];
+const monthlyColumns = (): Column[] => [
+  { title: t("report.month"), x: LEFT, width: 110 },
+  { title: t("common.location"), x: LEFT + 110, width: 190 },
+  { title: t("common.sessions"), x: RIGHT - 190, width: 50, align: "right" },
+  { title: t("common.new"), x: RIGHT - 130, width: 50, align: "right" },
+  { title: t("common.old"), x: RIGHT - 70, width: 50, align: "right" },
+  { title: t("common.total"), x: RIGHT, width: 50, align: "right" },
+];
+
+// With custom counters or income the count columns are narrower. Past a
+// few counters there is no room left for the location, so they share one
+// "Other" column; an income column takes the room of one more.
+const MAX_COUNTER_COLUMNS = 2;
+const COUNT_STEP = 52;
+const MONEY_STEP = 70;
+
+/**
+ * `text` columns as given, the last one narrowed to end where NEW, OLD,
+ * the counters, Total and the income column (laid out leftwards from the
+ * margin) begin.
+ */
+function withCountColumns(
+  text: Column[],
+  counterTitles: string[],
+  leading: string[],
+  incomeTitle: string | null
+): Column[] {
+  const titles = [
+    ...leading,
+    t("common.new"),
+    t("common.old"),
+    ...counterTitles,
+    t("common.total"),
+  ];
+  const right = incomeTitle ? RIGHT - MONEY_STEP : RIGHT;
+  const counts = titles.map((title, i) => ({
+    title: title.length > 9 ? `${title.slice(0, 8)}…` : title,
+    x: right - (titles.length - 1 - i) * COUNT_STEP,
+    width: COUNT_STEP - 6,
+    align: "right" as const,
+  }));
+  const income = incomeTitle
+    ? [
+        {
+          title: incomeTitle,
+          x: RIGHT,
+          width: MONEY_STEP - 6,
+          align: "right" as const,
+        },
+      ]
+    : [];
+  const last = text[text.length - 1];
+  const end = counts[0].x - counts[0].width;
+  return [
+    ...text.slice(0, -1),
+    { ...last, width: end - last.x },
+    ...counts,
+    ...income,
+  ];
+}
+
+/* -------------------- Text -------------------- */
+// jsPDF places glyphs one by one without shaping: Bangla conjuncts would
+// print as separate letters and vowel signs such as ি and ে on the wrong
+// side of their consonant. So any text with Bangla in it is drawn by the
+// browser, which shapes it, on a canvas that goes into the PDF as an
+// image. Everything else stays Helvetica text.
+const FONT = "helvetica";
+const BENGALI_FONT = "Noto Sans Bengali";
+const BANGLA = /[\u0980-\u09FF]/;
+const PX_PER_PT = 4; // canvas resolution; sharp enough for print
+let bengaliFaces: Promise<void> | null = null;
+
+/** The Bengali font could not be fetched, e.g. offline before caching. */
+export class FontError extends Error {}
+
+async function loadFace(url: string, weight: string) {
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`${url} answered ${res.status}`);
+  const face = new FontFace(BENGALI_FONT, await res.arrayBuffer(), { weight });
+  document.fonts.add(await face.load());
+}
+
+/** Makes the Bengali font available to canvases; fetched once. */
+function loadBengaliFont() {
+  bengaliFaces ??= Promise.all([
+    loadFace(bengaliRegularUrl, "400"),
+    loadFace(bengaliBoldUrl, "700"),
+  ]).then(
+    () => undefined,
+    (e) => {
+      bengaliFaces = null; // try again on the next export
+      throw new FontError(t("report.fontFailed"), { cause: e });
+    }
+  );
+  return bengaliFaces;
+}
+
+/** Draws and measures text in the document's current font and color. */
+type Pen = {
+  text(text: string, x: number, y: number, opts?: { align: "right" }): void;
+  width(text: string): number;
+};
+
+const plainPen = (doc: jsPDF): Pen => ({
+  text: (text, x, y, opts) => void doc.text(text, x, y, opts),
+  width: (text) => doc.getTextWidth(text),
+});
+
+/** A pen that hands text with Bangla in it to the browser to shape. */
+function banglaPen(doc: jsPDF): Pen {
+  const plain = plainPen(doc);
+  const canvas = document.createElement("canvas");
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("No 2D canvas to draw Bangla text on");
+  const cssFont = () =>
+    `${doc.getFont().fontStyle === "bold" ? 700 : 400} ` +
+    `${doc.getFontSize() * PX_PER_PT}px "${BENGALI_FONT}"`;
+  const measure = (text: string) => {
+    ctx.font = cssFont();
+    return ctx.measureText(text).width / PX_PER_PT;
+  };
+  // Repeated labels (column titles, digits) become one shared image.
+  const drawn = new Map<string, string>();
+
+  return {
+    text(text, x, y, opts) {
+      if (!BANGLA.test(text)) return plain.text(text, x, y, opts);
+      const size = doc.getFontSize();
+      const width = measure(text);
+      // Room above the baseline for tall vowel signs, below it for ু and ৃ.
+      const ascent = size * 1.1;
+      const height = size * 1.5;
+      const alias = `${cssFont()}|${doc.getTextColor()}|${text}`;
+      let image = drawn.get(alias);
+      if (!image) {
+        // Resizing resets the context, so the font is set after it.
+        canvas.width = Math.ceil(width * PX_PER_PT);
+        canvas.height = Math.ceil(height * PX_PER_PT);
+        ctx.font = cssFont();
+        ctx.fillStyle = doc.getTextColor();
+        ctx.fillText(text, 0, ascent * PX_PER_PT);
+        image = canvas.toDataURL("image/png");
+        drawn.set(alias, image);
+      }
+      const left = opts?.align === "right" ? x - width : x;
+      doc.addImage(image, "PNG", left, y - ascent, width, height, alias);
+    },
+    width: (text) => (BANGLA.test(text) ? measure(text) : plain.width(text)),
+  };
+}
+
+/* -------------------- Helpers -------------------- */
+function sumOf(list: Session[]): Sums {
+  return list.reduce<Sums>(
+    (acc, s) => ({
+      sessions: acc.sessions + 1,
+      newCount: addSplit(acc.newCount, s.newCount),
+      oldCount: addSplit(acc.oldCount, s.oldCount),
+      counts: addCounts(acc.counts, s.counts),
+      total: acc.total + s.total,
+      revenue:
+        s.revenue === undefined ? acc.revenue : (acc.revenue ?? 0) + s.revenue,
+    }),
+    { sessions: 0, newCount: 0, oldCount: 0, total: 0 }
+  );
+}
+
+// Insertion-ordered grouping; callers sort the input first.
+function groupBy<T>(list: T[], key: (t: T) => string): [string, T[]][] {
+  const map = new Map<string, T[]>();
+  list.forEach((t) => {
+    const k = key(t);
+    const group = map.get(k) ?? [];
+    group.push(t);
+    map.set(k, group);
+  });
+  return Array.from(map.entries());
+}
+
+// Oldest first reads naturally on paper; the app lists newest first.
+const chronological = (a: Session, b: Session) =>
+  a.date === b.date
+    ? compareTimestamps(a.finishedAt, b.finishedAt)
+    : a.date.localeCompare(b.date);
+
+/* -------------------- Table writer -------------------- */
+// Tracks the cursor, breaks pages and repeats the column headers.
+function tableWriter(
+  doc: jsPDF,
+  pen: Pen,
+  columns: Column[],
+  runningHeader: string
+) {
+  let y = 0;
+
+  const fit = (text: string, width: number) => {
+    if (pen.width(text) <= width) return text;
+    let cut = text;
+    while (cut.length > 1 && pen.width(`${cut}…`) > width)
+      cut = cut.slice(0, -1);
+    return `${cut}…`;
+  };
+
+  const drawHeaders = () => {
+    doc.setFont(FONT, "bold");
+    doc.setFontSize(10);
+    doc.setFillColor(243, 244, 246);
+    doc.rect(LEFT - 4, y - 11, RIGHT - LEFT + 8, ROW_H, "F");
+    columns.forEach((c) =>
+      pen.text(c.title, c.x, y, c.align ? { align: c.align } : undefined)
+    );
+    y += ROW_H + 2;
+  };
+
+  const newPage = () => {
+    doc.addPage();
+    y = TOP;
+    doc.setFont(FONT, "normal");
+    doc.setFontSize(9);
+    doc.setTextColor(107, 114, 128);
+    pen.text(runningHeader, LEFT, y);
+    doc.setTextColor(0, 0, 0);
+    y += ROW_H + 4;
+    drawHeaders();
+  };
+
+  return {
+    start(atY: number) {
+      y = atY;
+      drawHeaders();
+    },
+    row(cells: string[], style: RowStyle = "body") {
+      if (y + ROW_H > BOTTOM) newPage();
+      doc.setFont(FONT, style === "body" ? "normal" : "bold");
+      doc.setFontSize(style === "total" ? 11 : 10);
+      if (style === "subtotal" || style === "total") {
+        doc.setDrawColor(209, 213, 219);
+        doc.line(LEFT - 4, y - 11, RIGHT + 4, y - 11);
+      }
+      cells.forEach((text, i) => {
+        const c = columns[i];
+        if (!text) return;
+        // Group headings run across the row instead of fitting one cell.
+        pen.text(
+          c.align || style === "group" ? text : fit(text, c.width - 4),
+          c.x,
+          y,
+          c.align ? { align: c.align } : undefined
+        );
+      });
+      y += style === "body" ? ROW_H : ROW_H + 4;
+    },
+    gap() {
+      y += ROW_H / 2;
+    },
+  };
+}
+
+/* -------------------- Report -------------------- */
+/** The report in the current language; async for the Bangla font. */
+export async function buildReport(o: ReportOptions): Promise<jsPDF> {
+  const doc = new jsPDF({ unit: "pt", format: "a4" });
+  const bangla = getLanguage() === "bn";
+  if (bangla) await loadBengaliFont();
+  const pen = bangla ? banglaPen(doc) : plainPen(doc);
+  const generatedAt = o.generatedAt ?? new Date();
+  const periodLabel = o.period?.label ?? t("report.allDates");
+
+  // First-page header.
+  let y = TOP;
+  doc.setFont(FONT, "bold");
+  doc.setFontSize(18);
+  pen.text(t("app.title"), LEFT, y);
+  doc.setFontSize(12);
+  pen.text(t(`report.${o.template}`), RIGHT, y, { align: "right" });
+  y += 22;
+  doc.setFont(FONT, "normal");
+  doc.setFontSize(11);
+  if (o.doctorName) {
+    pen.text(o.doctorName, LEFT, y);
+    y += 16;
+  }
+  pen.text(`${o.scopeLabel} · ${periodLabel}`, LEFT, y);
+  y += 16;
+  doc.setFontSize(9);
+  doc.setTextColor(107, 114, 128);
+  pen.text(
+    t("report.generated", {
+      profile: o.profileName,
+      at: generatedAt.toLocaleString(locale()),
+    }),
+    LEFT,
+    y
+  );
+  doc.setTextColor(0, 0, 0);
+  y += 12;
+  doc.setDrawColor(37, 99, 235);
+  doc.setLineWidth(1.5);
+  doc.line(LEFT, y, RIGHT, y);
+  doc.setLineWidth(0.5);
+  y += 24;
+
+  if (o.sessions.length === 0) {
+    doc.setFontSize(12);
+    pen.text(t("common.noEntries"), LEFT, y);
+  } else {
+    // The profile is often named after the doctor; don't print it twice.
+    const running = [o.profileName, o.doctorName, o.scopeLabel, periodLabel]
+      .filter((s, i, all) => s && all.indexOf(s) === i)
+      .join(" · ");
+    const sorted = o.sessions.slice().sort(chronological);
+    const byMonth = groupBy(sorted, (s) => s.date.slice(0, 7));
+    const byLocation = (list: Session[]) =>
+      groupBy(list, (s) => s.locationId).sort((a, b) =>
+        o.locationName(a[0]).localeCompare(o.locationName(b[0]))
+      );
+    const used = categoriesIn(sorted, o.categories);
+    const billed = hasRevenue(sorted);
+    const shared = used.length > MAX_COUNTER_COLUMNS - (billed ? 1 : 0);
+    const counterTitles = shared
+      ? [t("common.other")]
+      : used.map((c) => c.name);
+    const counterCells = (counts?: CategoryCounts) =>
+      shared
+        ? [digits(sumCounts(counts))]
+        : used.map((c) => digits(counts?.[c.id] ?? 0));
+    const sumCells = (s: Sums | Session) => [
+      fmtSplit(s.newCount),
+      fmtSplit(s.oldCount),
+      ...counterCells(s.counts),
+      digits(s.total),
+      ...(billed
+        ? [s.revenue === undefined ? "—" : s.revenue.toLocaleString(locale())]
+        : []),
+    ];
+    // Only reflow the columns when there is something to make room for.
+    const incomeTitle = billed
+      ? t("report.incomeColumn", { currency: o.currency })
+      : null;
+    const reflow = used.length > 0 || billed;
+    const detailed = detailedColumns();
+    const monthly = monthlyColumns();
+    const detailedLayout = reflow
+      ? withCountColumns(detailed.slice(0, 3), counterTitles, [], incomeTitle)
+      : detailed;
+    const monthlyLayout = reflow
+      ? withCountColumns(
+          monthly.slice(0, 2),
+          counterTitles,
+          [t("common.sessions")],
+          incomeTitle
+        )
+      : monthly;
+    const blank = detailedLayout.slice(1).map(() => "");
+
+    if (o.template === "detailed") {
+      const table = tableWriter(doc, pen, detailedLayout, running);
+      table.start(y);
+      let n = 0;
+      byMonth.forEach(([month, inMonth]) => {
+        table.row([monthLabel(`${month}-01`), ...blank], "group");
+        byLocation(inMonth).forEach(([locationId, rows]) => {
+          rows.forEach((s) =>
+            table.row([
+              `${digits(++n)}.`,
+              formatDateDMY(s.date),
+              s.shift
+                ? `${o.locationName(s.locationId)} (${shiftLabel(s.shift)})`
+                : o.locationName(s.locationId),
+              ...sumCells(s),
+            ])
+          );
+          table.row(
+            [
+              "",
+              "",
+              t("report.subtotal", { location: o.locationName(locationId) }),
+              ...sumCells(sumOf(rows)),
+            ],
+            "subtotal"
+          );
+        });
+        table.row(
+          [
+            "",
+            "",
+            t("report.totalOf", { month: monthLabel(`${month}-01`) }),
+            ...sumCells(sumOf(inMonth)),
+          ],
+          "subtotal"
+        );
+        table.gap();
+      });
+      const all = sumOf(sorted);
+      table.row(
+        [
+          "",
+          "",
+          t("report.grandTotalSessions", { n: all.sessions }),
+          ...sumCells(all),
+        ],
+        "total"
+      );
+    } else {
+      const table = tableWriter(doc, pen, monthlyLayout, running);
+      table.start(y);
+      byMonth.forEach(([month, inMonth]) => {
+        const locs = byLocation(inMonth);
+        locs.forEach(([locationId, rows], i) => {
+          const s = sumOf(rows);
+          table.row([
+            i === 0 ? monthLabel(`${month}-01`) : "",
+            o.locationName(locationId),
+            digits(s.sessions),
+            ...sumCells(s),
+          ]);
+        });
+        const m = sumOf(inMonth);
+        table.row(
+          ["", t("report.monthTotal"), digits(m.sessions), ...sumCells(m)],
+          "subtotal"
+        );
+        table.gap();
+      });
+      const all = sumOf(sorted);
+      table.row(
+        [t("report.grandTotal"), "", digits(all.sessions), ...sumCells(all)],
+        "total"
+      );
+    }
+  }
+
+  // Footer on every page, now that the page count is known.
+  const pages = doc.getNumberOfPages();
+  for (let i = 1; i <= pages; i++) {
+    doc.setPage(i);
+    doc.setFont(FONT, "normal");
+    doc.setFontSize(9);
+    doc.setTextColor(107, 114, 128);
+    pen.text(t("app.title"), LEFT, PAGE_H - 30);
+    pen.text(t("report.page", { page: i, pages }), RIGHT, PAGE_H - 30, {
+      align: "right",
+    });
+    doc.setTextColor(0, 0, 0);
+  }
+  return doc;
+}
+
+export const reportFilename = (
+  o: Pick<ReportOptions, "template" | "profileName" | "scopeLabel" | "period">
+) =>
+  exportFilename(
+    o.profileName,
+    o.scopeLabel,
+    o.period,
+    "pdf",
+    o.template === "monthly" ? t("report.monthly") : undefined
+  );
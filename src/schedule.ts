@@ -0,0 +1,107 @@
+import { v4 as uuidv4 } from "uuid";
+import { digits, t, weekdayNames } from "./i18n.ts";
+import type { ScheduleSlot } from "./types.ts";
+
+// Counting this long before a slot starts still counts as on schedule.
+const EARLY_MS = 30 * 60_000;
+// Grace after a slot ends before reminding to finish.
+export const REMINDER_DELAY_MS = 15 * 60_000;
+const DAY_MS = 86_400_000;
+
+export const newSlot = (locationId: string): ScheduleSlot => ({
+  id: uuidv4(),
+  locationId,
+  weekdays: [],
+  start: "17:00",
+  end: "21:00",
+});
+
+/* -------------------- Occurrences -------------------- */
+const minutesOf = (hhmm: string) => {
+  const [h, m] = hhmm.split(":").map(Number);
+  return h * 60 + m;
+};
+
+/** The slot's start and end on the day of `day` (local), if it runs then. */
+function occurrenceOn(slot: ScheduleSlot, day: Date) {
+  if (!slot.weekdays.includes(day.getDay())) return null;
+  const start = new Date(day);
+  start.setHours(0, minutesOf(slot.start), 0, 0);
+  // An end at or before the start runs past midnight.
+  const length =
+    (minutesOf(slot.end) - minutesOf(slot.start) + 24 * 60) % (24 * 60) ||
+    24 * 60;
+  return { slot, start, end: new Date(start.getTime() + length * 60_000) };
+}
+
+// Occurrences that started yesterday or start today, oldest first.
+function occurrencesAround(schedule: ScheduleSlot[], at: Date) {
+  const yesterday = new Date(at.getTime() - DAY_MS);
+  return [yesterday, at]
+    .flatMap((day) => schedule.map((s) => occurrenceOn(s, day)))
+    .filter((o) => o !== null)
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+}
+
+/** The occurrence running at `at` (a little early included), if any. */
+export const slotAt = (
+  schedule: ScheduleSlot[],
+  at: Date,
+  locationId?: string
+) =>
+  occurrencesAround(schedule, at).find(
+    (o) =>
+      (locationId === undefined || o.slot.locationId === locationId) &&
+      o.start.getTime() - EARLY_MS <= at.getTime() &&
+      at < o.end
+  ) ?? null;
+
+/**
+ * The location to preselect at `at`: the one scheduled now, else the next
+ * one later today, else the last one earlier today.
+ */
+export function scheduledLocation(
+  schedule: ScheduleSlot[],
+  at: Date
+): string | null {
+  const now = slotAt(schedule, at);
+  if (now) return now.slot.locationId;
+  const today = schedule
+    .map((s) => occurrenceOn(s, at))
+    .filter((o) => o !== null)
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+  const next = today.find((o) => o.start > at);
+  return (next ?? today[today.length - 1])?.slot.locationId ?? null;
+}
+
+/** The first time the clock shows `hhmm` (local) after `after`. */
+export function nextTimeOfDay(after: Date, hhmm: string) {
+  const t = new Date(after);
+  t.setHours(0, minutesOf(hhmm), 0, 0);
+  if (t <= after) t.setDate(t.getDate() + 1);
+  return t;
+}
+
+/* -------------------- Formatting -------------------- */
+/** e.g. "Mon/Wed/Sat 17:00–21:00". */
+export const fmtSlot = (slot: ScheduleSlot) =>
+  `${
+    slot.weekdays
+      .slice()
+      .sort((a, b) => a - b)
+      .map((d) => weekdayNames()[d])
+      .join("/") || t("schedule.noDays")
+  } ${digits(`${slot.start}–${slot.end}`)}`;
+
+/* -------------------- Reminders -------------------- */
+// Shown through the service worker where there is one (required on
+// Android). Nothing is scheduled with the OS: the page sets a timer, so
+// the reminder only fires while the app is open or in the background.
+export async function showReminder(title: string, body: string) {
+  if (!("Notification" in window) || Notification.permission !== "granted")
+    return;
+  const options = { body, tag: "pc-finish", icon: "/vite.svg" };
+  const reg = await navigator.serviceWorker?.getRegistration();
+  if (reg) await reg.showNotification(title, options);
+  else new Notification(title, options);
+}
@@ -0,0 +1,314 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  addImported,
+  applyEdit,
+  bySessionOrder,
+  canSplit,
+  finishSession,
+  markDeleted,
+  markRestored,
+  mergeTargetOf,
+  unmerge,
+  type FinishedCount,
+} from "./sessions.ts";
+import type { Location, Session } from "./types.ts";
+
+beforeEach(() => {
+  process.env.TZ = "Asia/Dhaka";
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date("2025-03-02T13:00:00+06:00"));
+});
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+const clinic: Location = {
+  id: "clinic",
+  name: "Clinic",
+  archived: false,
+  fees: { new: 500, old: 300 },
+};
+
+const count = (fields: Partial<FinishedCount> = {}): FinishedCount => ({
+  date: "2025-03-02",
+  locationId: "clinic",
+  newCount: 2,
+  oldCount: 1,
+  visits: [
+    { kind: "new", at: "2025-03-02T09:10:00.000+06:00" },
+    { kind: "old", at: "2025-03-02T09:20:00.000+06:00" },
+    { kind: "new", at: "2025-03-02T09:30:00.000+06:00" },
+  ],
+  ...fields,
+});
+
+const session = (fields: Partial<Session>): Session => ({
+  sessionId: "s",
+  date: "2025-03-01",
+  locationId: "clinic",
+  newCount: 1,
+  oldCount: 1,
+  total: 2,
+  finishedAt: "2025-03-01T12:00:00.000+06:00",
+  ...fields,
+});
+
+describe("finishSession", () => {
+  it("creates a session with its shift, billing and audit entry", () => {
+    const [s] = finishSession([], count(), "merge", clinic);
+    expect(s).toMatchObject({
+      date: "2025-03-02",
+      locationId: "clinic",
+      shift: "morning", // from the first arrival, not the finish
+      newCount: 2,
+      oldCount: 1,
+      total: 3,
+      finishedAt: "2025-03-02T13:00:00.000+06:00",
+      billing: { fees: { new: 500, old: 300 } },
+      revenue: 1300,
+      rev: 1,
+    });
+    expect(s.audit?.map((a) => a.action)).toEqual(["created"]);
+  });
+
+  it("adds custom counters to the total", () => {
+    const [s] = finishSession(
+      [],
+      count({ counts: { dressing: 2 } }),
+      "separate"
+    );
+    expect(s.total).toBe(5);
+    expect(s.counts).toEqual({ dressing: 2 });
+  });
+
+  it("merges into the same date and location, keeping each part", () => {
+    const first = finishSession([], count(), "merge", clinic);
+    vi.setSystemTime(new Date("2025-03-02T19:00:00+06:00"));
+    const merged = finishSession(
+      first,
+      count({
+        newCount: 0,
+        oldCount: 1,
+        visits: [{ kind: "old", at: "2025-03-02T18:00:00.000+06:00" }],
+      }),
+      "merge",
+      clinic
+    );
+    expect(merged).toHaveLength(1);
+    const [s] = merged;
+    expect(s.sessionId).toBe(first[0].sessionId);
+    expect(s).toMatchObject({ newCount: 2, oldCount: 2, total: 4, rev: 2 });
+    expect(s.parts?.map((p) => p.total)).toEqual([3, 1]);
+    expect(s.visits).toHaveLength(4);
+    expect(s.finishedAt).toBe("2025-03-02T19:00:00.000+06:00");
+    expect(s.audit?.at(-1)).toMatchObject({
+      action: "merged",
+      message: { key: "audit.note.mergedIn", values: { n: 1 } },
+    });
+  });
+
+  it("keeps the fees a merged record was charged at", () => {
+    const first = finishSession([], count(), "merge", clinic);
+    const raised = { ...clinic, fees: { new: 800, old: 400 } };
+    const [s] = finishSession(first, count(), "merge", raised);
+    expect(s.billing?.fees).toEqual({ new: 500, old: 300 });
+  });
+
+  it("sums a merged split to unknown when either side lacks it", () => {
+    const old = session({
+      date: "2025-03-02",
+      newCount: null,
+      oldCount: null,
+      total: 5,
+    });
+    const [s] = finishSession([old], count(), "merge");
+    expect(s).toMatchObject({ newCount: null, oldCount: null, total: 8 });
+  });
+
+  it("never merges into a deleted session", () => {
+    const gone = session({
+      date: "2025-03-02",
+      deletedAt: "2025-03-02T10:00:00.000+06:00",
+    });
+    const list = finishSession([gone], count(), "merge");
+    expect(list).toHaveLength(2);
+    expect(mergeTargetOf(list, "2025-03-02", "clinic")).not.toBe(gone);
+  });
+
+  it("keeps a separate shift as its own session", () => {
+    const first = finishSession([], count(), "separate");
+    vi.setSystemTime(new Date("2025-03-02T21:00:00+06:00"));
+    const list = finishSession(
+      first,
+      count({
+        visits: [{ kind: "new", at: "2025-03-02T18:30:00.000+06:00" }],
+      }),
+      "separate"
+    );
+    expect(list.map((s) => s.shift)).toEqual(["evening", "morning"]);
+  });
+});
+
+describe("bySessionOrder", () => {
+  it("puts newer dates first, then later finishes", () => {
+    const list = [
+      session({ sessionId: "a", date: "2025-01-05" }),
+      session({
+        sessionId: "b",
+        date: "2025-02-01",
+        finishedAt: "2025-02-01T09:00:00.000+06:00",
+      }),
+      session({
+        sessionId: "c",
+        date: "2025-02-01",
+        finishedAt: "2025-02-01T20:00:00.000+06:00",
+      }),
+    ];
+    expect(list.sort(bySessionOrder).map((s) => s.sessionId)).toEqual([
+      "c",
+      "b",
+      "a",
+    ]);
+  });
+
+  it("compares finishes by instant across offsets", () => {
+    // 01:00 in Dhaka is 19:00Z the day before: earlier than 20:00Z.
+    const list = [
+      session({ sessionId: "utc", finishedAt: "2025-03-01T20:00:00.000Z" }),
+      session({
+        sessionId: "dhaka",
+        finishedAt: "2025-03-02T01:00:00.000+06:00",
+      }),
+    ];
+    expect(list.sort(bySessionOrder).map((s) => s.sessionId)).toEqual([
+      "utc",
+      "dhaka",
+    ]);
+  });
+});
+
+describe("unmerge", () => {
+  const merged = () => {
+    const first = finishSession([], count(), "merge", clinic);
+    vi.setSystemTime(new Date("2025-03-02T19:00:00+06:00"));
+    return finishSession(
+      first,
+      count({
+        newCount: 1,
+        oldCount: 0,
+        visits: [{ kind: "new", at: "2025-03-02T18:00:00.000+06:00" }],
+      }),
+      "merge",
+      clinic
+    );
+  };
+
+  it("splits a merged record back into its finishes", () => {
+    const [src] = merged();
+    const list = unmerge([src], src.sessionId);
+    expect(list).toHaveLength(2);
+    const kept = list.find((s) => s.sessionId === src.sessionId)!;
+    const spun = list.find((s) => s.sessionId !== src.sessionId)!;
+    expect(kept).toMatchObject({ total: 3, shift: "morning" });
+    expect(kept.parts).toBeUndefined();
+    expect(spun).toMatchObject({ total: 1, shift: "evening", revenue: 500 });
+    expect(spun.audit?.[0].message).toEqual({
+      key: "audit.note.splitFrom",
+      values: { id: src.sessionId },
+    });
+  });
+
+  it("refuses once the counts were edited after merging", () => {
+    const list = merged();
+    const edited = applyEdit(list, list[0].sessionId, {
+      ...list[0],
+      newCount: 10,
+      total: 11,
+    });
+    expect(canSplit(edited[0])).toBe(false);
+    expect(unmerge(edited, edited[0].sessionId)).toBe(edited);
+  });
+});
+
+describe("applyEdit", () => {
+  it("records only the fields that changed", () => {
+    const s = session({ sessionId: "x", counts: { dressing: 1 } });
+    const [edited] = applyEdit([s], "x", {
+      ...s,
+      oldCount: 3,
+      total: 4,
+      counts: { dressing: 1 },
+    });
+    expect(edited.audit?.[0].changes).toEqual([
+      { field: "oldCount", from: 1, to: 3 },
+      { field: "total", from: 2, to: 4 },
+    ]);
+  });
+
+  it("leaves an unchanged session as it was", () => {
+    const s = session({ sessionId: "x" });
+    expect(applyEdit([s], "x", { ...s })[0]).toBe(s);
+  });
+
+  it("re-sorts after a date change", () => {
+    const a = session({ sessionId: "a", date: "2025-03-01" });
+    const b = session({ sessionId: "b", date: "2025-02-01" });
+    const list = applyEdit([a, b], "b", { ...b, date: "2025-04-01" });
+    expect(list.map((s) => s.sessionId)).toEqual(["b", "a"]);
+  });
+});
+
+describe("markDeleted and markRestored", () => {
+  it("keeps a tombstone that can be restored", () => {
+    const s = session({ sessionId: "x" });
+    const [gone] = markDeleted([s], "x");
+    expect(gone.deletedAt).toBe("2025-03-02T13:00:00.000+06:00");
+    const [back] = markRestored([gone], "x");
+    expect(back.deletedAt).toBeUndefined();
+    expect(back.audit?.map((a) => a.action)).toEqual(["deleted", "restored"]);
+    expect(back.rev).toBe(2);
+  });
+});
+
+describe("addImported", () => {
+  it("matches location names case-insensitively and adds new ones", () => {
+    const { sessions, locations } = addImported(
+      [],
+      [clinic],
+      [
+        {
+          date: "2025-01-02",
+          location: "CLINIC",
+          newCount: 1,
+          oldCount: 2,
+          total: 3,
+        },
+        {
+          date: "2025-01-03",
+          location: "Hospital",
+          newCount: null,
+          oldCount: null,
+          total: 7,
+        },
+        {
+          date: "2025-01-04",
+          location: "hospital",
+          newCount: 1,
+          oldCount: 0,
+          total: 1,
+        },
+      ]
+    );
+    expect(locations.map((l) => l.name)).toEqual(["Clinic", "Hospital"]);
+    expect(sessions.map((s) => s.date)).toEqual([
+      "2025-01-04",
+      "2025-01-03",
+      "2025-01-02",
+    ]);
+    expect(sessions[2].locationId).toBe("clinic");
+    expect(sessions[0].locationId).toBe(sessions[1].locationId);
+    expect(sessions[0].audit?.[0].message).toEqual({
+      key: "audit.note.imported",
+    });
+  });
+});
@@ -0,0 +1,267 @@
+import { v4 as uuidv4 } from "uuid";
+import { addCounts, sumCounts } from "./counters.ts";
+import { compareTimestamps, localTimestamp } from "./dates.ts";
+import { billingFor, withBilling } from "./fees.ts";
+import type { ImportDraft } from "./spreadsheet.ts";
+import type {
+  AuditChange,
+  AuditEntry,
+  Billing,
+  CategoryCounts,
+  Location,
+  Session,
+  SessionPart,
+  Shift,
+  Visit,
+} from "./types.ts";
+import { addSplit, newLocation } from "./utils.ts";
+
+/*
+ * The session list as App keeps it: every operation takes the whole list,
+ * deleted tombstones included, and returns a new one in bySessionOrder.
+ * Storage persists the difference, so nothing here touches IndexedDB.
+ */
+
+/* -------------------- Ordering -------------------- */
+/** Newest date first; within a date, latest finish first. */
+export const bySessionOrder = (a: Session, b: Session) =>
+  a.date === b.date
+    ? compareTimestamps(b.finishedAt, a.finishedAt)
+    : b.date.localeCompare(a.date);
+export const byArrival = (a: Visit, b: Visit) => compareTimestamps(a.at, b.at);
+
+/* -------------------- Helpers -------------------- */
+const partOf = (s: Session): SessionPart => ({
+  newCount: s.newCount,
+  oldCount: s.oldCount,
+  counts: s.counts,
+  total: s.total,
+  finishedAt: s.finishedAt,
+  visits: s.visits,
+});
+const partStart = (p: SessionPart) => p.visits?.[0]?.at ?? p.finishedAt;
+
+// Every recorded change also bumps the revision sync uses for conflicts.
+const withAudit = (s: Session, entry: Omit<AuditEntry, "at">): Session => ({
+  ...s,
+  rev: (s.rev ?? 0) + 1,
+  audit: [...(s.audit ?? []), { at: localTimestamp(), ...entry }],
+});
+
+/** Shift from the local hour a session started. */
+export function shiftFor(startedAt: string): Shift {
+  const h = new Date(startedAt).getHours();
+  if (h < 12) return "morning";
+  if (h < 17) return "afternoon";
+  return "evening";
+}
+
+/**
+ * A merged record can only be split back if its parts still add up,
+ * i.e. its counts were not edited after the merge.
+ */
+export const canSplit = (s: Session) =>
+  (s.parts?.length ?? 0) > 1 &&
+  s.parts!.reduce((n, p) => n + p.total, 0) === s.total;
+
+/** The record a finish at `date` and `locationId` would merge into. */
+export const mergeTargetOf = (
+  list: Session[],
+  date: string | null,
+  locationId: string | null
+) =>
+  list.find(
+    (s) => !s.deletedAt && s.date === date && s.locationId === locationId
+  );
+
+/* -------------------- Finish -------------------- */
+/** What the counter hands over when a session is finished. */
+export type FinishedCount = {
+  date: string;
+  locationId: string;
+  newCount: number;
+  oldCount: number;
+  counts?: CategoryCounts;
+  visits: Visit[];
+};
+
+/**
+ * Records a finish: added to the existing session for its date and
+ * location under "merge", else saved as a new session with its own shift.
+ * Billing comes from `location`; a merged record keeps the fees it had.
+ */
+export function finishSession(
+  list: Session[],
+  done: FinishedCount,
+  mode: "merge" | "separate",
+  location?: Location
+): Session[] {
+  const { date, locationId, newCount, oldCount, counts, visits } = done;
+  const total = newCount + oldCount + sumCounts(counts);
+  const part: SessionPart = {
+    newCount,
+    oldCount,
+    counts,
+    total,
+    finishedAt: localTimestamp(),
+    visits,
+  };
+  const existing =
+    mode === "merge" ? mergeTargetOf(list, date, locationId) : undefined;
+  if (existing) {
+    const merged = withAudit(
+      withBilling(
+        {
+          ...existing,
+          newCount: addSplit(existing.newCount, newCount),
+          oldCount: addSplit(existing.oldCount, oldCount),
+          counts: addCounts(existing.counts, counts),
+          total: existing.total + total,
+          finishedAt: part.finishedAt,
+          visits: [...(existing.visits ?? []), ...visits].sort(byArrival),
+          parts: [...(existing.parts ?? [partOf(existing)]), part],
+        },
+        existing.billing ?? billingFor(location)
+      ),
+      {
+        action: "merged",
+        message: { key: "audit.note.mergedIn", values: { n: total } },
+      }
+    );
+    return list.map((s) => (s === existing ? merged : s)).sort(bySessionOrder);
+  }
+  const created = withAudit(
+    withBilling(
+      {
+        sessionId: uuidv4(),
+        date,
+        locationId,
+        shift: shiftFor(partStart(part)),
+        ...part,
+      },
+      billingFor(location)
+    ),
+    { action: "created" }
+  );
+  return [created, ...list].sort(bySessionOrder);
+}
+
+/* -------------------- Editing -------------------- */
+const patch = (list: Session[], id: string, fn: (s: Session) => Session) =>
+  list.map((s) => (s.sessionId === id ? fn(s) : s)).sort(bySessionOrder);
+
+/** Applies edited fields, recording the ones that changed. */
+export function applyEdit(
+  list: Session[],
+  id: string,
+  fields: Pick<Session, AuditChange["field"]>
+): Session[] {
+  // Counts are an object; the audit trail keeps them as JSON.
+  const value = (v: Session[AuditChange["field"]]) =>
+    typeof v === "object" ? JSON.stringify(v) : (v ?? null);
+  return patch(list, id, (s) => {
+    const changes = (Object.keys(fields) as AuditChange["field"][])
+      .filter((f) => value(fields[f]) !== value(s[f]))
+      .map((f) => ({ field: f, from: value(s[f]), to: value(fields[f]) }));
+    return changes.length === 0
+      ? s
+      : withAudit({ ...s, ...fields }, { action: "edited", changes });
+  });
+}
+
+/** Marks a session deleted; the tombstone stays so sync can pass it on. */
+export const markDeleted = (list: Session[], id: string) =>
+  patch(list, id, (s) =>
+    withAudit({ ...s, deletedAt: localTimestamp() }, { action: "deleted" })
+  );
+export const markRestored = (list: Session[], id: string) =>
+  patch(list, id, (s) =>
+    withAudit({ ...s, deletedAt: undefined }, { action: "restored" })
+  );
+
+/**
+ * Turns a merged record back into one session per original finish. The
+ * first finish keeps the original id (and its audit trail) and the
+ * per-session overrides; the rest are charged the same fees without them.
+ */
+export function unmerge(list: Session[], id: string): Session[] {
+  const src = list.find((s) => s.sessionId === id);
+  if (!src || !canSplit(src)) return list;
+  const [first, ...rest] = src.parts!;
+  const kept = withAudit(
+    withBilling(
+      { ...src, counts: undefined, ...first, parts: undefined },
+      src.billing
+    ),
+    {
+      action: "split",
+      message: { key: "audit.note.splitOut", values: { n: rest.length } },
+    }
+  );
+  const billing: Billing | undefined = src.billing && {
+    fees: src.billing.fees,
+    freeNew: 0,
+    freeOld: 0,
+    discount: 0,
+  };
+  const spun = rest.map((p) =>
+    withAudit(
+      withBilling(
+        {
+          sessionId: uuidv4(),
+          date: src.date,
+          locationId: src.locationId,
+          shift: shiftFor(partStart(p)),
+          ...p,
+        },
+        billing
+      ),
+      {
+        action: "split",
+        message: { key: "audit.note.splitFrom", values: { id: src.sessionId } },
+      }
+    )
+  );
+  return [...list.filter((s) => s !== src), kept, ...spun].sort(bySessionOrder);
+}
+
+/* -------------------- Import -------------------- */
+/**
+ * Adds imported rows as new sessions. Location names are matched
+ * case-insensitively; unknown ones become new locations.
+ */
+export function addImported(
+  list: Session[],
+  locations: Location[],
+  drafts: ImportDraft[]
+): { sessions: Session[]; locations: Location[] } {
+  const registry = [...locations];
+  const idFor = (name: string) => {
+    let loc = registry.find((l) => l.name.toLowerCase() === name.toLowerCase());
+    if (!loc) {
+      loc = newLocation(name);
+      registry.push(loc);
+    }
+    return loc.id;
+  };
+  const created = drafts.map((d) =>
+    withAudit(
+      {
+        sessionId: uuidv4(),
+        date: d.date,
+        locationId: idFor(d.location),
+        shift: d.shift,
+        newCount: d.newCount,
+        oldCount: d.oldCount,
+        counts: d.counts,
+        total: d.total,
+        finishedAt: localTimestamp(),
+      },
+      { action: "created", message: { key: "audit.note.imported" } }
+    )
+  );
+  return {
+    sessions: [...list, ...created].sort(bySessionOrder),
+    locations: registry,
+  };
+}
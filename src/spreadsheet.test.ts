@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+import {
+  guessMapping,
+  parseCSV,
+  guessCounterMapping,
+  toCSV,
+  validateImport,
+} from "./spreadsheet.ts";
+import type { CounterCategory, Session } from "./types.ts";
+
+describe("parseCSV", () => {
+  it("reads quoted commas, quotes and newlines", () => {
+    const rows = parseCSV('\uFEFFa,"b, c","say ""hi"""\r\n"two\nlines",x\n');
+    expect(rows.map((r) => r.cells)).toEqual([
+      ["a", "b, c", 'say "hi"'],
+      ["two\nlines", "x"],
+    ]);
+  });
+
+  it("keeps each row's line in the file across blank and quoted lines", () => {
+    const text = [
+      "Date,Location,Total",
+      "",
+      "2025-03-01,Clinic,4",
+      '2025-03-02,"Clinic',
+      'Annex",5',
+      "   ",
+      "",
+      "2025-03-03,Clinic,6",
+    ].join("\r\n");
+    expect(parseCSV(text).map((r) => r.line)).toEqual([1, 3, 4, 8]);
+  });
+});
+
+describe("validateImport", () => {
+  it("reports errors at the line they are on", () => {
+    const [header, ...rows] = parseCSV(
+      "Date,Location,NEW,OLD,Total\n\n2025-03-01,Clinic,1,2,3\n\n\n31/02/2025,Clinic,1,1,2\n2025-03-01,clinic,2,2,5\n"
+    );
+    const result = validateImport(
+      rows,
+      guessMapping(header.cells),
+      new Set(["2025-03-01|clinic"])
+    );
+    expect(result.map((r) => [r.line, r.errors, r.duplicate])).toEqual([
+      [3, [], true],
+      [6, ["import.badDate"], false],
+      [7, ["import.totalMismatch"], true],
+    ]);
+  });
+});
+
+describe("toCSV", () => {
+  const session: Session = {
+    sessionId: "s1",
+    date: "2025-03-01",
+    locationId: "l1",
+    newCount: 2,
+    oldCount: 1,
+    counts: { c1: 1 },
+    total: 4,
+    finishedAt: "2025-03-01T12:00:00.000+06:00",
+  };
+
+  const referrals: CounterCategory = {
+    id: "c1",
+    name: "+referrals",
+    color: "teal",
+    locationId: null,
+    archived: false,
+  };
+
+  it("keeps names that look like formulas as text", () => {
+    const csv = toCSV([session], () => '=HYPERLINK("x")', [referrals]);
+    const [header, row] = parseCSV(csv);
+    expect(header.cells[5]).toBe("'+referrals");
+    expect(row.cells.slice(0, 7)).toEqual([
+      "2025-03-01",
+      '\'=HYPERLINK("x")',
+      "",
+      "2",
+      "1",
+      "1",
+      "4",
+    ]);
+    // Importing the file gives the names back as they were.
+    const counters = guessCounterMapping(header.cells, [referrals]);
+    expect(counters).toEqual({ c1: 5 });
+    const [imported] = validateImport(
+      [row],
+      guessMapping(header.cells),
+      new Set(),
+      counters
+    );
+    expect(imported.draft?.location).toBe('=HYPERLINK("x")');
+  });
+});
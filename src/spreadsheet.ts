@@ -0,0 +1,305 @@
+import writeXlsxFile, { type Row } from "write-excel-file/browser";
+import { categoriesIn, normalizeCounts, sumCounts } from "./counters.ts";
+import type { MessageKey } from "./i18n.ts";
+import type {
+  CategoryCounts,
+  CounterCategory,
+  Session,
+  Shift,
+} from "./types.ts";
+import { SHIFT_LABELS } from "./utils.ts";
+
+/* -------------------- Export -------------------- */
+// Spreadsheets run text starting with one of these as a formula; names
+// are user-entered (or imported, or synced), so they get a leading '.
+const FORMULA_START = /^[=+\-@]/;
+const asText = (v: string) => (FORMULA_START.test(v) ? `'${v}` : v);
+/** Undoes `asText`, for reading our own export back in. */
+const fromText = (v: string) => v.replace(/^'(?=[=+\-@])/, "");
+
+// One row per session; split-unknown counts are left blank. Custom
+// categories used in `list` get a column each, after OLD.
+function exportTable(
+  list: Session[],
+  locationName: (id: string) => string,
+  categories: CounterCategory[]
+) {
+  const used = categoriesIn(list, categories);
+  const header = [
+    "Date",
+    "Location",
+    "Shift",
+    "NEW",
+    "OLD",
+    ...used.map((c) => asText(c.name)),
+    "Total",
+    "Finished at",
+    "Session ID",
+  ];
+  const rows = list.map((s) => [
+    s.date,
+    asText(locationName(s.locationId)),
+    s.shift ? SHIFT_LABELS[s.shift] : "",
+    s.newCount,
+    s.oldCount,
+    ...used.map((c) => s.counts?.[c.id] ?? 0),
+    s.total,
+    s.finishedAt,
+    s.sessionId,
+  ]);
+  return { header, rows, used };
+}
+
+const csvCell = (v: string | number | null) => {
+  const s = v === null ? "" : String(v);
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+};
+
+export function toCSV(
+  list: Session[],
+  locationName: (id: string) => string,
+  categories: CounterCategory[]
+): string {
+  const { header, rows } = exportTable(list, locationName, categories);
+  const lines = [header, ...rows].map((r) => r.map(csvCell).join(","));
+  // BOM so Excel opens UTF-8 (e.g. Bangla names) correctly.
+  return "\uFEFF" + lines.join("\r\n") + "\r\n";
+}
+
+export function toXLSX(
+  list: Session[],
+  locationName: (id: string) => string,
+  categories: CounterCategory[]
+): Promise<Blob> {
+  const table = exportTable(list, locationName, categories);
+  const header: Row = table.header.map((h) => ({
+    value: h,
+    fontWeight: "bold" as const,
+  }));
+  const rows: Row[] = table.rows.map((r) =>
+    r.map((v) => (v === null || v === "" ? null : v))
+  );
+  return writeXlsxFile([header, ...rows], {
+    sheet: "Sessions",
+    stickyRowsCount: 1,
+    columns: [12, 24, 10, 7, 7, ...table.used.map(() => 12), 7, 26, 38].map(
+      (width) => ({ width })
+    ),
+  }).toBlob();
+}
+
+/* -------------------- CSV parsing -------------------- */
+/** A parsed record and the 1-based file line it starts on. */
+export type CsvRow = { line: number; cells: string[] };
+
+// RFC 4180: quoted fields may contain commas, quotes ("") and newlines.
+export function parseCSV(text: string): CsvRow[] {
+  const rows: CsvRow[] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  let line = 1;
+  let start = 1; // line the current record began on
+  const src = text.replace(/^\uFEFF/, "");
+  for (let i = 0; i < src.length; i++) {
+    const c = src[i];
+    if (quoted) {
+      if (c === '"' && src[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (c === '"') quoted = false;
+      else {
+        cell += c;
+        if (c === "\n" || (c === "\r" && src[i + 1] !== "\n")) line++;
+      }
+    } else if (c === '"') quoted = true;
+    else if (c === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (c === "\n" || c === "\r") {
+      if (c === "\r" && src[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push({ line: start, cells: row });
+      row = [];
+      cell = "";
+      start = ++line;
+    } else cell += c;
+  }
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push({ line: start, cells: row });
+  }
+  // Blank lines carry no data; the rest keep their line numbers.
+  return rows.filter((r) => r.cells.some((c) => c.trim() !== ""));
+}
+
+/* -------------------- Import mapping -------------------- */
+export type ImportField =
+  "date" | "location" | "shift" | "newCount" | "oldCount" | "total";
+/** CSV column index per field; -1 = not mapped. */
+export type ImportMapping = Record<ImportField, number>;
+
+export const IMPORT_FIELDS: { field: ImportField; label: MessageKey }[] = [
+  { field: "date", label: "common.date" },
+  { field: "location", label: "common.location" },
+  { field: "shift", label: "editor.shift" },
+  { field: "newCount", label: "common.new" },
+  { field: "oldCount", label: "common.old" },
+  { field: "total", label: "common.total" },
+];
+
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+  date: ["date", "day"],
+  location: ["location", "chamber", "place", "clinic"],
+  shift: ["shift"],
+  newCount: ["new", "new patients", "newcount"],
+  oldCount: ["old", "follow-up", "followup", "old patients", "oldcount"],
+  total: ["total", "patients", "count"],
+};
+
+/** CSV column index per CounterCategory.id; unmapped ones are absent. */
+export type CounterMapping = Record<string, number>;
+
+/** Columns named like a category (as our own export writes them). */
+export function guessCounterMapping(
+  header: string[],
+  categories: CounterCategory[]
+): CounterMapping {
+  const norm = header.map((h) => fromText(h.trim()).toLowerCase());
+  const out: CounterMapping = {};
+  categories.forEach((c) => {
+    const i = norm.indexOf(c.name.trim().toLowerCase());
+    if (i >= 0) out[c.id] = i;
+  });
+  return out;
+}
+
+/** Best-effort mapping from a header row (ours or a hand-made sheet). */
+export function guessMapping(header: string[]): ImportMapping {
+  const norm = header.map((h) => h.trim().toLowerCase());
+  const out = {} as ImportMapping;
+  IMPORT_FIELDS.forEach(({ field }) => {
+    out[field] = norm.findIndex((h) => HEADER_ALIASES[field].includes(h));
+  });
+  return out;
+}
+
+/* -------------------- Import validation -------------------- */
+export type ImportDraft = {
+  date: string;
+  location: string; // name as written in the file
+  shift?: Shift;
+  newCount: number | null;
+  oldCount: number | null;
+  counts?: CategoryCounts;
+  total: number;
+};
+
+export type ImportRow = {
+  line: number; // 1-based line in the file
+  draft: ImportDraft | null; // null when the row has errors
+  errors: MessageKey[];
+  duplicate: boolean; // same date+location already exists (or repeats)
+};
+
+// Accepts ISO (2025-03-01) and the app's own D/M/Y (01/03/2025).
+function parseDate(raw: string): string | null {
+  const s = raw.trim();
+  let y: number, m: number, d: number;
+  let match = /^(\d{4})-(\d{1,2})-(\d{1,2})$/.exec(s);
+  if (match) [y, m, d] = [+match[1], +match[2], +match[3]];
+  else if ((match = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/.exec(s)))
+    [d, m, y] = [+match[1], +match[2], +match[3]];
+  else return null;
+  const dt = new Date(Date.UTC(y, m - 1, d));
+  if (dt.getUTCMonth() !== m - 1 || dt.getUTCDate() !== d) return null;
+  return dt.toISOString().slice(0, 10);
+}
+
+// "" -> null (unknown); otherwise a non-negative integer or NaN.
+function parseCount(raw: string | undefined): number | null {
+  const s = (raw ?? "").trim();
+  if (s === "") return null;
+  return /^\d+$/.test(s) ? Number(s) : NaN;
+}
+
+function parseShift(raw: string | undefined): Shift | undefined | null {
+  const s = (raw ?? "").trim().toLowerCase();
+  if (s === "") return undefined;
+  return (Object.keys(SHIFT_LABELS) as Shift[]).find((k) => k === s) ?? null;
+}
+
+/**
+ * Validates data rows against `mapping`. `existing` holds the
+ * `${date}|${location name lowercased}` keys already in history.
+ */
+export function validateImport(
+  rows: CsvRow[],
+  mapping: ImportMapping,
+  existing: Set<string>,
+  counterMapping: CounterMapping = {}
+): ImportRow[] {
+  const seen = new Set<string>();
+  const cell = (r: string[], f: ImportField) =>
+    mapping[f] >= 0 ? r[mapping[f]] : undefined;
+
+  return rows.map(({ line, cells: r }) => {
+    const errors: MessageKey[] = [];
+    const date = parseDate(cell(r, "date") ?? "");
+    if (!date) errors.push("import.badDate");
+    const location = fromText((cell(r, "location") ?? "").trim());
+    if (!location) errors.push("import.noLocation");
+    const shift = parseShift(cell(r, "shift"));
+    if (shift === null) errors.push("import.badShift");
+
+    const newCount = parseCount(cell(r, "newCount"));
+    const oldCount = parseCount(cell(r, "oldCount"));
+    let total = parseCount(cell(r, "total"));
+    // Blank category cells count as zero.
+    const extras = Object.entries(counterMapping).map(
+      ([id, col]) => [id, parseCount(r[col]) ?? 0] as const
+    );
+    if (
+      [newCount, oldCount, total, ...extras.map(([, n]) => n)].some(
+        Number.isNaN
+      )
+    )
+      errors.push("import.notWhole");
+    const counts = normalizeCounts(Object.fromEntries(extras));
+    const split = newCount !== null && oldCount !== null;
+    const sum = split ? newCount + oldCount + sumCounts(counts) : null;
+    if (split && total === null) total = sum;
+    if (split && total !== sum)
+      errors.push(
+        counts ? "import.totalMismatchCounters" : "import.totalMismatch"
+      );
+    if (!split && total !== null && total < sumCounts(counts))
+      errors.push("import.totalBelowCounters");
+    if (!split && (newCount !== null || oldCount !== null) && total === null)
+      errors.push("import.needSplitOrTotal");
+    if (errors.length === 0 && !total) errors.push("import.totalZero");
+
+    const key = `${date}|${location.toLowerCase()}`;
+    const duplicate = existing.has(key) || seen.has(key);
+    seen.add(key);
+
+    return {
+      line,
+      errors,
+      duplicate,
+      draft:
+        errors.length > 0
+          ? null
+          : {
+              date: date!,
+              location,
+              shift: shift ?? undefined,
+              // Only a complete split is kept; otherwise it is unknown.
+              newCount: split ? newCount : null,
+              oldCount: split ? oldCount : null,
+              counts,
+              total: total!,
+            },
+    };
+  });
+}
@@ -0,0 +1,215 @@
+import { IDBFactory } from "fake-indexeddb";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { Session } from "./types.ts";
+
+// storage.ts keeps its open databases in module state, so each test gets
+// an empty IndexedDB and a fresh copy of the module.
+beforeEach(() => {
+  globalThis.indexedDB = new IDBFactory();
+  localStorage.clear();
+  vi.resetModules();
+});
+const storage = () => import("./storage.ts");
+
+const finished = (sessionId: string, date: string): Session => ({
+  sessionId,
+  date,
+  locationId: "clinic",
+  newCount: 2,
+  oldCount: 1,
+  total: 3,
+  finishedAt: `${date}T12:00:00.000+06:00`,
+});
+
+describe("first run", () => {
+  it("starts with the default locations", async () => {
+    const { loadState } = await storage();
+    const state = await loadState();
+    expect(state.sessions).toEqual([]);
+    expect(state.current).toBeNull();
+    expect(state.locations.map((l) => l.name)).toEqual([
+      "Dhaka",
+      "Barisal",
+      "Gazipur",
+      "Sirajganj (KYAMCH)",
+      "Clinic A",
+    ]);
+  });
+
+  it("drops the gaps and repeats of the old location list", async () => {
+    localStorage.setItem(
+      "pc_locations_v1",
+      JSON.stringify(["Dhaka", null, "", "Clinic", "Dhaka"])
+    );
+    localStorage.setItem(
+      "pc_sessions_v1",
+      JSON.stringify([
+        {
+          sessionId: "s1",
+          date: "2024-05-01",
+          location: "Clinic",
+          total: 12,
+          finishedAt: "2024-05-01T12:00:00.000+06:00",
+        },
+        {
+          sessionId: "s2",
+          date: "2024-05-02",
+          location: "Old name",
+          total: 4,
+          finishedAt: "2024-05-02T12:00:00.000+06:00",
+        },
+      ])
+    );
+    const { loadState } = await storage();
+    const { sessions, locations } = await loadState();
+    expect(locations.map((l) => [l.name, l.archived])).toEqual([
+      ["Dhaka", false],
+      ["Clinic", false],
+      ["Old name", true],
+    ]);
+    const clinic = locations.find((l) => l.name === "Clinic")!;
+    expect(sessions.find((s) => s.sessionId === "s1")).toMatchObject({
+      locationId: clinic.id,
+      newCount: null,
+      oldCount: null,
+      total: 12,
+    });
+  });
+});
+
+describe("damaged legacy data", () => {
+  beforeEach(() => {
+    localStorage.setItem(
+      "pc_locations_v2",
+      JSON.stringify([{ id: "clinic", name: "Clinic", archived: false }])
+    );
+    localStorage.setItem("pc_sessions_v3", '[{"sessionId": "s1", "da');
+  });
+
+  it("names the key it could not read", async () => {
+    const { loadState, StorageError } = await storage();
+    const e = await loadState().catch((e: unknown) => e);
+    expect(e).toBeInstanceOf(StorageError);
+    expect(e).toMatchObject({ legacyKey: "pc_sessions_v3" });
+    expect((e as Error).message).toContain('"pc_sessions_v3" is damaged');
+  });
+
+  it("keeps the rest when told to skip it", async () => {
+    const { loadState } = await storage();
+    await expect(loadState()).rejects.toThrow();
+    const state = await loadState({ skipUnreadable: true });
+    expect(state.sessions).toEqual([]);
+    expect(state.locations).toEqual([
+      { id: "clinic", name: "Clinic", archived: false },
+    ]);
+    // The old keys stay for a rollback, and are not read again.
+    expect(localStorage.getItem("pc_sessions_v3")).not.toBeNull();
+    await expect(loadState()).resolves.toMatchObject({ sessions: [] });
+  });
+});
+
+describe("saving", () => {
+  it("loads back what was saved", async () => {
+    const { loadState, saveState, saveSessionChanges } = await storage();
+    await loadState();
+    const a = finished("a", "2025-03-01");
+    const b = finished("b", "2025-03-02");
+    await saveState({
+      sessions: [a],
+      locations: [{ id: "clinic", name: "Clinic", archived: false }],
+      current: null,
+      settings: { currency: "৳" },
+    });
+    await saveSessionChanges([a], [b]);
+
+    vi.resetModules();
+    const state = await (await storage()).loadState();
+    expect(state.sessions).toEqual([b]);
+    expect(state.locations.map((l) => l.id)).toEqual(["clinic"]);
+    expect(state.settings).toEqual({ currency: "৳" });
+  });
+
+  it("queues only the changes it is asked to", async () => {
+    const { loadState, readOutbox, saveSessionChanges } = await storage();
+    await loadState();
+    const a = finished("a", "2025-03-01");
+    const b = finished("b", "2025-03-02");
+    await saveSessionChanges([], [a, b], (s) => s.sessionId === "b");
+    expect((await readOutbox()).sessions.map((e) => e.sessionId)).toEqual([
+      "b",
+    ]);
+  });
+
+  it("queues changed locations and settles them once pushed", async () => {
+    const { loadState, readOutbox, saveLocationChanges, settleOutbox } =
+      await storage();
+    const [dhaka, barisal] = (await loadState()).locations;
+    const renamed = { ...dhaka, name: "Dhaka Medical", rev: 1 };
+    const next = [renamed, barisal];
+    await saveLocationChanges([dhaka, barisal], next, () => true);
+    const outbox = await readOutbox();
+    expect(outbox.locations.map((e) => e.location)).toEqual([renamed]);
+
+    await settleOutbox(outbox);
+    expect((await readOutbox()).locations).toEqual([]);
+    vi.resetModules();
+    const state = await (await storage()).loadState();
+    expect(state.locations.find((l) => l.id === dhaka.id)?.name).toBe(
+      "Dhaka Medical"
+    );
+  });
+});
+
+describe("locking", () => {
+  const legacyKeys = () =>
+    Object.keys(localStorage).filter((k) => k.startsWith("pc_"));
+  const dataKey = () =>
+    crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, true, [
+      "encrypt",
+      "decrypt",
+    ]);
+
+  beforeEach(() => {
+    localStorage.setItem(
+      "pc_sessions_v3",
+      JSON.stringify([finished("a", "2025-03-01")])
+    );
+    localStorage.setItem("pc_current_v1", "null");
+    localStorage.setItem("pc_settings_v1", "{}");
+  });
+
+  it("keeps the old keys while the profile is unlocked", async () => {
+    const { loadState } = await storage();
+    await loadState();
+    expect(legacyKeys()).toHaveLength(3);
+  });
+
+  it("leaves no plaintext copy once a lock is set", async () => {
+    const { loadState, rekeyProfile } = await storage();
+    await loadState();
+    const key = await dataKey();
+    await rekeyProfile(key);
+    expect(legacyKeys()).toEqual([]);
+    // The encrypted data still loads.
+    vi.resetModules();
+    const again = await storage();
+    again.selectProfile(again.MAIN_PROFILE_ID, key);
+    expect((await again.loadState()).sessions.map((s) => s.sessionId)).toEqual([
+      "a",
+    ]);
+  });
+
+  it("clears them for a profile that was locked earlier", async () => {
+    const { loadState, rekeyProfile } = await storage();
+    await loadState();
+    const key = await dataKey();
+    await rekeyProfile(key);
+    localStorage.setItem("pc_sessions_v3", "[]"); // left by an older build
+
+    vi.resetModules();
+    const again = await storage();
+    again.selectProfile(again.MAIN_PROFILE_ID, key);
+    await again.loadState();
+    expect(legacyKeys()).toEqual([]);
+  });
+});
@@ -0,0 +1,677 @@
+import { localTimestamp } from "./dates.ts";
+import { t, type Lang, type MessageKey } from "./i18n.ts";
+import { sealJSON, unsealJSON, type Sealed } from "./lock.ts";
+import {
+  migrateCurrent,
+  migrateLocalDate,
+  migrateLocationsV1,
+  migrateSessionV1,
+  migrateSessionV2,
+  type SessionV1,
+  type SessionV2,
+} from "./migrations.ts";
+import type {
+  CurrentState,
+  Location,
+  Profile,
+  Session,
+  Settings,
+} from "./types.ts";
+
+/* -------------------- Database -------------------- */
+const DB_NAME = "patient-counter";
+const DB_VERSION = 3;
+const SESSIONS = "sessions"; // keyPath sessionId, indexed by date
+const LOCATIONS = "locations"; // keyPath id
+const KV = "kv"; // single values: current, settings, migration marker
+const OUTBOX = "outbox"; // keyPath sessionId; local changes not yet synced
+const LOCATION_OUTBOX = "locationOutbox"; // keyPath id; same, for locations
+
+// src/sw.js reads these names directly; keep them in step.
+const CURRENT_KEY = "current";
+const SETTINGS_KEY = "settings";
+const MIGRATED_KEY = "migratedFromLocalStorage";
+const SYNC_CURSOR_KEY = "syncCursor";
+const LOCAL_DATES_KEY = "localDatesMigrated";
+const PROFILES_KEY = "profiles"; // main database only
+const ACTIVE_PROFILE_KEY = "activeProfile"; // main database only
+const LANGUAGE_KEY = "language"; // main database only
+
+/* -------------------- Legacy localStorage keys -------------------- */
+const LS_SESSIONS_KEY = "pc_sessions_v3";
+const LS_SESSIONS_V2_KEY = "pc_sessions_v2";
+const LS_SESSIONS_V1_KEY = "pc_sessions_v1";
+const LS_CURRENT_KEY = "pc_current_v1";
+const LS_SETTINGS_KEY = "pc_settings_v1";
+const LS_LOCATIONS_KEY = "pc_locations_v2";
+const LS_LOCATIONS_V1_KEY = "pc_locations_v1";
+const LS_KEYS = [
+  LS_SESSIONS_KEY,
+  LS_SESSIONS_V2_KEY,
+  LS_SESSIONS_V1_KEY,
+  LS_CURRENT_KEY,
+  LS_SETTINGS_KEY,
+  LS_LOCATIONS_KEY,
+  LS_LOCATIONS_V1_KEY,
+];
+
+const DEFAULT_LOCATIONS = [
+  "Dhaka",
+  "Barisal",
+  "Gazipur",
+  "Sirajganj (KYAMCH)",
+  "Clinic A",
+];
+
+export type StoredState = {
+  sessions: Session[]; // unordered; includes deleted tombstones
+  locations: Location[];
+  current: CurrentState | null; // null = nothing in progress yet
+  settings: Partial<Settings>;
+};
+
+/** A read or write failed; `message` is meant for the user. */
+export class StorageError extends Error {
+  /** Set when unreadable data in the old localStorage keys is the cause. */
+  legacyKey?: string;
+}
+
+/* -------------------- IDB plumbing -------------------- */
+const request = <T>(req: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+const completion = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error(t("storage.aborted")));
+  });
+
+/* -------------------- Profiles -------------------- */
+// The first profile keeps the original database, and with it the data
+// from before profiles existed. Every other profile gets its own.
+export const MAIN_PROFILE_ID = "main";
+const dbNameOf = (profileId: string) =>
+  profileId === MAIN_PROFILE_ID ? DB_NAME : `${DB_NAME}:${profileId}`;
+
+let activeId = MAIN_PROFILE_ID;
+let dataKey: CryptoKey | null = null;
+/**
+ * Points every load/save below at the given profile's database, with the
+ * profile's data key if it is locked.
+ */
+export const selectProfile = (profileId: string, key: CryptoKey | null) => {
+  activeId = profileId;
+  dataKey = key;
+};
+export const activeProfileId = () => activeId;
+
+const dbPromises = new Map<string, Promise<IDBDatabase>>();
+
+function openDB(name = dbNameOf(activeId)): Promise<IDBDatabase> {
+  let dbPromise = dbPromises.get(name);
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === "undefined")
+        return reject(new Error(t("storage.unavailable")));
+      const req = indexedDB.open(name, DB_VERSION);
+      req.onupgradeneeded = (e) => {
+        const db = req.result;
+        if (e.oldVersion < 1) {
+          const sessions = db.createObjectStore(SESSIONS, {
+            keyPath: "sessionId",
+          });
+          sessions.createIndex("date", "date");
+          db.createObjectStore(LOCATIONS, { keyPath: "id" });
+          db.createObjectStore(KV);
+        }
+        if (e.oldVersion < 2)
+          db.createObjectStore(OUTBOX, { keyPath: "sessionId" });
+        if (e.oldVersion < 3)
+          db.createObjectStore(LOCATION_OUTBOX, { keyPath: "id" });
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+      req.onblocked = () => reject(new Error(t("storage.blocked")));
+    });
+    // A failed open should not stick; Retry has to be able to reopen.
+    dbPromise.catch(() => dbPromises.delete(name));
+    dbPromises.set(name, dbPromise);
+  }
+  return dbPromise;
+}
+
+/* -------------------- Encryption at rest -------------------- */
+// A locked profile stores `{ sealed }` in place of each value; records keep
+// only their key path in the clear. Plain values are still read, so a lock
+// added or removed halfway (say, a crash mid-rekey) loses nothing.
+type SealedValue = { sealed: Sealed };
+
+const seal = async (key: CryptoKey | null, value: unknown) =>
+  key ? { sealed: await sealJSON(key, value) } : value;
+const sealRecord = async <T extends object>(
+  key: CryptoKey | null,
+  keyPath: keyof T,
+  value: T
+) =>
+  key
+    ? { [keyPath]: value[keyPath], sealed: await sealJSON(key, value) }
+    : value;
+
+async function unseal<T>(key: CryptoKey | null, stored: unknown): Promise<T> {
+  if (stored && typeof stored === "object" && "sealed" in stored) {
+    if (!key) throw new StorageError(t("storage.locked"));
+    return unsealJSON<T>(key, (stored as SealedValue).sealed);
+  }
+  return stored as T;
+}
+
+// Wraps low-level failures into a StorageError the UI can show as-is.
+function storageError(action: MessageKey, e: unknown): StorageError {
+  if (e instanceof StorageError) return e;
+  const name = e instanceof DOMException ? e.name : "";
+  const detail =
+    name === "QuotaExceededError"
+      ? t("storage.outOfSpace")
+      : e instanceof Error && e.message
+        ? e.message
+        : t("storage.unknownError");
+  return new StorageError(t("storage.failed", { action: t(action), detail }), {
+    cause: e,
+  });
+}
+
+/* -------------------- Legacy migration -------------------- */
+function readLegacy<T>(key: string): T | null {
+  const raw = localStorage.getItem(key);
+  if (raw === null) return null;
+  try {
+    return JSON.parse(raw) as T;
+  } catch (e) {
+    const err = new StorageError(t("storage.damaged", { key }), { cause: e });
+    err.legacyKey = key;
+    throw err;
+  }
+}
+
+// Reads the pc_* keys in their latest available version. The keys are
+// left in place so a rollback to an older build still finds its data,
+// until a lock is set (see clearLegacy).
+function readLocalStorage(skipUnreadable: boolean): StoredState {
+  const read = <T>(key: string): T | null => {
+    try {
+      return readLegacy<T>(key);
+    } catch (e) {
+      if (skipUnreadable) return null;
+      throw e;
+    }
+  };
+
+  const v1Locations = read<(string | null)[]>(LS_LOCATIONS_V1_KEY);
+  const locations =
+    read<Location[]>(LS_LOCATIONS_KEY) ??
+    migrateLocationsV1(v1Locations ?? DEFAULT_LOCATIONS);
+
+  const v1 = read<SessionV1[]>(LS_SESSIONS_V1_KEY);
+  const v2 = read<SessionV2[]>(LS_SESSIONS_V2_KEY);
+  const sessions =
+    read<Session[]>(LS_SESSIONS_KEY) ??
+    (v2 ?? v1?.map(migrateSessionV1) ?? []).map((s) =>
+      migrateSessionV2(s, locations)
+    );
+
+  const current = read<CurrentState>(LS_CURRENT_KEY);
+  return {
+    sessions,
+    locations,
+    current: current ? migrateCurrent(current, locations) : null,
+    settings: read<Partial<Settings>>(LS_SETTINGS_KEY) ?? {},
+  };
+}
+
+// A locked profile must not leave a plaintext copy behind; only the main
+// profile was ever migrated from these keys.
+function clearLegacy() {
+  if (activeId === MAIN_PROFILE_ID)
+    LS_KEYS.forEach((k) => localStorage.removeItem(k));
+}
+
+/* -------------------- Load -------------------- */
+// Decrypts only after the transaction: awaiting WebCrypto inside one
+// would let it auto-commit.
+async function readAll(
+  db: IDBDatabase,
+  key: CryptoKey | null
+): Promise<{
+  state: StoredState;
+  migrated: boolean;
+  localDates: boolean;
+  outbox: Outbox;
+}> {
+  const tx = db.transaction(
+    [SESSIONS, LOCATIONS, KV, OUTBOX, LOCATION_OUTBOX],
+    "readonly"
+  );
+  const kv = tx.objectStore(KV);
+  const [sessions, locations, current, settings, migrated, localDates, outbox] =
+    await Promise.all([
+      request(tx.objectStore(SESSIONS).getAll()),
+      request(tx.objectStore(LOCATIONS).getAll()),
+      request(kv.get(CURRENT_KEY)),
+      request(kv.get(SETTINGS_KEY)),
+      request(kv.get(MIGRATED_KEY)),
+      request(kv.get(LOCAL_DATES_KEY)),
+      readOutboxStores(tx),
+    ]);
+  return {
+    state: {
+      sessions: await Promise.all(sessions.map((s) => unseal<Session>(key, s))),
+      locations: await Promise.all(
+        locations.map((l) => unseal<Location>(key, l))
+      ),
+      current: current ? await unseal<CurrentState>(key, current) : null,
+      settings: settings ? await unseal<Partial<Settings>>(key, settings) : {},
+    },
+    migrated: Boolean(migrated),
+    localDates: Boolean(localDates),
+    outbox: await unsealOutbox(key, outbox),
+  };
+}
+
+/**
+ * Loads everything from IndexedDB. On first run the old localStorage data
+ * is copied over in one transaction; damaged legacy data throws unless
+ * `skipUnreadable` is set. Throws StorageError; never returns a silent
+ * empty state for data it could not read.
+ */
+export async function loadState({
+  skipUnreadable = false,
+} = {}): Promise<StoredState> {
+  const key = dataKey;
+  try {
+    const db = await openDB();
+    const { state, migrated, localDates } = await readAll(db, key);
+    let loaded = state;
+    if (!migrated) {
+      // Only the main profile inherits the pre-IndexedDB data.
+      loaded =
+        activeId === MAIN_PROFILE_ID
+          ? readLocalStorage(skipUnreadable)
+          : { sessions: [], locations: [], current: null, settings: {} };
+      await writeAll(loaded, key, { markMigrated: true });
+    }
+    // Also catches profiles locked before the keys were cleared on lock.
+    if (key) clearLegacy();
+    return localDates ? loaded : await migrateLocalDates(loaded);
+  } catch (e) {
+    throw storageError("storage.openData", e);
+  }
+}
+
+// One-off, see migrateLocalDate. Safe to repeat if interrupted: corrected
+// dates no longer match the UTC day. Corrections are queued for sync so
+// the server and other devices pick them up.
+async function migrateLocalDates(state: StoredState): Promise<StoredState> {
+  const sessions = state.sessions.map((s) => migrateLocalDate(s));
+  await saveSessionChanges(
+    state.sessions,
+    sessions,
+    state.settings.syncUrl ? () => true : undefined
+  );
+  await putValue(LOCAL_DATES_KEY, localTimestamp(), "storage.saveDateFix");
+  return { ...state, sessions };
+}
+
+/* -------------------- Save -------------------- */
+// Replaces all stores in one transaction (migration, restore, retry,
+// rekey). The outbox is only rewritten when given.
+async function writeAll(
+  state: StoredState,
+  key: CryptoKey | null,
+  opts: { markMigrated?: boolean; outbox?: Outbox } = {}
+) {
+  const dbPromise = openDB();
+  const [sessions, locations, current, settings, outbox] = await Promise.all([
+    Promise.all(state.sessions.map((s) => sealRecord(key, "sessionId", s))),
+    Promise.all(state.locations.map((l) => sealRecord(key, "id", l))),
+    state.current && seal(key, state.current),
+    seal(key, state.settings),
+    opts.outbox && sealOutbox(key, opts.outbox),
+  ]);
+  const db = await dbPromise;
+  const tx = db.transaction(
+    [SESSIONS, LOCATIONS, KV, OUTBOX, LOCATION_OUTBOX],
+    "readwrite"
+  );
+  const sessionStore = tx.objectStore(SESSIONS);
+  const locationStore = tx.objectStore(LOCATIONS);
+  const kv = tx.objectStore(KV);
+  sessionStore.clear();
+  locationStore.clear();
+  sessions.forEach((s) => sessionStore.put(s));
+  locations.forEach((l) => locationStore.put(l));
+  if (current) kv.put(current, CURRENT_KEY);
+  else kv.delete(CURRENT_KEY);
+  kv.put(settings, SETTINGS_KEY);
+  if (opts.markMigrated) kv.put(new Date().toISOString(), MIGRATED_KEY);
+  if (outbox) {
+    const outboxStore = tx.objectStore(OUTBOX);
+    const locationOutbox = tx.objectStore(LOCATION_OUTBOX);
+    outboxStore.clear();
+    locationOutbox.clear();
+    outbox.sessions.forEach((e) => outboxStore.put(e));
+    outbox.locations.forEach((e) => locationOutbox.put(e));
+  }
+  await completion(tx);
+}
+
+export async function saveState(state: StoredState) {
+  try {
+    await writeAll(state, dataKey);
+  } catch (e) {
+    throw storageError("storage.saveData", e);
+  }
+}
+
+/**
+ * Rewrites the active profile's data under `key`: encrypts it when a lock
+ * is set, decrypts it (null) when the lock is removed.
+ */
+export async function rekeyProfile(key: CryptoKey | null) {
+  const old = dataKey;
+  if (key === old) return;
+  try {
+    const db = await openDB();
+    const { state, outbox } = await readAll(db, old);
+    dataKey = key;
+    await writeAll(state, key, { outbox });
+    if (key) clearLegacy();
+  } catch (e) {
+    dataKey = old;
+    throw storageError(key ? "storage.encrypt" : "storage.decrypt", e);
+  }
+}
+
+/**
+ * Writes only the sessions that differ from `prev`. State updates are
+ * immutable, so an unchanged record keeps its object identity and a
+ * comparison by reference is enough. Changed records accepted by `queue`
+ * are added to the sync outbox in the same transaction.
+ */
+export async function saveSessionChanges(
+  prev: Session[],
+  next: Session[],
+  queue?: (s: Session) => boolean
+) {
+  const before = new Map(prev.map((s) => [s.sessionId, s]));
+  const changed = next.filter((s) => before.get(s.sessionId) !== s);
+  const kept = new Set(next.map((s) => s.sessionId));
+  const removed = prev.filter((s) => !kept.has(s.sessionId));
+  if (changed.length === 0 && removed.length === 0) return;
+  const key = dataKey;
+  const dbPromise = openDB();
+  try {
+    const queuedAt = new Date().toISOString();
+    const queued = changed
+      .filter((s) => queue?.(s))
+      .map((session) => ({ sessionId: session.sessionId, session, queuedAt }));
+    const [records, entries] = await Promise.all([
+      Promise.all(changed.map((s) => sealRecord(key, "sessionId", s))),
+      sealEntries(key, queued, "session"),
+    ]);
+    const db = await dbPromise;
+    const tx = db.transaction([SESSIONS, OUTBOX], "readwrite");
+    const store = tx.objectStore(SESSIONS);
+    const outbox = tx.objectStore(OUTBOX);
+    records.forEach((r) => store.put(r));
+    entries.forEach((e) => outbox.put(e));
+    removed.forEach((s) => store.delete(s.sessionId));
+    await completion(tx);
+  } catch (e) {
+    throw storageError("storage.saveHistory", e);
+  }
+}
+
+/** saveSessionChanges for the location registry. */
+export async function saveLocationChanges(
+  prev: Location[],
+  next: Location[],
+  queue?: (l: Location) => boolean
+) {
+  const before = new Map(prev.map((l) => [l.id, l]));
+  const changed = next.filter((l) => before.get(l.id) !== l);
+  const kept = new Set(next.map((l) => l.id));
+  const removed = prev.filter((l) => !kept.has(l.id));
+  if (changed.length === 0 && removed.length === 0) return;
+  const key = dataKey;
+  const dbPromise = openDB();
+  try {
+    const queuedAt = new Date().toISOString();
+    const queued = changed
+      .filter((l) => queue?.(l))
+      .map((location) => ({ id: location.id, location, queuedAt }));
+    const [records, entries] = await Promise.all([
+      Promise.all(changed.map((l) => sealRecord(key, "id", l))),
+      sealEntries(key, queued, "location"),
+    ]);
+    const db = await dbPromise;
+    const tx = db.transaction([LOCATIONS, LOCATION_OUTBOX], "readwrite");
+    const store = tx.objectStore(LOCATIONS);
+    const outbox = tx.objectStore(LOCATION_OUTBOX);
+    records.forEach((r) => store.put(r));
+    entries.forEach((e) => outbox.put(e));
+    removed.forEach((l) => store.delete(l.id));
+    await completion(tx);
+  } catch (e) {
+    throw storageError("storage.saveLocations", e);
+  }
+}
+
+async function putValue(
+  name: string,
+  value: unknown,
+  action: MessageKey,
+  sealed = false
+) {
+  const key = sealed ? dataKey : null;
+  const dbPromise = openDB();
+  try {
+    const stored = await seal(key, value);
+    const db = await dbPromise;
+    const tx = db.transaction(KV, "readwrite");
+    tx.objectStore(KV).put(stored, name);
+    await completion(tx);
+  } catch (e) {
+    throw storageError(action, e);
+  }
+}
+export const saveCurrent = (s: CurrentState) =>
+  putValue(CURRENT_KEY, s, "storage.saveCurrent", true);
+export const saveSettings = (s: Settings) =>
+  putValue(SETTINGS_KEY, s, "storage.saveSettings", true);
+
+/* -------------------- Sync outbox -------------------- */
+export type OutboxEntry = {
+  sessionId: string;
+  session: Session; // latest local copy; sealed at rest when locked
+  queuedAt: string; // ISO8601; changes on every re-queue
+};
+
+export type LocationOutboxEntry = {
+  id: string;
+  location: Location; // latest local copy; sealed at rest when locked
+  queuedAt: string;
+};
+
+export type Outbox = {
+  sessions: OutboxEntry[];
+  locations: LocationOutboxEntry[];
+};
+
+// Seals or unseals the record an entry carries; its key stays readable.
+const sealEntries = <E extends object>(
+  key: CryptoKey | null,
+  list: E[],
+  field: keyof E
+) =>
+  Promise.all(
+    list.map(async (e) => ({ ...e, [field]: await seal(key, e[field]) }))
+  );
+const unsealEntries = <E extends object>(
+  key: CryptoKey | null,
+  list: E[],
+  field: keyof E
+) =>
+  Promise.all(
+    list.map(async (e) => ({ ...e, [field]: await unseal(key, e[field]) }))
+  ) as Promise<E[]>;
+const sealOutbox = async (key: CryptoKey | null, o: Outbox) => ({
+  sessions: await sealEntries(key, o.sessions, "session"),
+  locations: await sealEntries(key, o.locations, "location"),
+});
+const unsealOutbox = async (
+  key: CryptoKey | null,
+  o: Outbox
+): Promise<Outbox> => ({
+  sessions: await unsealEntries(key, o.sessions, "session"),
+  locations: await unsealEntries(key, o.locations, "location"),
+});
+
+// Both queues, read inside the caller's transaction; still sealed.
+const readOutboxStores = async (tx: IDBTransaction): Promise<Outbox> => {
+  const [sessions, locations] = await Promise.all([
+    request(tx.objectStore(OUTBOX).getAll()),
+    request(tx.objectStore(LOCATION_OUTBOX).getAll()),
+  ]);
+  return { sessions, locations };
+};
+
+export async function readOutbox(): Promise<Outbox> {
+  const key = dataKey;
+  try {
+    const db = await openDB();
+    const tx = db.transaction([OUTBOX, LOCATION_OUTBOX], "readonly");
+    return await unsealOutbox(key, await readOutboxStores(tx));
+  } catch (e) {
+    throw storageError("storage.readOutbox", e);
+  }
+}
+
+const settleEntry = (store: IDBObjectStore, id: string, queuedAt: string) => {
+  const req = store.get(id);
+  req.onsuccess = () => {
+    if ((req.result as { queuedAt: string } | undefined)?.queuedAt === queuedAt)
+      store.delete(id);
+  };
+};
+
+/**
+ * Drops entries that were pushed. An entry re-queued while the push was
+ * in flight has a newer `queuedAt` and stays for the next round.
+ */
+export async function settleOutbox(sent: Outbox) {
+  try {
+    const db = await openDB();
+    const tx = db.transaction([OUTBOX, LOCATION_OUTBOX], "readwrite");
+    const sessions = tx.objectStore(OUTBOX);
+    const locations = tx.objectStore(LOCATION_OUTBOX);
+    sent.sessions.forEach((e) =>
+      settleEntry(sessions, e.sessionId, e.queuedAt)
+    );
+    sent.locations.forEach((e) => settleEntry(locations, e.id, e.queuedAt));
+    await completion(tx);
+  } catch (e) {
+    throw storageError("storage.updateOutbox", e);
+  }
+}
+
+/** Last server sequence number pulled; null = never synced. */
+export async function loadSyncCursor(): Promise<number | null> {
+  try {
+    const db = await openDB();
+    const tx = db.transaction(KV, "readonly");
+    const cursor = await request(tx.objectStore(KV).get(SYNC_CURSOR_KEY));
+    return typeof cursor === "number" ? cursor : null;
+  } catch (e) {
+    throw storageError("storage.readSyncState", e);
+  }
+}
+export const saveSyncCursor = (cursor: number | null) =>
+  putValue(SYNC_CURSOR_KEY, cursor, "storage.saveSyncState");
+
+/* -------------------- Profile registry -------------------- */
+export type ProfileRegistry = { profiles: Profile[]; activeId: string };
+
+/** Reads the registry; a device without one has just the main profile. */
+export async function loadProfiles(): Promise<ProfileRegistry> {
+  try {
+    const db = await openDB(DB_NAME);
+    const tx = db.transaction(KV, "readonly");
+    const kv = tx.objectStore(KV);
+    const [profiles, activeId] = await Promise.all([
+      request(kv.get(PROFILES_KEY)),
+      request(kv.get(ACTIVE_PROFILE_KEY)),
+    ]);
+    const list = (profiles as Profile[] | undefined) ?? [
+      { id: MAIN_PROFILE_ID, name: t("profiles.default") },
+    ];
+    const active = list.find((p) => p.id === activeId) ?? list[0];
+    return { profiles: list, activeId: active.id };
+  } catch (e) {
+    throw storageError("storage.openProfiles", e);
+  }
+}
+
+export async function saveProfiles(registry: ProfileRegistry) {
+  try {
+    const db = await openDB(DB_NAME);
+    const tx = db.transaction(KV, "readwrite");
+    tx.objectStore(KV).put(registry.profiles, PROFILES_KEY);
+    tx.objectStore(KV).put(registry.activeId, ACTIVE_PROFILE_KEY);
+    await completion(tx);
+  } catch (e) {
+    throw storageError("storage.saveProfiles", e);
+  }
+}
+
+/* -------------------- Language -------------------- */
+// Device-wide rather than a profile setting: the PIN prompt is shown
+// before any profile is open.
+export async function loadLanguage(): Promise<Lang> {
+  try {
+    const db = await openDB(DB_NAME);
+    const tx = db.transaction(KV, "readonly");
+    const lang = await request(tx.objectStore(KV).get(LANGUAGE_KEY));
+    return lang === "bn" ? "bn" : "en";
+  } catch (e) {
+    throw storageError("storage.readLanguage", e);
+  }
+}
+
+export async function saveLanguage(lang: Lang) {
+  try {
+    const db = await openDB(DB_NAME);
+    const tx = db.transaction(KV, "readwrite");
+    tx.objectStore(KV).put(lang, LANGUAGE_KEY);
+    await completion(tx);
+  } catch (e) {
+    throw storageError("storage.saveLanguage", e);
+  }
+}
+
+/** Removes a (non-main) profile's database with everything in it. */
+export async function deleteProfileData(profileId: string) {
+  const name = dbNameOf(profileId);
+  if (name === DB_NAME) throw new StorageError(t("storage.mainProfile"));
+  try {
+    const open = dbPromises.get(name);
+    dbPromises.delete(name);
+    (await open?.catch(() => null))?.close();
+    await request(indexedDB.deleteDatabase(name));
+  } catch (e) {
+    throw storageError("storage.deleteProfile", e);
+  }
+}
@@ -0,0 +1,159 @@
+// src/sw.js — built to /sw.js by the service-worker plugin in
+// vite.config.ts, which fills in the two placeholders below. A new build
+// means a new version, so its worker installs alongside the old one and
+// waits until the page accepts the "update available" prompt.
+const VERSION = "__SW_VERSION__";
+const PRECACHE = __SW_PRECACHE__; // every built and public file
+const CACHE = `pc-${VERSION}`;
+
+// Install: pre-cache the build
+self.addEventListener("install", (e) => {
+  e.waitUntil(caches.open(CACHE).then((c) => c.addAll(PRECACHE)));
+});
+
+// The page's update prompt asks the waiting worker to take over.
+self.addEventListener("message", (e) => {
+  if (e.data?.type === "skip-waiting") self.skipWaiting();
+});
+
+// Activate: drop caches of earlier builds
+self.addEventListener("activate", (e) => {
+  e.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(keys.map((k) => (k === CACHE ? null : caches.delete(k))))
+      )
+      .then(() => self.clients.claim())
+  );
+});
+
+// Fetch: network-first for the page, so a reload picks up a new build;
+// cache-first for hashed assets, which never change under one name.
+self.addEventListener("fetch", (e) => {
+  const req = e.request;
+  // Sync calls are sent with cache: "no-store" and must reach the server.
+  if (req.method !== "GET" || req.cache === "no-store") return;
+  if (new URL(req.url).origin !== self.location.origin) return;
+  if (req.mode === "navigate") {
+    e.respondWith(
+      fetch(req)
+        .then((res) => {
+          const copy = res.clone();
+          if (res.ok) caches.open(CACHE).then((c) => c.put("/", copy));
+          return res;
+        })
+        .catch(() => caches.match("/"))
+    );
+    return;
+  }
+  e.respondWith(caches.match(req).then((cached) => cached || fetch(req)));
+});
+
+// Finish reminders (src/schedule.ts): bring the app to the front.
+self.addEventListener("notificationclick", (e) => {
+  e.notification.close();
+  e.waitUntil(
+    self.clients.matchAll({ type: "window" }).then((windows) =>
+      windows.length ? windows[0].focus() : self.clients.openWindow("/")
+    )
+  );
+});
+
+// Background Sync: flush queued session and location changes once
+// connectivity is back.
+// Store and key names mirror src/storage.ts.
+const SYNC_TAG = "pc-sync";
+
+self.addEventListener("sync", (e) => {
+  if (e.tag === SYNC_TAG) e.waitUntil(flushOutbox());
+});
+
+const idb = (req) =>
+  new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+async function flushOutbox() {
+  // An open page does a full sync (push and pull) itself.
+  const windows = await self.clients.matchAll({ type: "window" });
+  if (windows.length) {
+    windows.forEach((w) => w.postMessage({ type: "sync" }));
+    return;
+  }
+
+  // The main database lists the other profiles, each with its own.
+  const main = await openExisting("patient-counter");
+  if (!main) return;
+  const profiles = await idb(
+    main.transaction("kv", "readonly").objectStore("kv").get("profiles")
+  );
+  main.close();
+  const names = (profiles ?? [])
+    .filter((p) => p.id !== "main")
+    .map((p) => `patient-counter:${p.id}`);
+  for (const name of ["patient-counter", ...names]) {
+    const db = await openExisting(name);
+    if (db) await flushProfile(db).finally(() => db.close());
+  }
+}
+
+// Never creates or upgrades a database; that is the app's job.
+async function openExisting(name) {
+  const open = indexedDB.open(name);
+  open.onupgradeneeded = () => open.transaction.abort();
+  const db = await idb(open).catch(() => null);
+  if (db && !db.objectStoreNames.contains("locationOutbox")) {
+    db.close();
+    return null;
+  }
+  return db;
+}
+
+async function flushProfile(db) {
+  const read = db.transaction(["kv", "outbox", "locationOutbox"], "readonly");
+  const [settings, entries, locationEntries] = await Promise.all([
+    idb(read.objectStore("kv").get("settings")),
+    idb(read.objectStore("outbox").getAll()),
+    idb(read.objectStore("locationOutbox").getAll()),
+  ]);
+  // A PIN-locked profile's settings are encrypted (no syncUrl here), so it
+  // only syncs while unlocked in the app.
+  if (!settings?.syncUrl || entries.length + locationEntries.length === 0)
+    return;
+
+  const res = await fetch(`${settings.syncUrl.replace(/\/+$/, "")}/push`, {
+    method: "POST",
+    cache: "no-store",
+    headers: {
+      "Content-Type": "application/json",
+      ...(settings.syncToken
+        ? { Authorization: `Bearer ${settings.syncToken}` }
+        : {}),
+    },
+    body: JSON.stringify({
+      sessions: entries.map((e) => e.session),
+      locations: locationEntries.map((e) => e.location),
+    }),
+  });
+  // Throwing makes the browser retry the sync later.
+  if (!res.ok) throw new Error(`Sync push failed: ${res.status}`);
+
+  // Drop what was pushed, unless it was queued again in the meantime.
+  const write = db.transaction(["outbox", "locationOutbox"], "readwrite");
+  const settle = (store, id, sent) => {
+    const req = store.get(id);
+    req.onsuccess = () => {
+      if (req.result?.queuedAt === sent.queuedAt) store.delete(id);
+    };
+  };
+  const outbox = write.objectStore("outbox");
+  const locationOutbox = write.objectStore("locationOutbox");
+  entries.forEach((sent) => settle(outbox, sent.sessionId, sent));
+  locationEntries.forEach((sent) => settle(locationOutbox, sent.id, sent));
+  await new Promise((resolve, reject) => {
+    write.oncomplete = resolve;
+    write.onerror = () => reject(write.error);
+  });
+}
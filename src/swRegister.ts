@@ -0,0 +1,45 @@
+/**
+ * Registers /sw.js and reports when a newer build has installed and is
+ * waiting. `onUpdate` gets a function that activates it and reloads the
+ * page; until then the open page keeps running the build it loaded.
+ */
+export function registerServiceWorker(onUpdate: (apply: () => void) => void) {
+  if (!("serviceWorker" in navigator)) return;
+
+  const offer = (worker: ServiceWorker) =>
+    onUpdate(() => {
+      // Reload once the new worker controls the page, not before.
+      navigator.serviceWorker.addEventListener(
+        "controllerchange",
+        () => window.location.reload(),
+        { once: true }
+      );
+      worker.postMessage({ type: "skip-waiting" });
+    });
+
+  window.addEventListener("load", async () => {
+    try {
+      const reg = await navigator.serviceWorker.register("/sw.js");
+      // Installed on an earlier visit but never activated.
+      if (reg.waiting && navigator.serviceWorker.controller) offer(reg.waiting);
+      reg.addEventListener("updatefound", () => {
+        const worker = reg.installing;
+        worker?.addEventListener("statechange", () => {
+          // Without a controller this is the first install, not an update.
+          if (
+            worker.state === "installed" &&
+            navigator.serviceWorker.controller
+          )
+            offer(worker);
+        });
+      });
+      // Long-open tabs (a whole clinic day) check again when shown.
+      document.addEventListener("visibilitychange", () => {
+        if (document.visibilityState === "visible")
+          reg.update().catch(() => {});
+      });
+    } catch (err) {
+      console.error(err);
+    }
+  });
+}
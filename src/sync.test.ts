@@ -0,0 +1,249 @@
+// @vitest-environment node
+// sync.ts is shared with the Node server, so test it without the DOM.
+import { describe, expect, it } from "vitest";
+import {
+  createSyncStore,
+  isPushRequest,
+  memoryTransport,
+  mergeRemote,
+  mergeRemoteLocations,
+  resolveConflict,
+} from "./sync.ts";
+import type { Location, Session } from "./types.ts";
+
+const session = (fields: Partial<Session> = {}): Session => ({
+  sessionId: "s1",
+  date: "2025-03-02",
+  locationId: "clinic",
+  newCount: 2,
+  oldCount: 1,
+  total: 3,
+  finishedAt: "2025-03-02T12:00:00.000+06:00",
+  rev: 1,
+  ...fields,
+});
+const edited = (s: Session, at: string, fields: Partial<Session> = {}) => ({
+  ...s,
+  ...fields,
+  rev: (s.rev ?? 0) + 1,
+  audit: [...(s.audit ?? []), { at, action: "edited" as const }],
+});
+
+describe("resolveConflict", () => {
+  it("prefers the copy with more edits", () => {
+    const base = session();
+    const newer = edited(base, "2025-03-02T13:00:00.000+06:00", { total: 4 });
+    // A later finish does not beat an edit the other side already has.
+    const refinished = session({ finishedAt: "2025-03-02T20:00:00.000+06:00" });
+    expect(resolveConflict(refinished, newer)).toBe(newer);
+    expect(resolveConflict(newer, refinished)).toBe(newer);
+  });
+
+  it("breaks a same-rev tie by the later finish, then the later edit", () => {
+    const early = session();
+    const late = session({ finishedAt: "2025-03-02T18:00:00.000+06:00" });
+    expect(resolveConflict(early, late)).toBe(late);
+
+    const a = edited(early, "2025-03-02T13:00:00.000+06:00", { total: 5 });
+    const b = edited(early, "2025-03-02T14:00:00.000+06:00", { total: 6 });
+    expect(resolveConflict(a, b)).toBe(b);
+    expect(resolveConflict(b, a)).toBe(b);
+  });
+
+  it("settles identical metadata the same way from either side", () => {
+    const a = session({ total: 3 });
+    const b = session({ total: 4 });
+    expect(resolveConflict(a, b)).toBe(resolveConflict(b, a));
+  });
+
+  it("compares finishes by instant, not by their text", () => {
+    // 19:00Z is after 00:30 in Dhaka (18:30Z), though it sorts before.
+    const dhaka = session({ finishedAt: "2025-03-02T00:30:00.000+06:00" });
+    const utc = session({ finishedAt: "2025-03-01T19:00:00.000Z" });
+    expect(resolveConflict(dhaka, utc)).toBe(utc);
+  });
+});
+
+describe("mergeRemote", () => {
+  it("takes newer remote copies and adds unknown ones", () => {
+    const mine = session();
+    const theirs = edited(mine, "2025-03-02T13:00:00.000+06:00", { total: 9 });
+    const other = session({ sessionId: "s2" });
+    const { sessions, applied } = mergeRemote([mine], [theirs, other]);
+    expect(sessions).toEqual([theirs, other]);
+    expect(applied).toEqual([theirs, other]);
+  });
+
+  it("keeps a newer local copy and skips identical ones", () => {
+    const theirs = session();
+    const mine = edited(theirs, "2025-03-02T13:00:00.000+06:00");
+    const same = session({ sessionId: "s2" });
+    const { sessions, applied } = mergeRemote(
+      [mine, same],
+      [theirs, { ...same }]
+    );
+    expect(sessions).toEqual([mine, same]);
+    expect(sessions[1]).toBe(same);
+    expect(applied).toEqual([]);
+  });
+
+  it("passes tombstones on like any other edit", () => {
+    const mine = session();
+    const gone = edited(mine, "2025-03-02T13:00:00.000+06:00", {
+      deletedAt: "2025-03-02T13:00:00.000+06:00",
+    });
+    expect(mergeRemote([mine], [gone]).sessions).toEqual([gone]);
+    // A restore made after the delete wins back.
+    const restored = edited(gone, "2025-03-02T14:00:00.000+06:00", {
+      deletedAt: undefined,
+    });
+    expect(mergeRemote([restored], [gone]).sessions).toEqual([restored]);
+  });
+});
+
+describe("createSyncStore", () => {
+  it("hands a losing pusher the winning copy on its next pull", () => {
+    const store = createSyncStore();
+    const winner = edited(session(), "2025-03-02T13:00:00.000+06:00");
+    store.push({ sessions: [winner], locations: [] });
+    const { cursor } = store.pull(0);
+
+    expect(store.push({ sessions: [session()], locations: [] })).toEqual({
+      accepted: 0,
+      cursor: cursor + 1,
+    });
+    expect(store.pull(cursor).sessions).toEqual([winner]);
+  });
+
+  it("reloads from its snapshot", () => {
+    const store = createSyncStore();
+    store.push({
+      sessions: [session()],
+      locations: [{ id: "clinic", name: "Clinic", archived: false }],
+    });
+    const copy = createSyncStore(structuredClone(store.snapshot()));
+    expect(copy.pull(0)).toEqual(store.pull(0));
+  });
+});
+
+describe("sync through memoryTransport", () => {
+  it("carries edits and deletes between two devices", async () => {
+    const server = memoryTransport();
+    const clinic = { id: "clinic", name: "Clinic", archived: false };
+
+    // The phone finishes a session and pushes it.
+    const counted = session();
+    await server.push({ sessions: [counted], locations: [clinic] });
+
+    // The laptop pulls everything, then corrects the count.
+    const first = await server.pull(0);
+    let laptop = mergeRemote([], first.sessions).sessions;
+    expect(laptop).toEqual([counted]);
+    expect(first.locations).toEqual([clinic]);
+    const fixed = edited(laptop[0], "2025-03-02T20:00:00.000+06:00", {
+      oldCount: 2,
+      total: 4,
+    });
+    laptop = [fixed];
+    expect(await server.push({ sessions: laptop, locations: [] })).toEqual({
+      accepted: 1,
+      cursor: 2,
+    });
+
+    // Meanwhile the phone deleted its copy without seeing the fix; both
+    // are at rev 2, and the later change (the delete) wins everywhere.
+    const deleted = edited(counted, "2025-03-02T21:00:00.000+06:00", {
+      deletedAt: "2025-03-02T21:00:00.000+06:00",
+    });
+    await server.push({ sessions: [deleted], locations: [] });
+    const phone = mergeRemote([deleted], (await server.pull(1)).sessions);
+    const back = mergeRemote(
+      laptop,
+      (await server.pull(first.cursor)).sessions
+    );
+    expect(phone.sessions).toEqual([deleted]);
+    expect(back.sessions).toEqual([deleted]);
+  });
+
+  it("carries a location rename to the other device", async () => {
+    const server = memoryTransport();
+    const clinic: Location = { id: "clinic", name: "Clinic", archived: false };
+    await server.push({ sessions: [], locations: [clinic] });
+    const { cursor } = await server.pull(0);
+
+    // The phone renames it and pushes just that change.
+    const renamed: Location = {
+      ...clinic,
+      name: "Green Clinic",
+      rev: 1,
+      updatedAt: "2025-03-02T13:00:00.000+06:00",
+    };
+    await server.push({ sessions: [], locations: [renamed] });
+
+    // The laptop still has the old name; re-sending it (say, after a
+    // sync reset) does not undo the rename.
+    await server.push({ sessions: [], locations: [clinic] });
+    const laptop = mergeRemoteLocations(
+      [clinic],
+      (await server.pull(cursor)).locations
+    );
+    expect(laptop.locations).toEqual([renamed]);
+    expect(laptop.applied).toEqual([renamed]);
+    const phone = mergeRemoteLocations(
+      [renamed],
+      (await server.pull(cursor)).locations
+    );
+    expect(phone.applied).toEqual([]);
+  });
+
+  it("does not share objects with the caller", async () => {
+    const server = memoryTransport();
+    const s = session();
+    await server.push({ sessions: [s], locations: [] });
+    s.total = 99;
+    expect((await server.pull(0)).sessions[0].total).toBe(3);
+  });
+});
+
+describe("isPushRequest", () => {
+  const ok = { sessions: [session()], locations: [] };
+
+  it("accepts a well-formed push", () => {
+    expect(isPushRequest(ok)).toBe(true);
+    expect(
+      isPushRequest({
+        sessions: [
+          edited(session({ newCount: null, oldCount: null }), "2025-03-02"),
+        ],
+        locations: [{ id: "l", name: "L", archived: true, target: 30 }],
+      })
+    ).toBe(true);
+  });
+
+  it.each([
+    ["null", null],
+    ["an array", []],
+    ["missing locations", { sessions: [] }],
+    ["a null session", { sessions: [null], locations: [] }],
+    [
+      "a session without an id",
+      { sessions: [session({ sessionId: "" })], locations: [] },
+    ],
+    ["a text rev", { sessions: [{ ...session(), rev: "2" }], locations: [] }],
+    [
+      "a bad date",
+      { sessions: [session({ date: "2/3/2025" })], locations: [] },
+    ],
+    [
+      "a bad finish",
+      { sessions: [session({ finishedAt: "soon" })], locations: [] },
+    ],
+    [
+      "a null audit entry",
+      { sessions: [{ ...session(), audit: [null] }], locations: [] },
+    ],
+    ["a nameless location", { sessions: [], locations: [{ id: "l" }] }],
+  ])("rejects %s", (_, body) => {
+    expect(isPushRequest(body)).toBe(false);
+  });
+});
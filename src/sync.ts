@@ -0,0 +1,231 @@
+import { compareTimestamps } from "./dates.ts";
+import type { Location, Session } from "./types.ts";
+
+// Shared by the app and server/sync-server.ts, so no browser-only APIs here.
+
+/* -------------------- Protocol -------------------- */
+export type PushRequest = { sessions: Session[]; locations: Location[] };
+export type PushResponse = { accepted: number; cursor: number };
+export type PullResponse = {
+  sessions: Session[]; // changed since the requested cursor
+  locations: Location[]; // always the full registry (it is small)
+  cursor: number;
+};
+
+export type SyncTransport = {
+  push(body: PushRequest): Promise<PushResponse>;
+  pull(since: number): Promise<PullResponse>;
+};
+
+/* -------------------- Validation -------------------- */
+// The server stores whatever it is sent, so a push is checked field by
+// field first: one malformed record must not reach resolveConflict.
+type Fields = Record<string, unknown>;
+const isObject = (v: unknown): v is Fields =>
+  typeof v === "object" && v !== null && !Array.isArray(v);
+const isId = (v: unknown) => typeof v === "string" && v !== "";
+const isCount = (v: unknown) =>
+  typeof v === "number" && Number.isInteger(v) && v >= 0;
+const isTimestamp = (v: unknown) =>
+  typeof v === "string" && !Number.isNaN(Date.parse(v));
+const optional = (v: unknown, check: (v: unknown) => boolean) =>
+  v === undefined || check(v);
+const listOf = (check: (v: Fields) => boolean) => (v: unknown) =>
+  Array.isArray(v) && v.every((e) => isObject(e) && check(e));
+
+/** Whether `s` has every field a stored Session needs, well-formed. */
+export const isSession = (s: unknown): s is Session =>
+  isObject(s) &&
+  isId(s.sessionId) &&
+  typeof s.date === "string" &&
+  /^\d{4}-\d{2}-\d{2}$/.test(s.date) &&
+  isId(s.locationId) &&
+  (s.newCount === null || isCount(s.newCount)) &&
+  (s.oldCount === null || isCount(s.oldCount)) &&
+  isCount(s.total) &&
+  isTimestamp(s.finishedAt) &&
+  optional(s.rev, isCount) &&
+  optional(s.deletedAt, isTimestamp) &&
+  optional(s.shift, (v) => typeof v === "string") &&
+  optional(s.counts, isObject) &&
+  optional(s.billing, isObject) &&
+  optional(s.revenue, (v) => typeof v === "number") &&
+  optional(
+    s.audit,
+    listOf(
+      (e) =>
+        isTimestamp(e.at) &&
+        optional(e.message, (m) => isObject(m) && typeof m.key === "string")
+    )
+  ) &&
+  optional(
+    s.visits,
+    listOf((e) => isTimestamp(e.at))
+  ) &&
+  optional(
+    s.parts,
+    listOf((p) => isCount(p.total))
+  );
+
+/** Whether `l` is a well-formed Location. */
+export const isLocation = (l: unknown): l is Location =>
+  isObject(l) &&
+  isId(l.id) &&
+  typeof l.name === "string" &&
+  typeof l.archived === "boolean" &&
+  optional(l.fees, isObject) &&
+  optional(l.target, isCount) &&
+  optional(l.cap, isCount) &&
+  optional(l.rev, isCount) &&
+  optional(l.updatedAt, isTimestamp);
+
+/** Whether a parsed /push body has the shape PushRequest promises. */
+export const isPushRequest = (body: unknown): body is PushRequest =>
+  isObject(body) &&
+  Array.isArray(body.sessions) &&
+  body.sessions.every(isSession) &&
+  Array.isArray(body.locations) &&
+  body.locations.every(isLocation);
+
+/* -------------------- Conflicts -------------------- */
+const revOf = (r: { rev?: number }) => r.rev ?? 0;
+const lastChanged = (s: Session) =>
+  s.audit?.[s.audit.length - 1]?.at ?? s.finishedAt;
+
+/**
+ * Picks which copy of the same sessionId wins. More edits win, then the
+ * later finish, then the later edit. The final tie-break makes this a
+ * total order, so every device and the server settle on the same copy
+ * regardless of the order they saw them in.
+ */
+export function resolveConflict(mine: Session, theirs: Session): Session {
+  if (revOf(mine) !== revOf(theirs))
+    return revOf(mine) > revOf(theirs) ? mine : theirs;
+  const finished = compareTimestamps(mine.finishedAt, theirs.finishedAt);
+  if (finished !== 0) return finished > 0 ? mine : theirs;
+  const changed = compareTimestamps(lastChanged(mine), lastChanged(theirs));
+  if (changed !== 0) return changed > 0 ? mine : theirs;
+  return JSON.stringify(mine) >= JSON.stringify(theirs) ? mine : theirs;
+}
+
+/**
+ * Picks which copy of the same location id wins: more edits, then the
+ * later edit, then the same total-order tie-break as resolveConflict.
+ */
+export function resolveLocation(mine: Location, theirs: Location): Location {
+  if (revOf(mine) !== revOf(theirs))
+    return revOf(mine) > revOf(theirs) ? mine : theirs;
+  if (mine.updatedAt && theirs.updatedAt) {
+    const changed = compareTimestamps(mine.updatedAt, theirs.updatedAt);
+    if (changed !== 0) return changed > 0 ? mine : theirs;
+  }
+  return JSON.stringify(mine) >= JSON.stringify(theirs) ? mine : theirs;
+}
+
+/**
+ * Applies remote copies to a local list. Returns the merged list and the
+ * remote records that actually replaced or added something.
+ */
+export function mergeRemote(
+  local: Session[],
+  remote: Session[]
+): { sessions: Session[]; applied: Session[] } {
+  const byId = new Map(local.map((s) => [s.sessionId, s]));
+  const applied: Session[] = [];
+  remote.forEach((s) => {
+    const mine = byId.get(s.sessionId);
+    if (mine && JSON.stringify(mine) === JSON.stringify(s)) return;
+    if (!mine || resolveConflict(mine, s) === s) {
+      byId.set(s.sessionId, s);
+      applied.push(s);
+    }
+  });
+  return { sessions: Array.from(byId.values()), applied };
+}
+
+/** mergeRemote for the location registry; local-only locations stay. */
+export function mergeRemoteLocations(
+  local: Location[],
+  remote: Location[]
+): { locations: Location[]; applied: Location[] } {
+  const byId = new Map(local.map((l) => [l.id, l]));
+  const applied: Location[] = [];
+  remote.forEach((l) => {
+    const mine = byId.get(l.id);
+    if (mine && JSON.stringify(mine) === JSON.stringify(l)) return;
+    if (!mine || resolveLocation(mine, l) === l) {
+      byId.set(l.id, l);
+      applied.push(l);
+    }
+  });
+  return { locations: Array.from(byId.values()), applied };
+}
+
+/* -------------------- Server-side store -------------------- */
+export type SyncSnapshot = {
+  cursor: number;
+  sessions: { seq: number; session: Session }[];
+  locations: Location[];
+};
+
+/**
+ * The server's state machine, kept free of I/O so the Node server and
+ * the in-memory stand-in share it. Every stored change gets the next
+ * sequence number; a pull returns what changed after a given one.
+ */
+export function createSyncStore(snapshot?: SyncSnapshot) {
+  let cursor = snapshot?.cursor ?? 0;
+  const records = new Map(
+    (snapshot?.sessions ?? []).map((r) => [r.session.sessionId, r])
+  );
+  const locations = new Map((snapshot?.locations ?? []).map((l) => [l.id, l]));
+
+  return {
+    push(body: PushRequest): PushResponse {
+      let accepted = 0;
+      body.sessions.forEach((s) => {
+        const stored = records.get(s.sessionId);
+        if (stored && JSON.stringify(stored.session) === JSON.stringify(s))
+          return;
+        const winner = stored ? resolveConflict(stored.session, s) : s;
+        if (winner === s) accepted++;
+        // A losing push still bumps the record, so the pusher pulls the
+        // winning copy even if its cursor is already past it.
+        records.set(s.sessionId, { seq: ++cursor, session: winner });
+      });
+      // Every pull returns the whole registry, so a losing push needs no
+      // bump to reach its pusher.
+      body.locations.forEach((l) => {
+        const stored = locations.get(l.id);
+        locations.set(l.id, stored ? resolveLocation(stored, l) : l);
+      });
+      return { accepted, cursor };
+    },
+    pull(since: number): PullResponse {
+      return {
+        sessions: Array.from(records.values())
+          .filter((r) => r.seq > since)
+          .map((r) => r.session),
+        locations: Array.from(locations.values()),
+        cursor,
+      };
+    },
+    snapshot(): SyncSnapshot {
+      return {
+        cursor,
+        sessions: Array.from(records.values()),
+        locations: Array.from(locations.values()),
+      };
+    },
+  };
+}
+export type SyncStore = ReturnType<typeof createSyncStore>;
+
+/* -------------------- Transports -------------------- */
+/** In-process stand-in for the sync server (tests, demos). */
+export const memoryTransport = (
+  store: SyncStore = createSyncStore()
+): SyncTransport => ({
+  push: async (body) => structuredClone(store.push(structuredClone(body))),
+  pull: async (since) => structuredClone(store.pull(since)),
+});
@@ -0,0 +1,102 @@
+import { t } from "./i18n.ts";
+import {
+  activeProfileId,
+  loadSyncCursor,
+  readOutbox,
+  saveSyncCursor,
+  settleOutbox,
+} from "./storage.ts";
+import type { PullResponse, PushResponse, SyncTransport } from "./sync.ts";
+import type { Location, Session } from "./types.ts";
+
+/** Background Sync tag; src/sw.js listens for the same name. */
+const SYNC_TAG = "pc-sync";
+
+/** Network or server failure; `message` is meant for the user. */
+export class SyncError extends Error {}
+
+/* -------------------- HTTP transport -------------------- */
+export function httpTransport(url: string, token: string): SyncTransport {
+  const base = url.replace(/\/+$/, "");
+  const call = async <T>(path: string, init?: RequestInit): Promise<T> => {
+    let res: Response;
+    try {
+      res = await fetch(`${base}${path}`, {
+        ...init,
+        // Also tells src/sw.js to leave sync calls out of its cache.
+        cache: "no-store",
+        headers: {
+          "Content-Type": "application/json",
+          ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        },
+      });
+    } catch {
+      throw new SyncError(t("sync.unreachable"));
+    }
+    if (res.status === 401) throw new SyncError(t("sync.badToken"));
+    if (!res.ok)
+      throw new SyncError(t("sync.serverStatus", { status: res.status }));
+    return (await res.json()) as T;
+  };
+  return {
+    push: (body) =>
+      call<PushResponse>("/push", {
+        method: "POST",
+        body: JSON.stringify(body),
+      }),
+    pull: (since) => call<PullResponse>(`/pull?since=${since}`),
+  };
+}
+
+/* -------------------- Sync round -------------------- */
+export type SyncResult = {
+  sessions: Session[]; // pulled; apply with mergeRemote
+  locations: Location[]; // apply with mergeRemoteLocations
+  pushed: number;
+  pulled: number;
+};
+
+/**
+ * One sync round: push the outbox (everything on the first round with a
+ * server), then pull what changed on the server since the last round.
+ */
+export async function syncWithServer(
+  transport: SyncTransport,
+  local: { sessions: Session[]; locations: Location[] }
+): Promise<SyncResult> {
+  const profile = activeProfileId();
+  const [cursor, outbox] = await Promise.all([loadSyncCursor(), readOutbox()]);
+  const sessions =
+    cursor === null ? local.sessions : outbox.sessions.map((e) => e.session);
+  const locations =
+    cursor === null ? local.locations : outbox.locations.map((e) => e.location);
+  await transport.push({ sessions, locations });
+  const pulled = await transport.pull(cursor ?? 0);
+  // Storage follows the active profile; don't settle into another one.
+  if (activeProfileId() !== profile)
+    throw new SyncError(t("sync.profileChanged"));
+  await settleOutbox(outbox);
+  await saveSyncCursor(pulled.cursor);
+  return {
+    sessions: pulled.sessions,
+    locations: pulled.locations,
+    pushed: sessions.length,
+    pulled: pulled.sessions.length,
+  };
+}
+
+/** Forgets the server position, so the next round uploads everything. */
+export const resetSync = () => saveSyncCursor(null);
+
+// Background Sync is Chromium-only; elsewhere the page's `online` event
+// is the only trigger.
+type SyncRegistration = ServiceWorkerRegistration & {
+  sync?: { register(tag: string): Promise<void> };
+};
+
+/** Asks the service worker to flush the outbox once back online. */
+export async function requestBackgroundSync() {
+  if (!("serviceWorker" in navigator)) return;
+  const reg = (await navigator.serviceWorker.ready) as SyncRegistration;
+  await reg.sync?.register(SYNC_TAG).catch(() => undefined);
+}
@@ -0,0 +1,7 @@
+import "fake-indexeddb/auto";
+import { cleanup } from "@testing-library/react";
+import { afterEach } from "vitest";
+
+// Tests run without Vitest globals, so Testing Library can't register
+// its own cleanup.
+afterEach(cleanup);
@@ -0,0 +1,192 @@
+/* -------------------- Types -------------------- */
+// "new", "old" or a CounterCategory.id.
+export type VisitKind = "new" | "old" | (string & {});
+export type Visit = {
+  kind: VisitKind;
+  at: string; // ISO8601 arrival time, with local offset
+};
+
+export type Location = {
+  id: string;
+  name: string;
+  archived: boolean; // hidden from pickers, kept for history
+  address?: string;
+  chamberType?: string; // e.g. "Hospital", "Private chamber"
+  fees?: Fees; // consultation fees charged here; absent = not tracked
+  target?: number; // patients per day; alerts when reached
+  cap?: number; // patients per day; counting stops here
+  rev?: number; // bumped on every local edit; sync conflicts compare it
+  updatedAt?: string; // ISO8601 with offset; when it was last edited
+};
+
+/** Consultation fee per patient, in Settings.currency. */
+export type Fees = { new: number; old: number };
+/** The fees a session was charged at, with its per-session overrides. */
+export type Billing = {
+  fees: Fees; // copied from the location at finish; later edits there don't apply
+  freeNew: number; // patients seen without charge
+  freeOld: number;
+  discount: number; // taken off the session's income
+};
+
+export type Shift = "morning" | "afternoon" | "evening";
+
+/** A weekly chamber slot, e.g. Sat/Mon/Wed 17:00–21:00 at one location. */
+export type ScheduleSlot = {
+  id: string;
+  locationId: string; // Location.id
+  weekdays: number[]; // 0 = Sunday … 6 = Saturday
+  start: string; // "HH:MM", local time
+  end: string; // "HH:MM"; at or before `start` = past midnight
+};
+
+/** A user-defined tally next to NEW and OLD, e.g. procedures or referrals. */
+export type CounterCategory = {
+  id: string;
+  name: string;
+  color: CounterColor;
+  locationId: string | null; // Location.id it is shown at; null = everywhere
+  archived: boolean; // hidden from the counter card, kept for history
+};
+export type CounterColor = "green" | "amber" | "red" | "purple" | "teal";
+/** Counts per CounterCategory.id; categories left at zero are omitted. */
+export type CategoryCounts = Record<string, number>;
+
+export type Session = {
+  sessionId: string;
+  date: string; // YYYY-MM-DD
+  locationId: string; // Location.id
+  shift?: Shift; // tells apart separate sessions on the same date+location
+  newCount: number | null; // null = split unknown (migrated from v1)
+  oldCount: number | null; // null = split unknown (migrated from v1)
+  counts?: CategoryCounts; // custom categories; part of `total`
+  total: number;
+  billing?: Billing; // absent = income not tracked
+  revenue?: number; // computed from billing; absent if billing is, or the split is unknown
+  finishedAt: string; // ISO8601 with local offset
+  visits?: Visit[]; // absent for sessions finished before the visit log
+  parts?: SessionPart[]; // one per finish merged into this record
+  audit?: AuditEntry[]; // oldest first; absent for pre-audit records
+  deletedAt?: string; // tombstone; hidden everywhere but kept for undo
+  rev?: number; // bumped on every change; absent = 0 (sync conflicts)
+};
+
+/** A single finish that was merged into a date+location record. */
+export type SessionPart = Pick<
+  Session,
+  "newCount" | "oldCount" | "counts" | "total" | "finishedAt" | "visits"
+>;
+
+export type AuditChange = {
+  field:
+    | "date"
+    | "locationId"
+    | "shift"
+    | "newCount"
+    | "oldCount"
+    | "counts" // values are CategoryCounts as JSON
+    | "total"
+    | "billing" // values are Billing as JSON
+    | "revenue";
+  from: string | number | null;
+  to: string | number | null;
+};
+export type AuditEntry = {
+  at: string;
+  action: "created" | "merged" | "edited" | "split" | "deleted" | "restored";
+  changes?: AuditChange[];
+  message?: AuditNote; // shown in the reader's language
+  note?: string; // plain English, from older versions only
+};
+/** A message key (see i18n.en.ts) and the values it is filled with. */
+export type AuditNote = {
+  key:
+    | "audit.note.mergedIn"
+    | "audit.note.splitOut"
+    | "audit.note.splitFrom"
+    | "audit.note.imported"
+    | "audit.note.localDate";
+  values?: Record<string, string | number>;
+};
+
+/** The History filter state, shared by the list and the dashboard. */
+export type HistoryFilters = {
+  locFilter: string; // Location.id or "ALL"
+  yearFilter: string; // YYYY or "ALL"
+  monthFilter: number; // 1-12, 0 = all
+  counterFilter: string; // "ALL", "new", "old" or a CounterCategory.id
+  from: string; // YYYY-MM-DD or ""
+  to: string; // YYYY-MM-DD or ""
+};
+
+/** The in-progress (not yet finished) counter. */
+export type CurrentState = {
+  date: string | null;
+  locationId: string | null;
+  newCount: number;
+  oldCount: number;
+  counts?: CategoryCounts;
+  visits: Visit[]; // one entry per increment, oldest first
+  locked: boolean;
+  undo?: CounterAction[]; // oldest first; cleared on finish
+  redo?: CounterAction[]; // most recently undone last
+};
+
+/** One undoable change to the in-progress counter. */
+export type CounterAction =
+  | {
+      type: "count"; // increment, decrement or reset
+      kind: VisitKind;
+      from: number;
+      to: number;
+      added?: Visit; // by an increment
+      removed?: Visit[]; // by a decrement or reset
+      locked: [boolean, boolean]; // before, after
+    }
+  | { type: "date"; from: string | null; to: string | null }
+  | { type: "location"; from: string | null; to: string | null };
+
+// What Finish does when a session already exists for the same date+location.
+export type MergePolicy = "merge" | "separate" | "ask";
+// Which counter a clicker's next/previous (or volume up/down) key adds to.
+export type ClickerMapping = "off" | "next-new" | "next-old";
+export type Settings = {
+  mergePolicy: MergePolicy;
+  doctorName: string; // printed on report headers
+  syncUrl: string; // "" = sync off
+  syncToken: string; // sent as a Bearer token when set
+  autoLockMinutes: number; // 0 = never; only applies to a locked profile
+  counters: CounterCategory[]; // in display order
+  currency: string; // shown before amounts, e.g. "Tk"
+  schedule: ScheduleSlot[];
+  finishReminders: boolean; // notify when a session outlasts its slot
+  autoFinishAt: string; // "HH:MM" to finish an open session; "" = never
+  keyboardShortcuts: boolean;
+  clicker: ClickerMapping;
+  doubleTapMs: number; // tap mode: a second tap within this decrements; 0 = off
+  keepAwake: boolean; // hold a screen wake lock while counting
+};
+
+/** A person sharing the device; each has separate data. */
+export type Profile = {
+  id: string;
+  name: string;
+  lock?: ProfileLock; // set = PIN required and data encrypted at rest
+  pinHash?: string; // legacy unencrypted PIN; replaced by `lock` on unlock
+};
+
+/** The profile's data key, wrapped under a PIN-derived key. */
+export type ProfileLock = {
+  salt: Uint8Array<ArrayBuffer>; // PBKDF2
+  iterations: number;
+  iv: Uint8Array<ArrayBuffer>;
+  wrappedKey: ArrayBuffer;
+  biometric?: BiometricLock;
+};
+/** The same data key, wrapped under a WebAuthn PRF-derived key. */
+export type BiometricLock = {
+  credentialId: ArrayBuffer;
+  prfSalt: Uint8Array<ArrayBuffer>;
+  iv: Uint8Array<ArrayBuffer>;
+  wrappedKey: ArrayBuffer;
+};
@@ -0,0 +1,55 @@
+import { v4 as uuidv4 } from "uuid";
+import { localTimestamp } from "./dates.ts";
+import { digits, t } from "./i18n.ts";
+import type { Location, Shift } from "./types.ts";
+
+/* -------------------- Formatting -------------------- */
+export const pad2 = (n: number) => String(n).padStart(2, "0");
+
+export function formatDateDMY(iso: string) {
+  const [y, m, d] = iso.split("-");
+  return digits(`${d}/${m}/${y}`);
+}
+
+export const newLocation = (name: string): Location => ({
+  id: uuidv4(),
+  name,
+  archived: false,
+});
+
+/**
+ * `next` with every location that is new or differs from its copy in
+ * `prev` stamped as edited now. Unchanged ones keep their identity.
+ */
+export function withRevisions(prev: Location[], next: Location[]) {
+  const before = new Map(prev.map((l) => [l.id, l]));
+  const at = localTimestamp();
+  return next.map((l) =>
+    before.get(l.id) === l ? l : { ...l, rev: (l.rev ?? 0) + 1, updatedAt: at }
+  );
+}
+
+// The English names are also the spreadsheet format; the UI uses shiftLabel.
+export const SHIFT_LABELS: Record<Shift, string> = {
+  morning: "Morning",
+  afternoon: "Afternoon",
+  evening: "Evening",
+};
+export const shiftLabel = (s: Shift) => t(`shift.${s}`);
+
+/* -------------------- Split counts -------------------- */
+// Adds two split counts; unknown (null) on either side stays unknown.
+export const addSplit = (a: number | null, b: number | null) =>
+  a === null || b === null ? null : a + b;
+export const fmtSplit = (v: number | null) => (v === null ? "—" : digits(v));
+
+/* -------------------- Files -------------------- */
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  // Some browsers start the download asynchronously.
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
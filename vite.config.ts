@@ -1,7 +1,50 @@
-import { defineConfig } from 'vite'
+/// <reference types="vitest/config" />
+import { createHash } from 'node:crypto'
+import { readFileSync, readdirSync, statSync } from 'node:fs'
+import { defineConfig, type Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
 
+// Emits src/sw.js as /sw.js with this build's file list to precache and a
+// version derived from it, so every deploy installs a fresh worker.
+function serviceWorker(): Plugin {
+  return {
+    name: 'pc-service-worker',
+    apply: 'build',
+    generateBundle(_options, bundle) {
+      const publicFiles = readdirSync('public', {
+        recursive: true,
+        encoding: 'utf8',
+      })
+        .filter((f) => statSync(`public/${f}`).isFile())
+        .map((f) => f.replaceAll('\\', '/'))
+      const files = [...Object.keys(bundle), ...publicFiles].filter(
+        (f) => f !== 'index.html',
+      )
+      const precache = ['/', ...files.sort().map((f) => `/${f}`)]
+      // Built names are content-hashed, but index.html and public files
+      // are not, so hash their contents too.
+      const hash = createHash('sha256').update(precache.join('\n'))
+      Object.values(bundle).forEach((c) =>
+        hash.update(c.type === 'asset' ? c.source : c.code),
+      )
+      publicFiles.forEach((f) => hash.update(readFileSync(`public/${f}`)))
+      const version = hash.digest('hex').slice(0, 12)
+      this.emitFile({
+        type: 'asset',
+        fileName: 'sw.js',
+        source: readFileSync('src/sw.js', 'utf8')
+          .replace('__SW_VERSION__', version)
+          .replace('__SW_PRECACHE__', JSON.stringify(precache)),
+      })
+    },
+  }
+}
+
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), serviceWorker()],
+  test: {
+    environment: 'jsdom',
+    setupFiles: ['src/test-setup.ts'],
+  },
 })